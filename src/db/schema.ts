@@ -4,6 +4,7 @@ export const mcpServers = sqliteTable("mcp_servers", {
 	id: text("id").primaryKey(),
 	name: text("name").notNull(),
 	config: text("config").notNull(), // JSON: MCPConfig
+	hostContext: text("host_context"), // JSON: HostContext used by evaluations
 	createdAt: integer("created_at", { mode: "timestamp" }).notNull(),
 	oauthAccessToken: text("oauth_access_token"),
 	oauthRefreshToken: text("oauth_refresh_token"),
@@ -32,7 +33,10 @@ export const testCases = sqliteTable("test_cases", {
 	// Golden optimizer fields
 	runId: text("run_id").references(() => optimizationRuns.id), // If generated for specific run
 	invocationType: text("invocation_type"), // "direct" | "indirect" | "negative" for golden optimizer
-	shouldCall: integer("should_call", { mode: "boolean" }), // For golden optimizer
+	shouldCall: integer("should_call", { mode: "boolean" }), // false: abstention test (no tool should be called)
+	expectedArguments: text("expected_arguments"), // JSON: ArgumentMatcher
+	messages: text("messages"), // JSON: ConversationMessage[] for multi-turn tests
+	expectedCalls: text("expected_calls"), // JSON: ExpectedCalls for multi-tool tests
 });
 
 export const optimizationRuns = sqliteTable("optimization_runs", {
@@ -41,10 +45,22 @@ export const optimizationRuns = sqliteTable("optimization_runs", {
 	startedAt: integer("started_at", { mode: "timestamp" }).notNull(),
 	completedAt: integer("completed_at", { mode: "timestamp" }),
 	config: text("config").notNull(), // JSON: OptimizationConfig or GEPAConfig
-	status: text("status").notNull(), // "running" | "completed" | "failed"
+	status: text("status").notNull(), // "running" | "completed" | "failed" | "cancelled" | "interrupted"
 	// GEPA-specific fields (nullable for backwards compatibility)
 	maxEvaluations: integer("max_evaluations"),
 	subsampleSize: integer("subsample_size"),
+	// Evaluation cache stats (LLM calls saved vs made)
+	cacheHits: integer("cache_hits"),
+	cacheMisses: integer("cache_misses"),
+	// Token usage and cost across all LLM calls of the run
+	inputTokens: integer("input_tokens"),
+	outputTokens: integer("output_tokens"),
+	costUsd: real("cost_usd"),
+	// Why the run stopped and how much of the evaluation budget was left
+	stopReason: text("stop_reason"), // StopReason
+	stopDetail: text("stop_detail"),
+	unspentEvaluations: integer("unspent_evaluations"),
+	testSplit: text("test_split"), // JSON: TestSplitIds of a split GEPA run
 });
 
 export const candidates = sqliteTable("candidates", {
@@ -53,10 +69,23 @@ export const candidates = sqliteTable("candidates", {
 	generation: integer("generation"), // For old optimizer (now nullable)
 	toolDescriptions: text("tool_descriptions").notNull(), // JSON: Record<toolName, description>
 	accuracy: real("accuracy").notNull(),
+	argumentAccuracy: real("argument_accuracy"),
+	errorCount: integer("error_count"), // Evaluations that failed (excluded from accuracy)
+	// Repeated sampling (null for single-sample runs)
+	expectedAccuracy: real("expected_accuracy"),
+	stability: real("stability"),
+	// Multi-model runs (null when evaluating on one model)
+	modelAccuracy: text("model_accuracy"), // JSON: model -> accuracy
+	robustness: real("robustness"),
 	avgDescriptionLength: real("avg_description_length").notNull(),
+	// Estimated tokens (see src/lib/tokenizer.ts)
+	avgToolTokens: real("avg_tool_tokens"),
+	toolListTokens: integer("tool_list_tokens"),
+	toolTokens: text("tool_tokens"), // JSON: tool name -> tokens
 	isPareto: integer("is_pareto", { mode: "boolean" }).default(false),
 	// GEPA-specific fields
 	parentId: text("parent_id"),
+	mergeParentId: text("merge_parent_id"), // Merge offspring: the second parent
 	iteration: integer("iteration"), // For GEPA iterations
 	archiveIndex: integer("archive_index"), // Position in archive
 	subsampleScore: real("subsample_score"), // Score on subsample before full eval
@@ -67,6 +96,14 @@ export const candidates = sqliteTable("candidates", {
 	precision: real("precision"), // Precision metric for golden optimizer
 	recall: real("recall"), // Recall metric for golden optimizer
 	variationType: text("variation_type"), // Type of variation used to generate this candidate
+	promptVersions: text("prompt_versions"), // JSON: PromptVersions of the templates that produced it
+	// Reflection notes on why this candidate was made (null for baselines)
+	diagnosis: text("diagnosis"),
+	rationale: text("rationale"),
+	// Final Pareto candidates of split GEPA runs
+	trainScore: real("train_score"),
+	validationScore: real("validation_score"),
+	testScore: real("test_score"), // Held-out test cases
 });
 
 export const evaluations = sqliteTable("evaluations", {
@@ -76,11 +113,31 @@ export const evaluations = sqliteTable("evaluations", {
 	selectedTool: text("selected_tool"),
 	expectedTool: text("expected_tool"),
 	correct: integer("correct", { mode: "boolean" }).notNull(),
+	argumentsCorrect: integer("arguments_correct", { mode: "boolean" }), // Null when not checked
+	arguments: text("arguments"), // JSON: arguments of the call, when a tool was called
+	argumentErrors: text("argument_errors"), // JSON: problems with those arguments
+	error: text("error"), // EvaluationErrorKind when the LLM call failed
+	selectionCounts: text("selection_counts"), // JSON: tool name -> samples (repeated sampling)
+	sampleAccuracy: real("sample_accuracy"),
+	model: text("model"), // Evaluation model, set for multi-model runs
+	selectedTools: text("selected_tools"), // JSON: every tool called (multi-tool tests)
+	credit: real("credit"), // Partial credit (multi-tool tests)
 	timestamp: integer("timestamp", { mode: "timestamp" }),
 	// Nullable for full evaluations, set for subsample evaluations
 	iterationId: text("iteration_id").references(() => iterations.id),
 });
 
+// Content-addressed tool selection results, shared across candidates and runs
+export const evaluationCache = sqliteTable("evaluation_cache", {
+	key: text("key").primaryKey(), // sha256 of model, query and full tool list
+	model: text("model").notNull(),
+	query: text("query").notNull(),
+	selectedTool: text("selected_tool"),
+	arguments: text("arguments"), // JSON
+	toolCalls: text("tool_calls"), // JSON: ToolCall[] (null on older entries)
+	createdAt: integer("created_at", { mode: "timestamp" }).notNull(),
+});
+
 export const events = sqliteTable("events", {
 	id: text("id").primaryKey(),
 	runId: text("run_id").references(() => optimizationRuns.id),
@@ -98,9 +155,42 @@ export const iterations = sqliteTable("iterations", {
 	subsampleScore: real("subsample_score"), // Offspring score on subsample
 	parentSubsampleScore: real("parent_subsample_score"), // Parent score on same subsample
 	subsampleSize: integer("subsample_size"), // Number of test cases in subsample
+	subsampleStrategy: text("subsample_strategy"), // SubsampleStrategy that picked them
+	acceptanceTest: text("acceptance_test"), // AcceptanceTest that decided
+	acceptanceStatistic: real("acceptance_statistic"), // Test statistic (see AcceptanceResult)
+	acceptancePValue: real("acceptance_p_value"), // Unset for threshold
+	extraCases: integer("extra_cases"), // Cases added by sequential testing
 	accepted: integer("accepted", { mode: "boolean" }), // Whether offspring was accepted
 	rejectionReason: text("rejection_reason"), // Reason if rejected
 	startedAt: integer("started_at", { mode: "timestamp" }).notNull(),
 	completedAt: integer("completed_at", { mode: "timestamp" }),
 	totalEvaluations: integer("total_evaluations"), // Running count of evaluations
 });
+
+// Runtime-registered model providers (built-in providers live in lib/constants.ts)
+export const modelProviders = sqliteTable("model_providers", {
+	id: text("id").primaryKey(), // Slug, used as model name prefix
+	name: text("name").notNull(),
+	type: text("type").notNull(), // "anthropic" | "openai" | "openai-compatible"
+	baseUrl: text("base_url"),
+	apiKey: text("api_key"),
+	apiKeyEnv: text("api_key_env"),
+	createdAt: integer("created_at", { mode: "timestamp" }).notNull(),
+});
+
+export const models = sqliteTable("models", {
+	name: text("name").primaryKey(), // Registry key, e.g. "ollama/llama3.1"
+	providerId: text("provider_id")
+		.references(() => modelProviders.id)
+		.notNull(),
+	modelId: text("model_id").notNull(), // Provider-side model identifier
+});
+
+// Saved versions of the generation prompts (built-ins are version 0, in lib/prompt-templates.ts)
+export const promptTemplates = sqliteTable("prompt_templates", {
+	id: text("id").primaryKey(),
+	name: text("name").notNull(), // PromptTemplateName
+	version: integer("version").notNull(), // Latest version per name is used
+	template: text("template").notNull(),
+	createdAt: integer("created_at", { mode: "timestamp" }).notNull(),
+});
@@ -0,0 +1,241 @@
+import type { AcceptanceTest, EvalResult, EvaluatedCandidate } from "../types";
+import type { Random } from "./random";
+import { getCredit, getTaskKey } from "./robustness";
+
+// Resamples drawn by the bootstrap test
+const BOOTSTRAP_RESAMPLES = 1000;
+
+// Sequential testing adds at most this many rounds of subsampleSize cases
+export const SEQUENTIAL_MAX_ROUNDS = 3;
+
+// Below this many paired tasks mcnemar and bootstrap can hardly reject (an
+// exact McNemar test at 0.05 needs 5 of 5 discordant pairs lost), so an
+// offspring that did worse is undecided and gets more cases instead of
+// being accepted
+export const MIN_TEST_PAIRS = 20;
+
+/**
+ * Outcome of an acceptance test - "undecided" when more cases might separate
+ * offspring and parent: sequential testing, or mcnemar and bootstrap on
+ * fewer than MIN_TEST_PAIRS tasks
+ * The statistic depends on the test:
+ * - threshold: offspring minus parent subsample score
+ * - sequential and bootstrap: mean paired credit difference
+ * - mcnemar: continuity-corrected chi-square of the discordant pairs
+ */
+export type AcceptanceResult = {
+	decision: "accept" | "reject" | "undecided";
+	statistic: number;
+	pValue?: number; // One-sided for mcnemar and bootstrap (offspring worse), two-sided for sequential
+	summary: string; // Readable result, the rejection reason when rejected
+};
+
+/**
+ * Offspring and parent credit on the same task, for every task both have a
+ * valid evaluation of
+ */
+export type CreditPair = { offspring: number; parent: number };
+
+/**
+ * Pair offspring evaluations with the parent's evaluations of the same
+ * (test case, model) task
+ */
+export function pairEvaluations(
+	offspringEvaluations: EvalResult[],
+	parent: EvaluatedCandidate,
+): CreditPair[] {
+	const parentCredits = new Map(
+		parent.evaluations
+			.filter((e) => !e.error)
+			.map((e) => [getTaskKey(e.testCaseId, e.model), getCredit(e)]),
+	);
+
+	return offspringEvaluations.flatMap((evaluation) => {
+		const parentCredit = parentCredits.get(
+			getTaskKey(evaluation.testCaseId, evaluation.model),
+		);
+		return evaluation.error || parentCredit === undefined
+			? []
+			: [{ offspring: getCredit(evaluation), parent: parentCredit }];
+	});
+}
+
+/**
+ * Decide whether an offspring passes the subsample filter
+ * - threshold: rejected when its subsample score is lower than the parent's
+ * - sequential: accepted or rejected once a (1 - significanceLevel)
+ *   confidence interval of the mean paired difference excludes 0, otherwise
+ *   undecided
+ * - mcnemar / bootstrap: rejected only when significantly worse, undecided
+ *   when not but the offspring did worse on fewer than MIN_TEST_PAIRS tasks
+ */
+export function testAcceptance(
+	test: AcceptanceTest,
+	pairs: CreditPair[],
+	offspringScore: number,
+	parentScore: number,
+	significanceLevel: number,
+	random: Random = Math.random,
+): AcceptanceResult {
+	switch (test) {
+		case "threshold": {
+			const worse = offspringScore < parentScore - 0.001;
+			return {
+				decision: worse ? "reject" : "accept",
+				statistic: offspringScore - parentScore,
+				summary: worse
+					? `Lower accuracy (${formatPercent(offspringScore)} < ${formatPercent(parentScore)})`
+					: `Accuracy ${formatPercent(offspringScore)} vs ${formatPercent(parentScore)}`,
+			};
+		}
+		case "sequential":
+			return testSequential(pairs, significanceLevel);
+		case "mcnemar":
+			return testMcNemar(pairs, significanceLevel);
+		case "bootstrap":
+			return testBootstrap(pairs, significanceLevel, random);
+	}
+}
+
+/**
+ * Two-sided z test of the mean paired difference - the confidence interval
+ * excludes 0 exactly when p < significanceLevel
+ */
+function testSequential(
+	pairs: CreditPair[],
+	significanceLevel: number,
+): AcceptanceResult {
+	const diffs = pairs.map((pair) => pair.offspring - pair.parent);
+	const n = diffs.length;
+	const mean = n > 0 ? diffs.reduce((sum, d) => sum + d, 0) / n : 0;
+	const variance =
+		n > 1 ? diffs.reduce((sum, d) => sum + (d - mean) ** 2, 0) / (n - 1) : 0;
+	const standardError = Math.sqrt(variance / Math.max(1, n));
+
+	// Identical differences: separated unless they are all 0
+	if (standardError === 0) {
+		const decision =
+			n > 1 && mean !== 0 ? (mean > 0 ? "accept" : "reject") : "undecided";
+		return {
+			decision,
+			statistic: mean,
+			pValue: decision === "undecided" ? 1 : 0,
+			summary: `Mean difference ${formatSigned(mean)} over ${n} cases${decision === "reject" ? " - every case worse" : ""}`,
+		};
+	}
+
+	const z = mean / standardError;
+	const pValue = 2 * (1 - normalCdf(Math.abs(z)));
+	const decision =
+		pValue >= significanceLevel ? "undecided" : z > 0 ? "accept" : "reject";
+	return {
+		decision,
+		statistic: mean,
+		pValue,
+		summary: `${decision === "reject" ? "Significantly worse" : "Mean difference"} ${formatSigned(mean)} over ${n} cases (sequential z=${z.toFixed(2)}, p=${pValue.toFixed(3)})`,
+	};
+}
+
+/**
+ * Exact McNemar test on pass/fail outcomes: of the tasks only one of the
+ * two passes, does the parent win more than chance allows?
+ */
+function testMcNemar(
+	pairs: CreditPair[],
+	significanceLevel: number,
+): AcceptanceResult {
+	const lost = pairs.filter((p) => p.parent === 1 && p.offspring < 1).length;
+	const won = pairs.filter((p) => p.offspring === 1 && p.parent < 1).length;
+	const discordant = lost + won;
+
+	// P(at least `lost` of the discordant pairs go to the parent by chance)
+	let pValue = 0;
+	for (let k = lost; k <= discordant; k++) {
+		pValue += binomial(discordant, k) / 2 ** discordant;
+	}
+	pValue = Math.min(1, pValue);
+
+	const statistic =
+		discordant > 0
+			? Math.max(0, Math.abs(lost - won) - 1) ** 2 / discordant
+			: 0;
+	const worse = pValue < significanceLevel;
+	return {
+		decision: worse
+			? "reject"
+			: lost > won && pairs.length < MIN_TEST_PAIRS
+				? "undecided"
+				: "accept",
+		statistic,
+		pValue,
+		summary: `${worse ? "Significantly worse" : "Not significantly worse"} (McNemar: ${lost} cases lost, ${won} won, p=${pValue.toFixed(3)})`,
+	};
+}
+
+/**
+ * Paired bootstrap: resample the tasks and count how often the offspring
+ * still comes out no worse than the parent
+ */
+function testBootstrap(
+	pairs: CreditPair[],
+	significanceLevel: number,
+	random: Random,
+): AcceptanceResult {
+	const diffs = pairs.map((pair) => pair.offspring - pair.parent);
+	const n = diffs.length;
+	const mean = n > 0 ? diffs.reduce((sum, d) => sum + d, 0) / n : 0;
+
+	let notWorse = 0;
+	for (let resample = 0; resample < BOOTSTRAP_RESAMPLES && n > 0; resample++) {
+		let sum = 0;
+		for (let i = 0; i < n; i++) {
+			sum += diffs[Math.floor(random() * n)] ?? 0;
+		}
+		if (sum >= 0) notWorse++;
+	}
+	const pValue = n > 0 ? (notWorse + 1) / (BOOTSTRAP_RESAMPLES + 1) : 1;
+
+	const worse = pValue < significanceLevel;
+	return {
+		decision: worse
+			? "reject"
+			: mean < 0 && n < MIN_TEST_PAIRS
+				? "undecided"
+				: "accept",
+		statistic: mean,
+		pValue,
+		summary: `${worse ? "Significantly worse" : "Not significantly worse"} (bootstrap: mean difference ${formatSigned(mean)} over ${n} cases, p=${pValue.toFixed(3)})`,
+	};
+}
+
+function binomial(n: number, k: number): number {
+	let result = 1;
+	for (let i = 1; i <= k; i++) {
+		result = (result * (n - k + i)) / i;
+	}
+	return result;
+}
+
+/**
+ * Standard normal CDF (Abramowitz and Stegun 7.1.26, error below 1.5e-7)
+ */
+function normalCdf(x: number): number {
+	const t = 1 / (1 + (0.3275911 * Math.abs(x)) / Math.SQRT2);
+	const erf =
+		1 -
+		t *
+			(0.254829592 +
+				t *
+					(-0.284496736 +
+						t * (1.421413741 + t * (-1.453152027 + t * 1.061405429)))) *
+			Math.exp(-(x * x) / 2);
+	return x >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+function formatPercent(value: number): string {
+	return `${(value * 100).toFixed(0)}%`;
+}
+
+function formatSigned(value: number): string {
+	return `${value >= 0 ? "+" : ""}${value.toFixed(2)}`;
+}
@@ -8,6 +8,7 @@ export interface Archive {
 	candidates: Map<string, EvaluatedCandidate>;
 	createdAt: Map<string, number>;
 	parentOf: Map<string, string>;
+	mergeParentOf: Map<string, string>; // Second parent of merge offspring
 }
 
 /**
@@ -18,22 +19,28 @@ export function createArchive(): Archive {
 		candidates: new Map(),
 		createdAt: new Map(),
 		parentOf: new Map(),
+		mergeParentOf: new Map(),
 	};
 }
 
 /**
  * Add candidate to archive with optional parent tracking
+ * Merge offspring have a second parent
  */
 export function addToArchive(
 	archive: Archive,
 	candidate: EvaluatedCandidate,
 	parentId?: string,
+	mergeParentId?: string,
 ): void {
 	archive.candidates.set(candidate.id, candidate);
 	archive.createdAt.set(candidate.id, Date.now());
 	if (parentId) {
 		archive.parentOf.set(candidate.id, parentId);
 	}
+	if (mergeParentId) {
+		archive.mergeParentOf.set(candidate.id, mergeParentId);
+	}
 }
 
 /**
@@ -0,0 +1,115 @@
+import type { ArgumentMatcher } from "../types";
+import { deepEqual, isObject, validateJsonSchema } from "./json-schema";
+
+/**
+ * Validate an argument matcher from user input, throwing on bad shapes
+ */
+export function parseArgumentMatcher(input: unknown): ArgumentMatcher {
+	if (!isObject(input)) {
+		throw new Error("Expected arguments must be an object");
+	}
+
+	switch (input.type) {
+		case "schema":
+			return { type: "schema" };
+		case "exact":
+		case "subset":
+			if (!isObject(input.value)) {
+				throw new Error(`${input.type} matcher needs an object value`);
+			}
+			return { type: input.type, value: input.value };
+		case "regex": {
+			const value = input.value;
+			if (!isObject(value)) {
+				throw new Error("regex matcher needs an object of patterns");
+			}
+			const patterns: Record<string, string> = {};
+			for (const [key, pattern] of Object.entries(value)) {
+				if (typeof pattern !== "string") {
+					throw new Error(`Pattern for ${key} must be a string`);
+				}
+				new RegExp(pattern); // Throws on invalid patterns
+				patterns[key] = pattern;
+			}
+			return { type: "regex", value: patterns };
+		}
+		default:
+			throw new Error(
+				`Unknown argument matcher: ${String(input.type)} (expected exact, subset, regex or schema)`,
+			);
+	}
+}
+
+/**
+ * Check tool call arguments against a test case's expectation
+ * Arguments must always satisfy the tool's inputSchema, the matcher can
+ * then require exact values, a subset of values or per-argument patterns
+ */
+export function matchArguments(
+	matcher: ArgumentMatcher,
+	args: unknown,
+	inputSchema: Record<string, unknown>,
+): { correct: boolean; errors: string[] } {
+	const errors = validateJsonSchema(args ?? {}, inputSchema);
+
+	switch (matcher.type) {
+		case "exact":
+			if (!deepEqual(args ?? {}, matcher.value)) {
+				errors.push(
+					`expected exactly ${JSON.stringify(matcher.value)}, got ${JSON.stringify(args ?? {})}`,
+				);
+			}
+			break;
+		case "subset":
+			errors.push(...subsetErrors(matcher.value, args, "$"));
+			break;
+		case "regex":
+			for (const [key, pattern] of Object.entries(matcher.value)) {
+				const value = isObject(args) ? args[key] : undefined;
+				if (value === undefined) {
+					errors.push(`$.${key}: missing`);
+					continue;
+				}
+				const text = typeof value === "string" ? value : JSON.stringify(value);
+				if (!new RegExp(pattern).test(text)) {
+					errors.push(
+						`$.${key}: ${JSON.stringify(text)} does not match /${pattern}/`,
+					);
+				}
+			}
+			break;
+		case "schema":
+			// Schema validation above is the whole check
+			break;
+	}
+
+	return { correct: errors.length === 0, errors };
+}
+
+/**
+ * Every expected key must be present with an equal value - nested objects
+ * are compared as subsets too, arrays and scalars must match exactly
+ */
+function subsetErrors(
+	expected: Record<string, unknown>,
+	actual: unknown,
+	path: string,
+): string[] {
+	if (!isObject(actual)) {
+		return [`${path}: expected an object, got ${JSON.stringify(actual)}`];
+	}
+
+	const errors: string[] = [];
+	for (const [key, value] of Object.entries(expected)) {
+		if (!(key in actual)) {
+			errors.push(`${path}.${key}: missing`);
+		} else if (isObject(value)) {
+			errors.push(...subsetErrors(value, actual[key], `${path}.${key}`));
+		} else if (!deepEqual(value, actual[key])) {
+			errors.push(
+				`${path}.${key}: expected ${JSON.stringify(value)}, got ${JSON.stringify(actual[key])}`,
+			);
+		}
+	}
+	return errors;
+}
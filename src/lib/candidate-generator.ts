@@ -1,5 +1,17 @@
-import type { Candidate, ModelName, Tool } from "../types";
+import type {
+	Candidate,
+	HostContext,
+	LengthMetric,
+	ModelName,
+	PromptTemplates,
+	TokenizerFamily,
+	Tool,
+} from "../types";
+import { formatHostContext } from "./host-context";
 import { reflect } from "./llm";
+import { renderPromptTemplate } from "./prompt-templates";
+import { countTokens } from "./tokenizer";
+import type { UsageTracker } from "./usage";
 
 /**
  * Variation types for candidate generation
@@ -14,11 +26,19 @@ type VariationType =
 
 /**
  * Generate candidate variations using LLM
+ * Length targets are given in lengthMetric
+ * Throws once signal is aborted - other failures give baseline copies
  */
 export async function generateCandidates(
 	baselineTools: Tool[],
 	count: number,
 	model: ModelName,
+	templates: PromptTemplates,
+	usage?: UsageTracker,
+	hostContext?: HostContext,
+	signal?: AbortSignal,
+	lengthMetric: LengthMetric = "characters",
+	tokenizer: TokenizerFamily = "generic",
 ): Promise<Array<{ candidate: Candidate; variationType: string }>> {
 	const candidates: Array<{ candidate: Candidate; variationType: string }> = [];
 
@@ -51,6 +71,12 @@ export async function generateCandidates(
 				baselineTools,
 				variationType,
 				model,
+				templates,
+				usage,
+				hostContext,
+				signal,
+				lengthMetric,
+				tokenizer,
 			);
 
 			candidates.push({
@@ -62,6 +88,7 @@ export async function generateCandidates(
 				`Generated candidate ${i + 2}/${count} (${variationType} variation)`,
 			);
 		} catch (error) {
+			if (signal?.aborted) throw error;
 			console.error(`Error generating ${variationType} variation:`, error);
 			// On error, add a copy of baseline with new ID
 			candidates.push({
@@ -81,27 +108,51 @@ async function generateVariation(
 	tools: Tool[],
 	variationType: VariationType,
 	model: ModelName,
+	templates: PromptTemplates,
+	usage?: UsageTracker,
+	hostContext?: HostContext,
+	signal?: AbortSignal,
+	lengthMetric: LengthMetric = "characters",
+	tokenizer: TokenizerFamily = "generic",
 ): Promise<Candidate> {
 	const mutatedTools: Tool[] = [];
+	// Per-tool reflection notes, one "tool: text" line each
+	const diagnoses: string[] = [];
+	const rationales: string[] = [];
+	const variationTemplate = templates[`variation-${variationType}`];
 
 	for (const tool of tools) {
-		const prompt = buildVariationPrompt(tool, tools, variationType);
+		const prompt = buildVariationPrompt(
+			tool,
+			tools,
+			variationType,
+			templates,
+			hostContext,
+			lengthMetric,
+			tokenizer,
+		);
 
 		console.log(`\n=== ${variationType.toUpperCase()} VARIATION ===`);
 		console.log(`Tool: ${tool.name}`);
 		console.log(`Original: "${tool.description}"`);
 
 		try {
-			const newDescription = await reflect(model, prompt);
+			const { diagnosis, rationale, description } = await reflect(
+				model,
+				prompt,
+				usage,
+				signal,
+			);
 
-			console.log(`Modified: "${newDescription.trim()}"`);
+			console.log(`Modified: "${description}"`);
+			console.log(`Rationale: ${rationale}`);
 			console.log("=== END ===\n");
 
-			mutatedTools.push({
-				...tool,
-				description: newDescription.trim(),
-			});
+			mutatedTools.push({ ...tool, description });
+			diagnoses.push(`${tool.name}: ${diagnosis}`);
+			rationales.push(`${tool.name}: ${rationale}`);
 		} catch (error) {
+			if (signal?.aborted) throw error;
 			console.error(
 				`Error generating ${variationType} variation for ${tool.name}:`,
 				error,
@@ -114,6 +165,12 @@ async function generateVariation(
 	return {
 		id: crypto.randomUUID(),
 		tools: mutatedTools,
+		promptVersions: {
+			"variation-context": templates["variation-context"].version,
+			[variationTemplate.name]: variationTemplate.version,
+		},
+		diagnosis: diagnoses.join("\n") || undefined,
+		rationale: rationales.join("\n") || undefined,
 	};
 }
 
@@ -121,6 +178,10 @@ function buildVariationPrompt(
 	tool: Tool,
 	allTools: Tool[],
 	variationType: VariationType,
+	templates: PromptTemplates,
+	hostContext?: HostContext,
+	lengthMetric: LengthMetric = "characters",
+	tokenizer: TokenizerFamily = "generic",
 ): string {
 	const otherTools = allTools
 		.filter((t) => t.id !== tool.id)
@@ -130,113 +191,25 @@ function buildVariationPrompt(
 		)
 		.join("\n");
 
-	const baseContext = `You are optimizing tool descriptions for an LLM function calling system.
-
-Target tool:
-Name: ${tool.name}
-Description: "${tool.description}"
-Input Schema: ${JSON.stringify(tool.inputSchema, null, 2)}
-
-Other available tools (with their schemas):
-${otherTools}
-
-Use the input schemas to understand what makes each tool unique and what parameters they accept.`;
-
-	switch (variationType) {
-		case "clarity":
-			return `${baseContext}
-
-Task: Rewrite this description to be CLEARER and easier to understand.
-
-Focus on:
-- Use simple, direct language
-- Remove ambiguous terms
-- Make the purpose immediately obvious
-- Explain what the tool does in plain terms
-
-Requirements:
-- Keep functionality identical
-- Maximum 200 characters
-- Return ONLY the new description, no explanation`;
-
-		case "specificity":
-			return `${baseContext}
-
-Task: Rewrite this description to be MORE SPECIFIC about when and how to use this tool.
-
-Focus on:
-- Add specific use cases and scenarios
-- Clarify exact capabilities and limitations
-- Distinguish from similar tools
-- Include concrete examples of what it handles
-
-Requirements:
-- Keep functionality identical
-- Maximum 250 characters
-- Return ONLY the new description, no explanation`;
-
-		case "conciseness":
-			return `${baseContext}
-
-Task: Make this description MORE CONCISE while preserving all essential information.
-
-Focus on:
-- Remove redundant words
-- Use shorter phrasing
-- Keep only critical information
-- Maintain clarity despite brevity
-
-Requirements:
-- Keep functionality identical
-- Target: under ${Math.max(50, Math.floor(tool.description.length * 0.7))} characters
-- Return ONLY the new description, no explanation`;
-
-		case "edge-cases":
-			return `${baseContext}
-
-Task: Rewrite this description to better handle EDGE CASES and avoid false positives.
-
-Focus on:
-- Explicitly state when NOT to use this tool
-- Add constraints and boundaries
-- Clarify what's outside the scope
-- Prevent confusion with similar tools
-
-Requirements:
-- Keep functionality identical
-- Maximum 250 characters
-- Return ONLY the new description, no explanation`;
-
-		case "precision":
-			return `${baseContext}
-
-Task: Optimize this description for PRECISION (avoiding false positives).
-
-Focus on:
-- Be very specific about exact use cases
-- Add exclusionary language ("only for...", "specifically when...")
-- Narrow the scope to prevent incorrect selection
-- Distinguish clearly from other tools
-
-Requirements:
-- Keep functionality identical
-- Maximum 200 characters
-- Return ONLY the new description, no explanation`;
-
-		case "recall":
-			return `${baseContext}
-
-Task: Optimize this description for RECALL (catching all valid uses).
-
-Focus on:
-- Broaden language to cover all use cases
-- Include alternative phrasings users might use
-- Ensure indirect invocations are captured
-- Cover different ways users might express the need
+	const context = renderPromptTemplate(templates["variation-context"], {
+		toolName: tool.name,
+		description: tool.description,
+		inputSchema: JSON.stringify(tool.inputSchema, null, 2),
+		otherTools,
+		hostContext: formatHostContext(hostContext),
+	});
 
-Requirements:
-- Keep functionality identical
-- Maximum 200 characters
-- Return ONLY the new description, no explanation`;
-	}
+	// 50 characters is about 12 tokens
+	const length =
+		lengthMetric === "tokens"
+			? countTokens(tool.description, tokenizer)
+			: tool.description.length;
+	return renderPromptTemplate(templates[`variation-${variationType}`], {
+		context,
+		targetLength: Math.max(
+			lengthMetric === "tokens" ? 12 : 50,
+			Math.floor(length * 0.7),
+		),
+		unit: lengthMetric,
+	});
 }
@@ -0,0 +1,118 @@
+import { createHash } from "node:crypto";
+import { join } from "node:path";
+import type { LanguageModel, LanguageModelMiddleware } from "ai";
+import { wrapLanguageModel } from "ai";
+import type { ModelName } from "../types";
+
+type WrappableLanguageModel = Exclude<LanguageModel, string>;
+type GenerateResult = Awaited<ReturnType<WrappableLanguageModel["doGenerate"]>>;
+
+/**
+ * LLM call mode, set with LLM_MODE
+ * - live: call the provider (default)
+ * - record: call the provider and save every response to the cassette dir
+ * - replay: answer from the cassette dir only, never touching the network
+ */
+export type LLMMode = "live" | "record" | "replay";
+
+type CassetteEntry = {
+	model: ModelName;
+	request: unknown;
+	response: Pick<
+		GenerateResult,
+		"content" | "finishReason" | "usage" | "providerMetadata" | "warnings"
+	>;
+};
+
+export function getLLMMode(): LLMMode {
+	const mode = process.env.LLM_MODE ?? "live";
+	if (mode !== "live" && mode !== "record" && mode !== "replay") {
+		throw new Error(
+			`Invalid LLM_MODE: ${mode} (expected live, record or replay)`,
+		);
+	}
+	return mode;
+}
+
+export function getCassetteDir(): string {
+	return process.env.LLM_CASSETTE_DIR ?? "cassettes";
+}
+
+/**
+ * Wrap a language model so calls are recorded to or replayed from disk.
+ * Entries are keyed by model name, messages, tool set, output format and
+ * temperature. Above temperature 0 each repeat of the same request (e.g.
+ * the samples of repeated sampling) is an entry of its own, numbered in
+ * call order - replay the calls in the order they were recorded.
+ */
+export function withCassette(
+	model: WrappableLanguageModel,
+	name: ModelName,
+	mode: Exclude<LLMMode, "live">,
+	dir = getCassetteDir(),
+): WrappableLanguageModel {
+	return wrapLanguageModel({
+		model,
+		middleware: cassetteMiddleware(name, mode, dir),
+	});
+}
+
+function cassetteMiddleware(
+	name: ModelName,
+	mode: Exclude<LLMMode, "live">,
+	dir: string,
+): LanguageModelMiddleware {
+	// Calls so far per request - temperature 0 requests all share call 0
+	const calls = new Map<string, number>();
+
+	return {
+		wrapGenerate: async ({ doGenerate, params }) => {
+			const request = {
+				prompt: params.prompt,
+				tools: params.tools,
+				toolChoice: params.toolChoice,
+				responseFormat: params.responseFormat,
+				temperature: params.temperature || undefined,
+			};
+			const requestKey = JSON.stringify({ model: name, ...request });
+			let call = 0;
+			if (request.temperature) {
+				call = calls.get(requestKey) ?? 0;
+				calls.set(requestKey, call + 1);
+			}
+			const key = createHash("sha256")
+				.update(
+					call > 0
+						? JSON.stringify({ model: name, ...request, call })
+						: requestKey,
+				)
+				.digest("hex");
+			const file = Bun.file(join(dir, `${key}.json`));
+
+			if (mode === "replay") {
+				if (!(await file.exists())) {
+					throw new Error(
+						`No cassette recorded for ${name} (${key}) in ${dir} - record it with LLM_MODE=record`,
+					);
+				}
+				const entry: CassetteEntry = await file.json();
+				return entry.response;
+			}
+
+			const result = await doGenerate();
+			const entry: CassetteEntry = {
+				model: name,
+				request,
+				response: {
+					content: result.content,
+					finishReason: result.finishReason,
+					usage: result.usage,
+					providerMetadata: result.providerMetadata,
+					warnings: result.warnings,
+				},
+			};
+			await Bun.write(file, JSON.stringify(entry, null, 2));
+			return result;
+		},
+	};
+}
@@ -1,11 +1,31 @@
-import pLimit from "p-limit";
+import pLimit, { type LimitFunction } from "p-limit";
 
 export interface ConcurrencyConfig {
 	maxConcurrentEvaluations: number;
+	signal?: AbortSignal; // Queued tasks throw instead of starting once aborted
 }
 
-export function createEvaluationLimiter(config: ConcurrencyConfig) {
-	return pLimit(config.maxConcurrentEvaluations);
+export function createEvaluationLimiter(
+	config: ConcurrencyConfig,
+): LimitFunction {
+	const limit = pLimit(config.maxConcurrentEvaluations);
+	const { signal } = config;
+	if (!signal) return limit;
+
+	// Same limiter (activeCount, pendingCount, ...), checking the signal
+	// before each task starts
+	const cancellable = <Arguments extends unknown[], Result>(
+		fn: (...args: Arguments) => PromiseLike<Result> | Result,
+		...args: Arguments
+	) =>
+		limit(() => {
+			signal.throwIfAborted();
+			return fn(...args);
+		});
+	return Object.defineProperties(
+		cancellable,
+		Object.getOwnPropertyDescriptors(limit),
+	) as LimitFunction;
 }
 
 /**
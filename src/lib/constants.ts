@@ -1,13 +1,105 @@
 // Model mapping with latest IDs from research
 // This file contains only constants - no process.env or provider instances
+
+// Built-in providers - API keys are read from the named environment variable
+// Additional OpenAI-compatible providers (vLLM, Ollama, ...) are registered at runtime
+export const BUILTIN_PROVIDERS = {
+	anthropic: {
+		name: "Anthropic",
+		type: "anthropic",
+		apiKeyEnv: "ANTHROPIC_API_KEY",
+	},
+	openai: {
+		name: "OpenAI",
+		type: "openai",
+		apiKeyEnv: "OPENAI_API_KEY",
+	},
+	moonshot: {
+		name: "Moonshot AI",
+		type: "openai-compatible",
+		baseUrl: "https://api.moonshot.ai/v1",
+		apiKeyEnv: "MOONSHOT_API_KEY",
+	},
+	dashscope: {
+		name: "Alibaba Dashscope",
+		type: "openai-compatible",
+		baseUrl: "https://dashscope-intl.aliyuncs.com/compatible-mode/v1",
+		apiKeyEnv: "DASHSCOPE_API_KEY",
+	},
+	// Offline fake models for tests, demos and CI - see scripted-model.ts
+	scripted: {
+		name: "Scripted (offline)",
+		type: "scripted",
+	},
+} as const;
+
 export const MODEL_PROVIDERS = {
 	// Claude models (latest)
-	"claude-haiku-4-5": "claude-haiku-4-5-20251001",
-	"claude-sonnet-4-5": "claude-sonnet-4-5-20250929",
-	"claude-opus-4-1": "claude-opus-4-1-20250805",
+	"claude-haiku-4-5": {
+		provider: "anthropic",
+		modelId: "claude-haiku-4-5-20251001",
+	},
+	"claude-sonnet-4-5": {
+		provider: "anthropic",
+		modelId: "claude-sonnet-4-5-20250929",
+	},
+	"claude-opus-4-1": {
+		provider: "anthropic",
+		modelId: "claude-opus-4-1-20250805",
+	},
 
 	// OpenAI models (latest)
-	"gpt-5": "gpt-5",
-	"gpt-5-mini": "gpt-5-mini",
-	"gpt-4o": "gpt-4o",
-} as const;
+	"gpt-5": { provider: "openai", modelId: "gpt-5" },
+	"gpt-5-mini": { provider: "openai", modelId: "gpt-5-mini" },
+	"gpt-4o": { provider: "openai", modelId: "gpt-4o" },
+
+	// Moonshot models (Kimi)
+	"kimi-k2": { provider: "moonshot", modelId: "kimi-k2-0905-preview" },
+
+	// Dashscope models (Qwen)
+	"qwen-plus": { provider: "dashscope", modelId: "qwen-plus" },
+	"qwen-max": { provider: "dashscope", modelId: "qwen-max" },
+
+	// Scripted models (model ID is the tool selection policy)
+	"scripted-keyword": { provider: "scripted", modelId: "keyword" },
+	"scripted-first-tool": { provider: "scripted", modelId: "first-tool" },
+	"scripted-none": { provider: "scripted", modelId: "none" },
+} as const satisfies Record<
+	string,
+	{ provider: keyof typeof BUILTIN_PROVIDERS; modelId: string }
+>;
+
+// USD per million tokens for built-in models (runtime-registered models are
+// tracked for tokens only). Check provider pricing pages when updating IDs.
+export const MODEL_PRICING: Record<
+	string,
+	{ inputPerMillion: number; outputPerMillion: number }
+> = {
+	"claude-haiku-4-5": { inputPerMillion: 1, outputPerMillion: 5 },
+	"claude-sonnet-4-5": { inputPerMillion: 3, outputPerMillion: 15 },
+	"claude-opus-4-1": { inputPerMillion: 15, outputPerMillion: 75 },
+	"gpt-5": { inputPerMillion: 1.25, outputPerMillion: 10 },
+	"gpt-5-mini": { inputPerMillion: 0.25, outputPerMillion: 2 },
+	"gpt-4o": { inputPerMillion: 2.5, outputPerMillion: 10 },
+	"kimi-k2": { inputPerMillion: 0.6, outputPerMillion: 2.5 },
+	"qwen-plus": { inputPerMillion: 0.4, outputPerMillion: 1.2 },
+	"qwen-max": { inputPerMillion: 1.6, outputPerMillion: 6.4 },
+};
+
+// Retries for failed evaluation calls (rate limits, timeouts, 5xx). A provider
+// retry-after header replaces the exponential delay, capped at maxDelayMs.
+export const EVALUATION_RETRY = {
+	maxRetries: 4,
+	initialDelayMs: 1000,
+	maxDelayMs: 60_000,
+};
+
+// Runtime providers may only read API keys from variables with this prefix,
+// so the API cannot send other server secrets to an endpoint of its choosing
+export const PROVIDER_API_KEY_ENV_PREFIX = "CUSTOM_PROVIDER_";
+
+// Reflection answers that fail validation are sent back for another try
+export const REFLECTION_MAX_ATTEMPTS = 3;
+// Passing queries shown next to the failures in a minibatch reflection
+export const REFLECTION_BATCH_SUCCESSES = 3;
+export const MAX_DESCRIPTION_LENGTH = 500;
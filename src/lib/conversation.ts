@@ -0,0 +1,161 @@
+import type { JSONValue, ModelMessage } from "ai";
+import type { ConversationMessage } from "../types";
+import { isObject } from "./json-schema";
+
+/**
+ * Convert a test case conversation to AI SDK messages
+ */
+export function toModelMessages(
+	messages: ConversationMessage[],
+): ModelMessage[] {
+	return messages.map(toModelMessage);
+}
+
+/**
+ * Render a conversation as plain text for reflection prompts and logs
+ */
+export function formatConversation(messages: ConversationMessage[]): string {
+	return messages.map(formatMessage).join("\n");
+}
+
+/**
+ * Text of the last user message, used as the label of multi-turn tests
+ */
+export function lastUserMessage(messages: ConversationMessage[]): string {
+	const message = messages.findLast((m) => m.role === "user");
+	return message?.role === "user" ? message.content : "";
+}
+
+/**
+ * Validate a conversation from user input, throwing on bad shapes
+ * Every tool result must answer an earlier assistant tool call
+ */
+export function parseConversation(input: unknown): ConversationMessage[] {
+	if (!Array.isArray(input) || input.length === 0) {
+		throw new Error("Messages must be a non-empty array");
+	}
+
+	const toolCallIds = new Set<string>();
+
+	return input.map((message, i): ConversationMessage => {
+		if (!isObject(message)) {
+			throw new Error(`Message ${i} must be an object`);
+		}
+
+		switch (message.role) {
+			case "user":
+				if (typeof message.content !== "string") {
+					throw new Error(`Message ${i}: user content must be a string`);
+				}
+				return { role: "user", content: message.content };
+			case "assistant": {
+				if (
+					message.content !== undefined &&
+					typeof message.content !== "string"
+				) {
+					throw new Error(`Message ${i}: assistant content must be a string`);
+				}
+				const toolCalls = message.toolCalls ?? [];
+				if (!Array.isArray(toolCalls)) {
+					throw new Error(`Message ${i}: toolCalls must be an array`);
+				}
+				return {
+					role: "assistant",
+					content: message.content,
+					toolCalls: toolCalls.map((call, j) => {
+						if (
+							!isObject(call) ||
+							typeof call.toolName !== "string" ||
+							(call.id !== undefined && typeof call.id !== "string")
+						) {
+							throw new Error(
+								`Message ${i}: tool call ${j} needs a toolName (and optional string id)`,
+							);
+						}
+						const id = call.id ?? `call_${i}_${j}`;
+						toolCallIds.add(id);
+						return {
+							id,
+							toolName: call.toolName,
+							arguments: call.arguments ?? {},
+						};
+					}),
+				};
+			}
+			case "tool":
+				if (
+					typeof message.toolCallId !== "string" ||
+					typeof message.toolName !== "string"
+				) {
+					throw new Error(
+						`Message ${i}: tool result needs toolCallId and toolName`,
+					);
+				}
+				if (!toolCallIds.has(message.toolCallId)) {
+					throw new Error(
+						`Message ${i}: tool result for unknown tool call ${message.toolCallId}`,
+					);
+				}
+				return {
+					role: "tool",
+					toolCallId: message.toolCallId,
+					toolName: message.toolName,
+					result: message.result ?? null,
+				};
+			default:
+				throw new Error(`Message ${i}: role must be user, assistant or tool`);
+		}
+	});
+}
+
+function toModelMessage(message: ConversationMessage): ModelMessage {
+	switch (message.role) {
+		case "user":
+			return { role: "user", content: message.content };
+		case "assistant":
+			return {
+				role: "assistant",
+				content: [
+					...(message.content
+						? [{ type: "text" as const, text: message.content }]
+						: []),
+					...(message.toolCalls ?? []).map((call) => ({
+						type: "tool-call" as const,
+						toolCallId: call.id,
+						toolName: call.toolName,
+						input: call.arguments,
+					})),
+				],
+			};
+		case "tool":
+			return {
+				role: "tool",
+				content: [
+					{
+						type: "tool-result",
+						toolCallId: message.toolCallId,
+						toolName: message.toolName,
+						output:
+							typeof message.result === "string"
+								? { type: "text", value: message.result }
+								: { type: "json", value: message.result as JSONValue },
+					},
+				],
+			};
+	}
+}
+
+function formatMessage(message: ConversationMessage): string {
+	switch (message.role) {
+		case "user":
+			return `User: ${message.content}`;
+		case "assistant": {
+			const calls = (message.toolCalls ?? []).map(
+				(call) => `${call.toolName}(${JSON.stringify(call.arguments)})`,
+			);
+			return `Assistant: ${[message.content, ...calls].filter(Boolean).join(" ")}`;
+		}
+		case "tool":
+			return `Tool result (${message.toolName}): ${JSON.stringify(message.result)}`;
+	}
+}
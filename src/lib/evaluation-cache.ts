@@ -0,0 +1,152 @@
+import { createHash } from "node:crypto";
+import { eq } from "drizzle-orm";
+import { db } from "../db";
+import * as schema from "../db/schema";
+import type {
+	ConversationMessage,
+	HostContext,
+	ModelName,
+	Tool,
+	ToolCall,
+	ToolSelection,
+} from "../types";
+import { evaluateWithTools } from "./llm";
+import { getModelEndpoint } from "./model-registry";
+import type { UsageTracker } from "./usage";
+
+/**
+ * Per-run view of the persistent evaluation cache
+ * Hits are free, misses are real LLM calls and count against the budget
+ */
+export interface EvaluationCache {
+	hits: number;
+	misses: number;
+}
+
+/**
+ * Which sample of a repeated evaluation this is, and at what temperature
+ */
+export type EvaluationSample = {
+	temperature: number;
+	sample: number; // 0-based sample index
+};
+
+/**
+ * Create empty per-run cache stats
+ */
+export function createEvaluationCache(): EvaluationCache {
+	return { hits: 0, misses: 0 };
+}
+
+/**
+ * Cache key: same model, query and tool list means the same selection
+ * The model is keyed by what its name resolves to (provider, endpoint and
+ * model ID), so a runtime name re-registered to another endpoint misses
+ * Tool order matters to the LLM, so it is part of the key
+ * Multi-turn tests key on the whole conversation, and the host context is
+ * part of what the model sees (left out of the key when unset)
+ * Each sample of a repeated evaluation gets its own entry; the first sample
+ * at temperature 0 shares the single-call key
+ */
+export function getEvaluationCacheKey(
+	model: ModelName,
+	query: string | ConversationMessage[],
+	tools: Tool[],
+	hostContext?: HostContext,
+	sampling?: EvaluationSample,
+): string {
+	const toolList = tools.map((t) => ({
+		name: t.name,
+		description: t.description,
+		inputSchema: t.inputSchema,
+	}));
+
+	return createHash("sha256")
+		.update(
+			JSON.stringify({
+				model: getModelEndpoint(model) ?? model,
+				query,
+				tools: toolList,
+				hostContext,
+				temperature: sampling?.temperature || undefined,
+				sample: sampling?.sample || undefined,
+			}),
+		)
+		.digest("hex");
+}
+
+/**
+ * evaluateWithTools with a SQLite cache in front
+ * Failed calls are never cached so they are retried next time
+ */
+export async function evaluateWithCache(
+	cache: EvaluationCache,
+	model: ModelName,
+	query: string,
+	tools: Tool[],
+	usage?: UsageTracker,
+	messages?: ConversationMessage[],
+	hostContext?: HostContext,
+	sampling?: EvaluationSample,
+	signal?: AbortSignal,
+): Promise<ToolSelection & { cached: boolean }> {
+	const key = getEvaluationCacheKey(
+		model,
+		messages ?? query,
+		tools,
+		hostContext,
+		sampling,
+	);
+
+	const [entry] = await db
+		.select()
+		.from(schema.evaluationCache)
+		.where(eq(schema.evaluationCache.key, key))
+		.limit(1);
+
+	if (entry) {
+		cache.hits++;
+		return {
+			selectedTool: entry.selectedTool,
+			arguments: entry.arguments ? JSON.parse(entry.arguments) : undefined,
+			toolCalls: entry.toolCalls
+				? (JSON.parse(entry.toolCalls) as ToolCall[])
+				: undefined,
+			cached: true,
+		};
+	}
+
+	cache.misses++;
+	const selection = await evaluateWithTools(
+		model,
+		messages ?? query,
+		tools,
+		usage,
+		hostContext,
+		sampling?.temperature,
+		signal,
+	);
+
+	if (!selection.error) {
+		await db
+			.insert(schema.evaluationCache)
+			.values({
+				key,
+				model,
+				query,
+				selectedTool: selection.selectedTool,
+				arguments:
+					selection.arguments !== undefined
+						? JSON.stringify(selection.arguments)
+						: null,
+				toolCalls: selection.toolCalls
+					? JSON.stringify(selection.toolCalls)
+					: null,
+				createdAt: new Date(),
+			})
+			// Concurrent evaluations of the same triple may race here
+			.onConflictDoNothing();
+	}
+
+	return { ...selection, cached: false };
+}
@@ -3,42 +3,114 @@ import type {
 	Candidate,
 	EvalResult,
 	EvaluatedCandidate,
+	EvaluationModelWeight,
+	EvaluationSettings,
+	HostContext,
+	LengthMetric,
 	ModelName,
 	ProgressEvent,
+	RobustnessMetric,
 	TestCase,
 	Tool,
 } from "../types";
-import { evaluateWithTools } from "./llm";
+import { matchArguments } from "./argument-matcher";
+import type { EvaluationCache } from "./evaluation-cache";
+import { evaluateWithCache } from "./evaluation-cache";
+import { getEvaluationModels, scoreEvaluations } from "./robustness";
+import {
+	calculateSamplingMetrics,
+	countSelections,
+	modeSelection,
+} from "./stability";
+import {
+	formatLength,
+	getObjectiveLength,
+	getTokenizerFamily,
+	measureTools,
+} from "./tokenizer";
+import { matchToolCalls } from "./tool-call-matcher";
+import type { UsageTracker } from "./usage";
 
 /**
- * Evaluate a candidate against all test cases
+ * Evaluation settings from a run config, with defaults filled in
+ */
+export function getEvaluationSettings(config: {
+	evaluationModel: ModelName;
+	evaluationModels?: EvaluationModelWeight[];
+	robustnessMetric?: RobustnessMetric;
+	lengthMetric?: LengthMetric;
+	hostContext?: HostContext;
+	samplesPerTest?: number;
+	samplingTemperature?: number;
+}): EvaluationSettings {
+	const { models, robustnessMetric } = getEvaluationModels(config);
+	return {
+		models,
+		robustnessMetric,
+		lengthMetric: config.lengthMetric ?? "characters",
+		tokenizer: getTokenizerFamily(models[0]?.model ?? config.evaluationModel),
+		hostContext: config.hostContext,
+		samplesPerTest: config.samplesPerTest ?? 1,
+		temperature: config.samplingTemperature ?? 0,
+	};
+}
+
+/**
+ * Evaluate a candidate against all test cases, on every evaluation model
+ * Throws once signal is aborted - in-flight LLM calls are cancelled
  */
 export async function evaluateCandidate(
 	candidate: Candidate,
 	testCases: TestCase[],
-	model: ModelName,
 	emit: (event: ProgressEvent) => void,
 	limit: ReturnType<typeof pLimit>,
+	cache: EvaluationCache,
+	usage: UsageTracker,
+	settings: EvaluationSettings,
+	signal?: AbortSignal,
 ): Promise<EvaluatedCandidate> {
+	const multiModel = settings.models.length > 1;
+	const tasks = testCases.flatMap((testCase) =>
+		settings.models.map(({ model }) => ({ testCase, model })),
+	);
+
 	// Evaluate all test cases with rate limiting
 	const evaluations = await Promise.all(
-		testCases.map((testCase, idx) =>
+		tasks.map(({ testCase, model }, idx) =>
 			limit(async () => {
-				const result = await evaluateTestCase(candidate.tools, testCase, model);
+				const result = await evaluateTestCase(
+					candidate.tools,
+					testCase,
+					model,
+					cache,
+					usage,
+					settings,
+					signal,
+				);
 
-				const status = result.correct ? "✓" : "✗";
+				const status = result.error ? "!" : result.correct ? "✓" : "✗";
 				console.log(
-					`  Test ${idx + 1}/${testCases.length}: ${status} "${testCase.query.slice(0, 50)}..." → ${result.selectedTool || "none"} (expected: ${testCase.expectedTool})`,
+					`  Test ${idx + 1}/${tasks.length}: ${status}${result.cached ? " (cached)" : ""}${multiModel ? ` [${model}]` : ""} "${testCase.query.slice(0, 50)}..." → ${result.selectedTool || "none"} (expected: ${testCase.expectedTool})`,
 				);
 
 				emit({
 					type: "evaluation",
 					candidateId: candidate.id,
+					testCaseId: testCase.id,
 					testCase: testCase.query,
 					result: {
 						correct: result.correct,
 						selected: result.selectedTool,
 						expected: testCase.expectedTool,
+						arguments: result.arguments,
+						argumentsCorrect: result.argumentsCorrect,
+						argumentErrors: result.argumentErrors,
+						error: result.error?.kind,
+						selectionCounts: result.selectionCounts,
+						sampleAccuracy: result.sampleAccuracy,
+						model: result.model,
+						selectedTools: result.selectedTools,
+						credit: result.credit,
 					},
 				});
 
@@ -47,43 +119,241 @@ export async function evaluateCandidate(
 		),
 	);
 
-	const accuracy =
-		evaluations.filter((e) => e.correct).length / evaluations.length;
-	const avgDescriptionLength =
-		candidate.tools.reduce((sum, t) => sum + (t.description?.length || 0), 0) /
-		candidate.tools.length;
+	const evaluated = summarizeEvaluations(candidate, evaluations, settings);
+	const {
+		accuracy,
+		argumentAccuracy,
+		errorCount,
+		expectedAccuracy,
+		stability,
+		modelAccuracy,
+		robustness,
+		objectiveLength,
+	} = evaluated;
+	const valid = evaluations.filter((e) => !e.error);
+	const argumentChecked = evaluations.filter(
+		(e) => e.argumentsCorrect !== undefined,
+	);
+	const perModel = modelAccuracy
+		? Object.entries(modelAccuracy)
+				.map(([model, value]) => `${model} ${(value * 100).toFixed(1)}%`)
+				.join(", ")
+		: undefined;
 
 	console.log(
-		`\n=== EVALUATION SUMMARY ===\nCandidate: ${candidate.id}\nAccuracy: ${(accuracy * 100).toFixed(1)}% (${evaluations.filter((e) => e.correct).length}/${evaluations.length})\nAvg Description Length: ${avgDescriptionLength.toFixed(0)} chars\n=========================\n`,
+		`\n=== EVALUATION SUMMARY ===\nCandidate: ${candidate.id}\nAccuracy: ${(accuracy * 100).toFixed(1)}% (${valid.filter((e) => e.correct).length}/${valid.length})\n${errorCount > 0 ? `Errors: ${errorCount} (excluded from accuracy)\n` : ""}${expectedAccuracy !== undefined && stability !== undefined ? `Expected Accuracy: ${(expectedAccuracy * 100).toFixed(1)}% | Stability: ${(stability * 100).toFixed(1)}% (${settings.samplesPerTest} samples/test)\n` : ""}${argumentAccuracy !== undefined ? `Argument Accuracy: ${(argumentAccuracy * 100).toFixed(1)}% (${argumentChecked.length} checked)\n` : ""}${perModel ? `Per Model: ${perModel} | Robustness (${settings.robustnessMetric}): ${((robustness ?? 0) * 100).toFixed(1)}%\n` : ""}Avg Description Length: ${evaluated.avgDescriptionLength.toFixed(0)} chars | Tool List: ~${evaluated.toolListTokens} tokens${settings.lengthMetric === "tokens" ? ` | Objective: ${formatLength(objectiveLength, settings.lengthMetric)}/tool` : ""}\n=========================\n`,
 	);
 
+	return evaluated;
+}
+
+/**
+ * Score a candidate's evaluations - also rebuilds candidates of a resumed
+ * run from their stored evaluations
+ */
+export function summarizeEvaluations(
+	candidate: Candidate,
+	evaluations: EvalResult[],
+	settings: EvaluationSettings,
+): EvaluatedCandidate {
+	// Failed LLM calls say nothing about the descriptions - score the rest
+	const errorCount = evaluations.filter((e) => e.error).length;
+	const { accuracy, modelAccuracy, robustness } = scoreEvaluations(
+		evaluations,
+		settings,
+	);
+
+	// Argument accuracy only covers tests where the right tool was picked
+	const argumentChecked = evaluations.filter(
+		(e) => e.argumentsCorrect !== undefined,
+	);
+	const argumentAccuracy =
+		argumentChecked.length > 0
+			? argumentChecked.filter((e) => e.argumentsCorrect).length /
+				argumentChecked.length
+			: undefined;
+
+	const { expectedAccuracy, stability } = calculateSamplingMetrics(evaluations);
+
+	const lengths = measureTools(candidate.tools, settings.tokenizer);
+	const objectiveLength = getObjectiveLength(lengths, settings.lengthMetric);
+
 	return {
 		...candidate,
 		accuracy,
-		avgDescriptionLength,
+		argumentAccuracy,
+		...lengths,
+		objectiveLength,
 		evaluations,
+		errorCount,
+		expectedAccuracy,
+		stability,
+		modelAccuracy,
+		robustness,
 	};
 }
 
 /**
- * Evaluate a single test case
+ * Evaluate a single test case, sampling it settings.samplesPerTest times
+ * With several samples the result records the selection distribution and
+ * is correct when a majority of the valid samples were - multi-tool tests
+ * get the mean credit of the valid samples
  */
-async function evaluateTestCase(
+export async function evaluateTestCase(
 	tools: Tool[],
 	testCase: TestCase,
 	model: ModelName,
-): Promise<EvalResult> {
-	// Call LLM with tools - just see which tool it selects
-	const { selectedTool } = await evaluateWithTools(
+	cache: EvaluationCache,
+	usage: UsageTracker,
+	settings: EvaluationSettings,
+	signal?: AbortSignal,
+): Promise<EvalResult & { cached: boolean }> {
+	const samples: Array<EvalResult & { cached: boolean }> = [];
+	for (let sample = 0; sample < settings.samplesPerTest; sample++) {
+		samples.push(
+			await evaluateSample(
+				tools,
+				testCase,
+				model,
+				cache,
+				usage,
+				settings,
+				sample,
+				signal,
+			),
+		);
+	}
+
+	const [first] = samples;
+	if (!first) {
+		throw new Error("samplesPerTest must be at least 1");
+	}
+	if (samples.length === 1) return first;
+
+	// All samples failed - the test case result is invalid
+	const valid = samples.filter((s) => !s.error);
+	if (valid.length === 0) return first;
+
+	const selectionCounts = countSelections(valid);
+	const mode = modeSelection(selectionCounts);
+	const representative =
+		valid.find((s) => s.selectedTool === mode) ?? valid[0] ?? first;
+	const correctCount = valid.filter((s) => s.correct).length;
+
+	return {
+		...representative,
+		correct: correctCount * 2 > valid.length,
+		credit: testCase.expectedCalls
+			? valid.reduce((sum, s) => sum + (s.credit ?? 0), 0) / valid.length
+			: undefined,
+		cached: samples.every((s) => s.cached),
+		selectionCounts,
+		sampleAccuracy: correctCount / valid.length,
+	};
+}
+
+/**
+ * One tool selection call for a test case
+ * When the test has expected arguments, the right tool with wrong arguments
+ * is a failure. Multi-turn tests send their whole conversation.
+ * Multi-tool tests match every call of the turn against expectedCalls and
+ * get partial credit - a call to expectedTool with wrong arguments counts
+ * as not made.
+ * A failed LLM call gives an invalid result (error set, never correct).
+ */
+async function evaluateSample(
+	tools: Tool[],
+	testCase: TestCase,
+	model: ModelName,
+	cache: EvaluationCache,
+	usage: UsageTracker,
+	settings: EvaluationSettings,
+	sample: number,
+	signal?: AbortSignal,
+): Promise<EvalResult & { cached: boolean }> {
+	// Call LLM with tools (unless cached) - see which tool it selects and how
+	const {
+		selectedTool,
+		arguments: args,
+		toolCalls,
+		error,
+		cached,
+	} = await evaluateWithCache(
+		cache,
 		model,
 		testCase.query,
 		tools,
+		usage,
+		testCase.messages,
+		settings.hostContext,
+		{ temperature: settings.temperature, sample },
+		signal,
 	);
 
-	return {
+	// Cache entries from before multi-tool tests only hold the first call
+	const calls =
+		toolCalls ??
+		(selectedTool ? [{ toolName: selectedTool, arguments: args }] : []);
+	const expectedCall = error
+		? undefined
+		: testCase.expectedCalls
+			? calls.find((call) => call.toolName === testCase.expectedTool)
+			: calls[0]?.toolName === testCase.expectedTool
+				? calls[0]
+				: undefined;
+
+	const tool = tools.find((t) => t.name === expectedCall?.toolName);
+	const argumentCheck =
+		expectedCall && tool && testCase.expectedArguments
+			? matchArguments(
+					testCase.expectedArguments,
+					expectedCall.arguments,
+					tool.inputSchema,
+				)
+			: undefined;
+	const argumentsOk = argumentCheck?.correct ?? true;
+
+	const common = {
+		cached,
 		testCaseId: testCase.id,
 		selectedTool: selectedTool,
 		expectedTool: testCase.expectedTool,
-		correct: selectedTool === testCase.expectedTool,
+		argumentsCorrect: argumentCheck?.correct,
+		argumentErrors: argumentCheck?.errors,
+		error,
+		// Only multi-model runs tell results apart by model
+		model: settings.models.length > 1 ? model : undefined,
+	};
+
+	// Abstention: right only when the model answers without any tool
+	if (testCase.shouldCall === false) {
+		return {
+			...common,
+			correct: !error && calls.length === 0,
+			arguments: args,
+		};
+	}
+
+	if (!testCase.expectedCalls) {
+		return {
+			...common,
+			correct: !!expectedCall && argumentsOk,
+			arguments: args,
+		};
+	}
+
+	const calledTools = calls
+		.filter((call) => argumentsOk || call !== expectedCall)
+		.map((call) => call.toolName);
+	const { correct, credit } = error
+		? { correct: false, credit: 0 }
+		: matchToolCalls(testCase.expectedCalls, calledTools);
+
+	return {
+		...common,
+		correct,
+		credit,
+		arguments: expectedCall?.arguments ?? args,
+		selectedTools: calls.map((call) => call.toolName),
 	};
 }
@@ -1,19 +1,58 @@
-import type { Candidate, GEPAConfig, ProgressEvent } from "../types";
+import type {
+	Candidate,
+	EvaluatedCandidate,
+	GEPAConfig,
+	ProgressEvent,
+	StopReason,
+} from "../types";
+import {
+	pairEvaluations,
+	SEQUENTIAL_MAX_ROUNDS,
+	testAcceptance,
+} from "./acceptance";
 import type { Archive } from "./archive";
 import { addToArchive, createArchive, getArchiveSize } from "./archive";
 import { createEvaluationLimiter } from "./concurrency";
-import { evaluateCandidate } from "./evaluator";
+import { createEvaluationCache } from "./evaluation-cache";
+import { evaluateCandidate, getEvaluationSettings } from "./evaluator";
+import type { Merge } from "./merge";
+import { findMerge, getMergePairKey } from "./merge";
 import { mutateViaReflection } from "./mutator";
 import {
+	calculateGlobalScore,
+	calculateMaxLength,
 	createPerTaskPareto,
-	selectParentWeightedByGlobalScore,
+	getSelectionAccuracy,
 	updatePerTaskPareto,
 } from "./pareto";
+import { loadPromptTemplates } from "./prompt-templates";
+import type { Random } from "./random";
+import { createStream } from "./random";
+import { restoreArchive } from "./resume";
+import {
+	createSelectionStats,
+	getSelectionSettings,
+	recordSelectionOutcome,
+	selectParent,
+} from "./selection";
+import { getSplitIds, restoreSplit, scoreSplit, splitTestCases } from "./split";
+import {
+	checkStoppingRules,
+	createStoppingState,
+	recordParetoGain,
+} from "./stopping";
 import {
 	evaluateOnSubsample,
 	getParentSubsampleScore,
+	getSubsampleScore,
 	sampleTestCases,
 } from "./subsample";
+import { formatLength, getObjectiveLength, measureTools } from "./tokenizer";
+import { createUsageTracker } from "./usage";
+
+// Stop when this many iterations in a row were answered entirely from the
+// evaluation cache - the budget cannot shrink, so the loop would never end
+const MAX_FULLY_CACHED_ITERATIONS = 10;
 
 /**
  * Run the GEPA (Genetic-Pareto) optimization algorithm
@@ -23,6 +62,18 @@ import {
  * - Runs continuously until budget exhausted (not generational)
  * - Uses per-task Pareto fronts for focused optimization
  * - Uses subsample evaluation for efficient filtering
+ * - Can merge two Pareto-front candidates tool by tool (mergeProbability)
+ * - Can reflect on several failures at once (reflectionBatchSize)
+ * - Can stop early on convergence (targetAccuracy/targetLength,
+ *   paretoPatience, hypervolumePatience)
+ * - Can continue an interrupted run (resume) instead of starting over
+ * - Makes every random choice from seed when set, so with a deterministic
+ *   model the same seed gives the same archive
+ * - Can split the test cases (validationSplit, testSplit): reflection sees
+ *   train failures, selection pressure comes from validation, and the final
+ *   Pareto candidates are scored on held-out test cases
+ *
+ * Aborting config.signal cancels in-flight LLM calls and makes this throw
  */
 export async function runGEPA(config: GEPAConfig): Promise<Archive> {
 	const emit = (event: ProgressEvent) => config.onProgress(event);
@@ -35,69 +86,178 @@ export async function runGEPA(config: GEPAConfig): Promise<Archive> {
 	// Create rate limiter
 	const limit = createEvaluationLimiter({
 		maxConcurrentEvaluations: config.maxConcurrentEvaluations,
+		signal: config.signal,
 	});
 
-	// Initialize archive and per-task Pareto fronts
-	const archive = createArchive();
-	const perTaskPareto = createPerTaskPareto(config.testCases);
+	// Cache hits are free - only uncached evaluations count against the budget
+	const cache = createEvaluationCache();
+	const usage = createUsageTracker();
+	const settings = getEvaluationSettings(config);
+	const selectionSettings = getSelectionSettings(config);
+	// Every iteration draws from its own stream of the seed - a resumed run
+	// skips the interrupted iteration, so it still diverges from an
+	// uninterrupted one from there on
+	let random: Random =
+		config.seed !== undefined ? createStream(config.seed, 0) : Math.random;
+	const templates = await loadPromptTemplates();
+
+	// Reflection sees train failures, everything else is decided on
+	// validation - held-out test cases are only scored once the loop is done
+	const isSplit =
+		(config.validationSplit ?? 0) > 0 || (config.testSplit ?? 0) > 0;
+	const split = config.resume?.split
+		? restoreSplit(config.testCases, config.resume.split)
+		: splitTestCases(
+				config.testCases,
+				config.validationSplit ?? 0,
+				config.testSplit ?? 0,
+				random,
+			);
+	const trainIds = new Set(split.train.map((tc) => tc.id));
+	const heldOutIds = new Set(split.test.map((tc) => tc.id));
+	const evaluationCases = config.testCases.filter(
+		(tc) => !heldOutIds.has(tc.id),
+	);
+	const withSplitScores = (candidate: EvaluatedCandidate) =>
+		isSplit ? scoreSplit(candidate, split, settings) : candidate;
 
-	// Evaluate original candidate
-	const original: Candidate = {
-		id: crypto.randomUUID(),
-		tools: config.tools,
+	const emitUsage = () => {
+		emit({ type: "cache_stats", hits: cache.hits, misses: cache.misses });
+		emit({
+			type: "cost_update",
+			inputTokens: usage.inputTokens,
+			outputTokens: usage.outputTokens,
+			costUsd: usage.costUsd,
+		});
 	};
 
-	console.log("\n=== GEPA: Evaluating ORIGINAL CANDIDATE ===");
-	console.log(`Candidate ID: ${original.id}`);
-	console.log(`Tools: ${original.tools.map((t) => t.name).join(", ")}`);
-	console.log(`Test cases: ${config.testCases.length}`);
-	console.log("===========================================\n");
-
-	const originalEval = await evaluateCandidate(
-		original,
-		config.testCases,
-		config.evaluationModel,
-		emit,
-		limit,
+	// Initialize archive and per-task Pareto fronts
+	const archive = createArchive();
+	const perTaskPareto = createPerTaskPareto(
+		split.validation,
+		settings.models.map(({ model }) => model),
 	);
 
-	addToArchive(archive, originalEval);
-	updatePerTaskPareto(perTaskPareto, originalEval, archive);
-
-	let totalEvaluations = config.testCases.length;
+	let fullyCachedIterations = 0;
 	let acceptedCount = 1;
 	let rejectedCount = 0;
 	let iteration = 0;
+	const triedMerges = new Set<string>(); // Parent pairs already merged
+	const selectionStats = createSelectionStats();
+	let stopReason: StopReason = "budget";
+	let stopDetail = `Evaluation budget spent (${config.maxEvaluations})`;
+
+	let originalEval: EvaluatedCandidate;
+	if (config.resume) {
+		// Continue an interrupted run from its stored progress
+		const { resume } = config;
+		originalEval = restoreArchive(
+			{
+				...resume,
+				candidates: resume.candidates.map((entry) => ({
+					...entry,
+					candidate: withSplitScores(entry.candidate),
+				})),
+			},
+			archive,
+			perTaskPareto,
+		);
+		for (const { parentId, passed } of resume.selections) {
+			recordSelectionOutcome(selectionStats, parentId, passed);
+		}
+		for (const { parentId, mergeParentId } of resume.mergedPairs) {
+			triedMerges.add(getMergePairKey(parentId, mergeParentId));
+		}
+		cache.hits = resume.cacheHits;
+		cache.misses = resume.cacheMisses;
+		usage.inputTokens = resume.inputTokens;
+		usage.outputTokens = resume.outputTokens;
+		usage.costUsd = resume.costUsd;
+		acceptedCount = resume.candidates.length;
+		rejectedCount = resume.rejectedCount;
+		iteration = resume.iteration;
 
-	// Emit candidate_done for the original candidate so it's available in iteration details
-	const originalToolDescriptions = Object.fromEntries(
-		original.tools.map((tool) => [tool.name, tool.description]),
-	);
+		console.log(
+			`GEPA: Resuming after iteration ${iteration} - Archive size: ${getArchiveSize(archive)}, Evaluations: ${cache.misses}/${config.maxEvaluations}`,
+		);
+	} else {
+		if (isSplit) {
+			emit({ type: "test_split", split: getSplitIds(split) });
+		}
 
-	emit({
-		type: "candidate_done",
-		candidateId: original.id,
-		generation: 0,
-		toolDescriptions: originalToolDescriptions,
-		accuracy: originalEval.accuracy,
-		avgLength: originalEval.avgDescriptionLength,
-		isPareto: true,
-		status: "accepted",
-	});
+		// Evaluate original candidate
+		const original: Candidate = {
+			id: crypto.randomUUID(),
+			tools: config.tools,
+		};
+
+		console.log("\n=== GEPA: Evaluating ORIGINAL CANDIDATE ===");
+		console.log(`Candidate ID: ${original.id}`);
+		console.log(`Tools: ${original.tools.map((t) => t.name).join(", ")}`);
+		console.log(
+			`Test cases: ${config.testCases.length}${isSplit ? ` (train ${split.train.length}, validation ${split.validation.length}, test ${split.test.length})` : ""}`,
+		);
+		console.log("===========================================\n");
+
+		originalEval = withSplitScores(
+			await evaluateCandidate(
+				original,
+				evaluationCases,
+				emit,
+				limit,
+				cache,
+				usage,
+				settings,
+				config.signal,
+			),
+		);
+
+		addToArchive(archive, originalEval);
+		updatePerTaskPareto(perTaskPareto, originalEval, archive);
+
+		// Emit candidate_done for the original candidate so it's available in iteration details
+		const originalToolDescriptions = Object.fromEntries(
+			original.tools.map((tool) => [tool.name, tool.description]),
+		);
+
+		emit({
+			type: "candidate_done",
+			candidateId: original.id,
+			generation: 0,
+			toolDescriptions: originalToolDescriptions,
+			accuracy: originalEval.accuracy,
+			argumentAccuracy: originalEval.argumentAccuracy,
+			errorCount: originalEval.errorCount,
+			expectedAccuracy: originalEval.expectedAccuracy,
+			stability: originalEval.stability,
+			modelAccuracy: originalEval.modelAccuracy,
+			robustness: originalEval.robustness,
+			avgLength: originalEval.avgDescriptionLength,
+			avgTokens: originalEval.avgToolTokens,
+			toolListTokens: originalEval.toolListTokens,
+			toolTokens: originalEval.toolTokens,
+			isPareto: true,
+			status: "accepted",
+		});
+	}
+
+	let totalEvaluations = cache.misses;
+	const stopping = createStoppingState(originalEval, archive, iteration);
 
 	emit({
 		type: "archive_update",
-		archiveSize: 1,
+		archiveSize: getArchiveSize(archive),
 		totalEvaluations,
 		acceptedCount,
 		rejectedCount,
 	});
+	emitUsage();
 
 	console.log(
 		`GEPA: Starting optimization with budget ${config.maxEvaluations}`,
 	);
 	console.log(
-		`GEPA: Multi-objective config - Min Accuracy: ${((config.minAccuracy ?? 0) * 100).toFixed(0)}%, Accuracy Weight: ${((config.accuracyWeight ?? 0.5) * 100).toFixed(0)}%, Selection Temp: ${(config.selectionTemperature ?? 1.0).toFixed(1)}`,
+		`GEPA: Multi-objective config - Min Accuracy: ${((config.minAccuracy ?? 0) * 100).toFixed(0)}%, Accuracy Weight: ${((config.accuracyWeight ?? 0.5) * 100).toFixed(0)}%, Selection Temp: ${(config.selectionTemperature ?? 1.0).toFixed(1)}, Selection Strategy: ${selectionSettings.strategy}`,
 	);
 	console.log(
 		`GEPA: Parent selection will only consider candidates with accuracy >= ${((config.minAccuracy ?? 0) * 100).toFixed(0)}%`,
@@ -105,80 +265,239 @@ export async function runGEPA(config: GEPAConfig): Promise<Archive> {
 
 	// Main GEPA loop - continuous until budget exhausted
 	while (totalEvaluations < config.maxEvaluations) {
+		config.signal?.throwIfAborted();
+
+		if (config.maxCostUsd !== undefined && usage.costUsd >= config.maxCostUsd) {
+			stopReason = "cost-budget";
+			stopDetail = `Cost budget reached ($${usage.costUsd.toFixed(4)} >= $${config.maxCostUsd.toFixed(2)})`;
+			break;
+		}
+
+		if (fullyCachedIterations >= MAX_FULLY_CACHED_ITERATIONS) {
+			stopReason = "no-new-evaluations";
+			stopDetail = `${fullyCachedIterations} iterations in a row needed no new evaluations`;
+			break;
+		}
+
+		const converged = checkStoppingRules(
+			stopping,
+			config,
+			archive,
+			iteration,
+			settings.lengthMetric,
+		);
+		if (converged) {
+			stopReason = converged.reason;
+			stopDetail = converged.detail;
+			break;
+		}
+
 		iteration++;
+		if (config.seed !== undefined) {
+			random = createStream(config.seed, iteration);
+		}
+		const missesBefore = cache.misses;
 		console.log(
 			`\n\n${"=".repeat(60)}\nITERATION ${iteration} (Budget: ${totalEvaluations}/${config.maxEvaluations})\n${"=".repeat(60)}`,
 		);
 
 		emit({ type: "iteration_start", iteration, totalEvaluations });
 
-		// 1. Select parent (weighted by global score combining accuracy + conciseness)
-		// Clamp temperature to avoid division by zero (min 0.1 for maximum exploitation)
-		const selectionTemp = Math.max(0.1, config.selectionTemperature ?? 1.0);
-		const accuracyWeight = config.accuracyWeight ?? 0.5;
-		const minAccuracy = config.minAccuracy ?? 0;
-		const parent = selectParentWeightedByGlobalScore(
-			archive,
-			accuracyWeight,
-			selectionTemp,
-			minAccuracy,
-		);
-		if (!parent) {
-			console.log("GEPA: No parent available, stopping");
+		// 1. Select parent with the configured strategy, or with mergeProbability
+		// two Pareto-front candidates to merge
+		const { accuracyWeight, stabilityWeight } = selectionSettings;
+		const merge: Merge | null =
+			random() < (config.mergeProbability ?? 0)
+				? findMerge(
+						archive,
+						perTaskPareto,
+						split.validation,
+						triedMerges,
+						random,
+						settings.lengthMetric,
+					)
+				: null;
+		const selection = merge
+			? {
+					parent: merge.parent,
+					rationale: `Merge with ${merge.mergeParent.id.slice(0, 8)} - the better of two Pareto-front candidates from different lineages`,
+				}
+			: selectParent(
+					archive,
+					perTaskPareto,
+					selectionStats,
+					selectionSettings,
+					random,
+				);
+		if (!selection) {
+			stopReason = "no-parent";
+			stopDetail = "No parent available";
 			break;
 		}
+		const { parent, rationale } = selection;
 
 		// Calculate parent's global score for logging and events
-		const maxLength = Math.max(
-			...Array.from(archive.candidates.values()).map(
-				(c) => c.avgDescriptionLength,
-			),
+		const maxLength = calculateMaxLength(archive);
+		const concisenessScore = 1 - parent.objectiveLength / maxLength;
+		const globalScore = calculateGlobalScore(
+			parent,
+			maxLength,
+			accuracyWeight,
+			stabilityWeight,
 		);
-		const concisenessScore = 1 - parent.avgDescriptionLength / maxLength;
-		const globalScore =
-			parent.accuracy * accuracyWeight + concisenessScore * (1 - accuracyWeight);
 
 		emit({
 			type: "parent_selected",
 			candidateId: parent.id,
 			iteration,
 			globalScore,
+			dominanceCount: perTaskPareto.dominanceCount.get(parent.id) ?? 0,
+			strategy: selectionSettings.strategy,
+			rationale,
 		});
 
 		console.log(
-			`\n[1. Parent Selection]\nSelected: ${parent.id.slice(0, 8)}\nAccuracy: ${(parent.accuracy * 100).toFixed(1)}%\nGlobal Score: ${globalScore.toFixed(3)} (acc: ${(parent.accuracy * accuracyWeight).toFixed(3)}, concise: ${(concisenessScore * (1 - accuracyWeight)).toFixed(3)})\nAvg Length: ${parent.avgDescriptionLength.toFixed(0)} chars`,
+			`\n[1. Parent Selection]\nSelected: ${parent.id.slice(0, 8)} (${selectionSettings.strategy}: ${rationale})\nAccuracy: ${formatAccuracy(parent)}\nGlobal Score: ${globalScore.toFixed(3)} (acc: ${(getSelectionAccuracy(parent) * accuracyWeight).toFixed(3)}, concise: ${(concisenessScore * (1 - accuracyWeight)).toFixed(3)}${parent.stability !== undefined ? `, stability: ${(parent.stability * 100).toFixed(1)}%` : ""})\nAvg Length: ${formatLength(parent.objectiveLength, settings.lengthMetric)}`,
 		);
 
-		// 2. Mutate parent
-		console.log("\n[2. Mutation]");
-		emit({ type: "mutation_start", candidateId: parent.id });
-		const offspring = await mutateViaReflection(
-			parent,
-			config.testCases,
-			config.generationModel,
-			emit,
-		);
+		// 2. Mutate parent, or merge the two parents
+		let offspring: Candidate;
+		if (merge) {
+			console.log(
+				`\n[2. Merge]\nMerging ${merge.mergeParent.id.slice(0, 8)} into ${parent.id.slice(0, 8)}`,
+			);
+			offspring = merge.offspring;
+			emit({
+				type: "merge_done",
+				candidateId: offspring.id,
+				iteration,
+				parentId: parent.id,
+				mergeParentId: merge.mergeParent.id,
+				toolSources: merge.toolSources,
+			});
+		} else {
+			console.log("\n[2. Mutation]");
+			emit({ type: "mutation_start", candidateId: parent.id });
+			// Reflection only sees how the parent did on train cases
+			offspring = await mutateViaReflection(
+				{
+					...parent,
+					accuracy: parent.trainAccuracy ?? parent.accuracy,
+					evaluations: parent.evaluations.filter((e) =>
+						trainIds.has(e.testCaseId),
+					),
+				},
+				split.train,
+				config.generationModel,
+				emit,
+				templates,
+				usage,
+				config.hostContext,
+				config.reflectionBatchSize,
+				config.signal,
+				random,
+				settings.lengthMetric,
+				settings.tokenizer,
+			);
+		}
+		const mergeParentId = merge?.mergeParent.id;
 		console.log(`Generated offspring: ${offspring.id.slice(0, 8)}`);
 
 		// 3. Subsample evaluation (cheap filter)
 		console.log("\n[3. Subsample Evaluation]");
-		const subsample = sampleTestCases(config.testCases, config.subsampleSize);
-		const subsampleScore = await evaluateOnSubsample(
+		const subsampleStrategy = config.subsampleStrategy ?? "random";
+		const changedTools = offspring.tools.filter(
+			(tool) =>
+				parent.tools.find((t) => t.id === tool.id)?.description !==
+				tool.description,
+		);
+		const subsample = sampleTestCases(
+			split.validation,
+			config.subsampleSize,
+			subsampleStrategy,
+			changedTools,
+			parent,
+			random,
+		);
+		const initial = await evaluateOnSubsample(
 			offspring,
 			subsample,
-			config.evaluationModel,
 			limit,
+			cache,
+			usage,
+			settings,
+			config.signal,
 		);
-		const parentSubsampleScore = getParentSubsampleScore(parent, subsample);
-		totalEvaluations += subsample.length;
+		// A merge has to match the better of its parents
+		const comparedParent =
+			merge &&
+			getParentSubsampleScore(merge.mergeParent, subsample, settings) >
+				getParentSubsampleScore(parent, subsample, settings)
+				? merge.mergeParent
+				: parent;
+
+		// 4. Acceptance check - adds cases while undecided (sequential, or
+		// mcnemar and bootstrap on a small subsample the offspring did worse on)
+		const acceptanceTest = config.acceptanceTest ?? "threshold";
+		const significanceLevel = config.significanceLevel ?? 0.05;
+		const evaluated = [...subsample];
+		const offspringEvaluations = [...initial.evaluations];
+		const decide = () =>
+			testAcceptance(
+				acceptanceTest,
+				pairEvaluations(offspringEvaluations, comparedParent),
+				getSubsampleScore(offspringEvaluations, settings),
+				getParentSubsampleScore(comparedParent, evaluated, settings),
+				significanceLevel,
+				random,
+			);
+		let acceptance = decide();
+		for (
+			let round = 0;
+			acceptance.decision === "undecided" && round < SEQUENTIAL_MAX_ROUNDS;
+			round++
+		) {
+			const evaluatedIds = new Set(evaluated.map((tc) => tc.id));
+			const extra = sampleTestCases(
+				split.validation.filter((tc) => !evaluatedIds.has(tc.id)),
+				config.subsampleSize,
+				subsampleStrategy,
+				changedTools,
+				parent,
+				random,
+			);
+			if (extra.length === 0) break;
+			console.log(
+				`GEPA: Undecided (${acceptance.summary}), adding ${extra.length} cases`,
+			);
+			const { evaluations } = await evaluateOnSubsample(
+				offspring,
+				extra,
+				limit,
+				cache,
+				usage,
+				settings,
+				config.signal,
+			);
+			evaluated.push(...extra);
+			offspringEvaluations.push(...evaluations);
+			acceptance = decide();
+		}
+		const extraCases = evaluated.length - subsample.length;
+		const subsampleScore = getSubsampleScore(offspringEvaluations, settings);
+		const parentSubsampleScore = getParentSubsampleScore(
+			comparedParent,
+			evaluated,
+			settings,
+		);
+		totalEvaluations = cache.misses;
 
-		// Calculate average description lengths for tiebreaking
-		const offspringAvgLength =
-			offspring.tools.reduce((sum, t) => sum + t.description.length, 0) /
-			offspring.tools.length;
-		const parentAvgLength =
-			parent.tools.reduce((sum, t) => sum + t.description.length, 0) /
-			parent.tools.length;
+		// Calculate lengths for tiebreaking
+		const offspringLengths = measureTools(offspring.tools, settings.tokenizer);
+		const offspringLength = getObjectiveLength(
+			offspringLengths,
+			settings.lengthMetric,
+		);
 
 		emit({
 			type: "subsample_eval",
@@ -186,35 +505,49 @@ export async function runGEPA(config: GEPAConfig): Promise<Archive> {
 			iteration,
 			subsampleScore,
 			parentSubsampleScore,
-			subsampleSize: subsample.length,
+			subsampleSize: evaluated.length,
+			subsampleStrategy,
+			acceptanceTest,
+			acceptanceStatistic: acceptance.statistic,
+			acceptancePValue: acceptance.pValue,
+			extraCases,
 		});
 
 		console.log(
-			`GEPA: Subsample eval - Offspring: ${subsampleScore.toFixed(2)} (len: ${offspringAvgLength.toFixed(0)}), Parent: ${parentSubsampleScore.toFixed(2)} (len: ${parentAvgLength.toFixed(0)})`,
+			`GEPA: Subsample eval - Offspring: ${subsampleScore.toFixed(2)} (len: ${formatLength(offspringLength, settings.lengthMetric)}), Parent: ${parentSubsampleScore.toFixed(2)} (len: ${formatLength(parent.objectiveLength, settings.lengthMetric)})`,
 		);
 
-		// 4. Acceptance check
-		// Accept if accuracy improved OR stayed same (let full eval and Pareto front decide)
+		// Accept unless the test finds the offspring worse - an undecided
+		// test falls back to the score comparison
 		const minAccuracyThreshold = config.minAccuracy ?? 0;
 		const accuracyImproved = subsampleScore > parentSubsampleScore;
 		const accuracyEqual =
 			Math.abs(subsampleScore - parentSubsampleScore) < 0.001;
-		const accuracyWorse = subsampleScore < parentSubsampleScore - 0.001;
+		const accuracyWorse =
+			acceptance.decision === "undecided"
+				? subsampleScore < parentSubsampleScore - 0.001
+				: acceptance.decision === "reject";
 		const belowMinAccuracy = subsampleScore < minAccuracyThreshold;
 
 		console.log(
-			`GEPA: Decision - Improved: ${accuracyImproved}, Equal: ${accuracyEqual}, Worse: ${accuracyWorse}, Below Min: ${belowMinAccuracy} (threshold: ${(minAccuracyThreshold * 100).toFixed(0)}%)`,
+			`GEPA: Decision (${acceptanceTest}: ${acceptance.summary}${extraCases > 0 ? `, ${extraCases} extra cases` : ""}) - Improved: ${accuracyImproved}, Equal: ${accuracyEqual}, Worse: ${accuracyWorse}, Below Min: ${belowMinAccuracy} (threshold: ${(minAccuracyThreshold * 100).toFixed(0)}%)`,
 		);
 		console.log(
-			`  Lengths: Offspring ${offspringAvgLength.toFixed(0)} vs Parent ${parentAvgLength.toFixed(0)} chars`,
+			`  Lengths: Offspring ${formatLength(offspringLength, settings.lengthMetric)} vs Parent ${formatLength(parent.objectiveLength, settings.lengthMetric)}`,
 		);
 
 		// Reject if accuracy got WORSE on subsample OR below minimum threshold
-		if (accuracyWorse || belowMinAccuracy) {
+		const rejected = accuracyWorse || belowMinAccuracy;
+		if (!merge) {
+			recordSelectionOutcome(selectionStats, parent.id, !rejected);
+		}
+		if (rejected) {
 			rejectedCount++;
 			const reason = belowMinAccuracy
 				? `Below minimum accuracy (${(subsampleScore * 100).toFixed(0)}% < ${(minAccuracyThreshold * 100).toFixed(0)}% threshold)`
-				: `Lower accuracy (${(subsampleScore * 100).toFixed(0)}% < ${(parentSubsampleScore * 100).toFixed(0)}%)`;
+				: acceptance.decision === "reject"
+					? acceptance.summary
+					: `Lower accuracy (${(subsampleScore * 100).toFixed(0)}% < ${(parentSubsampleScore * 100).toFixed(0)}%)`;
 
 			console.log(`GEPA: Offspring ${offspring.id} rejected - ${reason}`);
 
@@ -229,11 +562,18 @@ export async function runGEPA(config: GEPAConfig): Promise<Archive> {
 				generation: iteration,
 				toolDescriptions: rejectedToolDescriptions,
 				accuracy: subsampleScore,
-				avgLength: offspringAvgLength,
+				avgLength: offspringLengths.avgDescriptionLength,
+				avgTokens: offspringLengths.avgToolTokens,
+				toolListTokens: offspringLengths.toolListTokens,
+				toolTokens: offspringLengths.toolTokens,
 				isPareto: false,
 				status: "rejected",
 				rejectionReason: reason,
 				parentId: parent.id,
+				mergeParentId,
+				promptVersions: offspring.promptVersions,
+				diagnosis: offspring.diagnosis,
+				rationale: offspring.rationale,
 			});
 
 			emit({
@@ -243,6 +583,9 @@ export async function runGEPA(config: GEPAConfig): Promise<Archive> {
 				iteration,
 			});
 
+			fullyCachedIterations =
+				cache.misses === missesBefore ? fullyCachedIterations + 1 : 0;
+			emitUsage();
 			emit({
 				type: "iteration_done",
 				iteration,
@@ -258,18 +601,25 @@ export async function runGEPA(config: GEPAConfig): Promise<Archive> {
 		);
 		emit({ type: "candidate_start", candidateId: offspring.id, iteration });
 
-		const offspringEval = await evaluateCandidate(
-			offspring,
-			config.testCases,
-			config.evaluationModel,
-			emit,
-			limit,
+		const offspringEval = withSplitScores(
+			await evaluateCandidate(
+				offspring,
+				evaluationCases,
+				emit,
+				limit,
+				cache,
+				usage,
+				settings,
+				config.signal,
+			),
 		);
-		totalEvaluations += config.testCases.length;
+		totalEvaluations = cache.misses;
 
 		// 6. Add to archive and update Pareto fronts
-		addToArchive(archive, offspringEval, parent.id);
-		updatePerTaskPareto(perTaskPareto, offspringEval, archive);
+		addToArchive(archive, offspringEval, parent.id, mergeParentId);
+		if (updatePerTaskPareto(perTaskPareto, offspringEval, archive) > 0) {
+			recordParetoGain(stopping, iteration);
+		}
 		acceptedCount++;
 
 		const toolDescriptions: Record<string, string> = {};
@@ -283,11 +633,24 @@ export async function runGEPA(config: GEPAConfig): Promise<Archive> {
 			candidateId: offspring.id,
 			generation: iteration,
 			accuracy: offspringEval.accuracy,
+			argumentAccuracy: offspringEval.argumentAccuracy,
+			errorCount: offspringEval.errorCount,
+			expectedAccuracy: offspringEval.expectedAccuracy,
+			stability: offspringEval.stability,
+			modelAccuracy: offspringEval.modelAccuracy,
+			robustness: offspringEval.robustness,
 			avgLength: offspringEval.avgDescriptionLength,
+			avgTokens: offspringEval.avgToolTokens,
+			toolListTokens: offspringEval.toolListTokens,
+			toolTokens: offspringEval.toolTokens,
 			toolDescriptions,
 			isPareto: true, // All accepted candidates are on some Pareto front
 			status: "accepted",
 			parentId: parent.id,
+			mergeParentId,
+			promptVersions: offspringEval.promptVersions,
+			diagnosis: offspringEval.diagnosis,
+			rationale: offspringEval.rationale,
 		});
 
 		// Then emit offspring_accepted to update with GEPA-specific metadata
@@ -298,6 +661,7 @@ export async function runGEPA(config: GEPAConfig): Promise<Archive> {
 			avgLength: offspringEval.avgDescriptionLength,
 			archiveIndex: getArchiveSize(archive),
 			parentId: parent.id,
+			mergeParentId,
 			iteration,
 		});
 
@@ -310,9 +674,12 @@ export async function runGEPA(config: GEPAConfig): Promise<Archive> {
 		});
 
 		console.log(
-			`GEPA: Accepted ${offspring.id} - Accuracy: ${(offspringEval.accuracy * 100).toFixed(1)}%, Archive size: ${getArchiveSize(archive)}`,
+			`GEPA: Accepted ${offspring.id} - Accuracy: ${formatAccuracy(offspringEval)}, Archive size: ${getArchiveSize(archive)}`,
 		);
 
+		fullyCachedIterations =
+			cache.misses === missesBefore ? fullyCachedIterations + 1 : 0;
+		emitUsage();
 		emit({
 			type: "iteration_done",
 			iteration,
@@ -321,8 +688,71 @@ export async function runGEPA(config: GEPAConfig): Promise<Archive> {
 		});
 	}
 
+	// The last iteration may overshoot either budget - nothing is left then
+	const unspentEvaluations = Math.max(
+		0,
+		config.maxEvaluations - totalEvaluations,
+	);
+	const unspentCostUsd =
+		config.maxCostUsd !== undefined
+			? Math.max(0, config.maxCostUsd - usage.costUsd)
+			: undefined;
+
+	// Score the final Pareto candidates on every split, held-out test cases
+	// included - outside the budget, which only covers the search
+	if (isSplit) {
+		const front = Array.from(perTaskPareto.dominanceCount.entries()).flatMap(
+			([id, count]) => {
+				const candidate = archive.candidates.get(id);
+				return candidate && count > 0 ? [candidate] : [];
+			},
+		);
+		console.log(
+			`\n[Generalization]\nScoring ${front.length} Pareto candidates on ${split.test.length} held-out test cases`,
+		);
+		for (const candidate of front) {
+			const testScore =
+				split.test.length > 0
+					? (
+							await evaluateOnSubsample(
+								candidate,
+								split.test,
+								limit,
+								cache,
+								usage,
+								settings,
+								config.signal,
+							)
+						).score
+					: undefined;
+			// Scored like subsamples - accuracy, or robustness for multi-model runs
+			const trainScore = getParentSubsampleScore(
+				candidate,
+				split.train,
+				settings,
+			);
+			const validationScore = getParentSubsampleScore(
+				candidate,
+				split.validation,
+				settings,
+			);
+			console.log(
+				`GEPA: ${candidate.id.slice(0, 8)} - Train: ${(trainScore * 100).toFixed(1)}%, Validation: ${(validationScore * 100).toFixed(1)}%${testScore !== undefined ? `, Test: ${(testScore * 100).toFixed(1)}%` : ""}`,
+			);
+			emit({
+				type: "generalization",
+				candidateId: candidate.id,
+				trainScore,
+				validationScore,
+				testScore,
+			});
+		}
+		totalEvaluations = cache.misses;
+		emitUsage();
+	}
+
 	console.log(
-		`GEPA: Optimization complete - Archive size: ${getArchiveSize(archive)}, Accepted: ${acceptedCount}, Rejected: ${rejectedCount}`,
+		`GEPA: Optimization complete (${stopReason}: ${stopDetail}) - Archive size: ${getArchiveSize(archive)}, Accepted: ${acceptedCount}, Rejected: ${rejectedCount}, Cache: ${cache.hits} hits / ${cache.misses} misses, Cost: $${usage.costUsd.toFixed(4)}, Unspent: ${unspentEvaluations} evaluations${unspentCostUsd !== undefined ? `, $${unspentCostUsd.toFixed(4)}` : ""}`,
 	);
 
 	emit({
@@ -332,7 +762,25 @@ export async function runGEPA(config: GEPAConfig): Promise<Archive> {
 		totalEvaluations,
 		acceptedCount,
 		rejectedCount,
+		stopReason,
+		stopDetail,
+		unspentEvaluations,
+		unspentCostUsd,
 	});
 
 	return archive;
 }
+
+/**
+ * Accuracy for the log, with the train/validation breakdown of split runs
+ */
+function formatAccuracy(candidate: EvaluatedCandidate): string {
+	const accuracy = `${(candidate.accuracy * 100).toFixed(1)}%`;
+	if (
+		candidate.trainAccuracy === undefined ||
+		candidate.validationAccuracy === undefined
+	) {
+		return accuracy;
+	}
+	return `${accuracy} (train ${(candidate.trainAccuracy * 100).toFixed(1)}%, validation ${(candidate.validationAccuracy * 100).toFixed(1)}%)`;
+}
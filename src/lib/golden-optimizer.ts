@@ -2,14 +2,19 @@ import type {
 	EvaluatedCandidate,
 	GoldenOptimizerConfig,
 	GoldenTestCase,
+	LengthMetric,
 	ProgressEvent,
 	TestCase,
 } from "../types";
 import { addToArchive, createArchive, getArchiveCandidates } from "./archive";
 import { generateCandidates } from "./candidate-generator";
 import { createEvaluationLimiter } from "./concurrency";
-import { evaluateCandidate } from "./evaluator";
+import { createEvaluationCache } from "./evaluation-cache";
+import { evaluateCandidate, getEvaluationSettings } from "./evaluator";
 import { generateGoldenTestSet } from "./golden-set-generator";
+import { loadPromptTemplates } from "./prompt-templates";
+import { formatLength } from "./tokenizer";
+import { createUsageTracker } from "./usage";
 
 /**
  * Golden Set Optimizer
@@ -34,7 +39,22 @@ export async function runGoldenOptimizer(
 	const archive = createArchive();
 	const limit = createEvaluationLimiter({
 		maxConcurrentEvaluations: config.maxConcurrentEvaluations,
+		signal: config.signal,
 	});
+	const cache = createEvaluationCache();
+	const usage = createUsageTracker();
+	const settings = getEvaluationSettings(config);
+	const templates = await loadPromptTemplates();
+
+	const emitUsage = () => {
+		emit({ type: "cache_stats", hits: cache.hits, misses: cache.misses });
+		emit({
+			type: "cost_update",
+			inputTokens: usage.inputTokens,
+			outputTokens: usage.outputTokens,
+			costUsd: usage.costUsd,
+		});
+	};
 
 	emit({ type: "optimization_start", runId: config.runId });
 
@@ -49,6 +69,9 @@ export async function runGoldenOptimizer(
 		config.tools,
 		config.testCasesPerCategory,
 		config.generationModel,
+		templates["golden-test-generation"],
+		usage,
+		config.signal,
 	);
 
 	for (const testCase of goldenTestCases) {
@@ -80,6 +103,7 @@ export async function runGoldenOptimizer(
 		indirectCount,
 		negativeCount,
 	});
+	emitUsage();
 
 	console.log(`Generated ${goldenTestCases.length} test cases:`);
 	console.log(`  - Direct: ${directCount}`);
@@ -97,6 +121,12 @@ export async function runGoldenOptimizer(
 		config.tools,
 		config.candidateCount,
 		config.generationModel,
+		templates,
+		usage,
+		config.hostContext,
+		config.signal,
+		settings.lengthMetric,
+		settings.tokenizer,
 	);
 
 	for (const { candidate, variationType } of candidatesWithTypes) {
@@ -106,6 +136,7 @@ export async function runGoldenOptimizer(
 			variationType,
 		});
 	}
+	emitUsage();
 
 	emit({
 		type: "candidate_generation_done",
@@ -129,6 +160,7 @@ export async function runGoldenOptimizer(
 		query: gtc.query,
 		expectedTool: gtc.expectedTool,
 		userCreated: gtc.userCreated,
+		shouldCall: gtc.shouldCall,
 	}));
 
 	for (const { candidate, variationType } of candidatesWithTypes) {
@@ -144,9 +176,12 @@ export async function runGoldenOptimizer(
 		const evaluated = await evaluateCandidate(
 			candidate,
 			testCases,
-			config.evaluationModel,
 			emit,
 			limit,
+			cache,
+			usage,
+			settings,
+			config.signal,
 		);
 
 		// Compute precision and recall for golden test cases
@@ -161,7 +196,16 @@ export async function runGoldenOptimizer(
 			type: "candidate_done",
 			candidateId: evaluated.id,
 			accuracy: evaluated.accuracy,
+			argumentAccuracy: evaluated.argumentAccuracy,
+			errorCount: evaluated.errorCount,
+			expectedAccuracy: evaluated.expectedAccuracy,
+			stability: evaluated.stability,
+			modelAccuracy: evaluated.modelAccuracy,
+			robustness: evaluated.robustness,
 			avgLength: evaluated.avgDescriptionLength,
+			avgTokens: evaluated.avgToolTokens,
+			toolListTokens: evaluated.toolListTokens,
+			toolTokens: evaluated.toolTokens,
 			toolDescriptions: Object.fromEntries(
 				evaluated.tools.map((t) => [t.name, t.description]),
 			),
@@ -169,7 +213,11 @@ export async function runGoldenOptimizer(
 			variationType,
 			precision: metrics.precision,
 			recall: metrics.recall,
+			promptVersions: evaluated.promptVersions,
+			diagnosis: evaluated.diagnosis,
+			rationale: evaluated.rationale,
 		});
+		emitUsage();
 	}
 
 	emit({
@@ -181,7 +229,11 @@ export async function runGoldenOptimizer(
 	console.log("\n=== PHASE 4: SELECT BEST CANDIDATE ===");
 
 	const allCandidates = getArchiveCandidates(archive);
-	const best = selectBestCandidate(allCandidates, goldenTestCases);
+	const best = selectBestCandidate(
+		allCandidates,
+		goldenTestCases,
+		settings.lengthMetric,
+	);
 
 	if (best) {
 		const metrics = computeGoldenMetrics(best.candidate, goldenTestCases);
@@ -189,12 +241,12 @@ export async function runGoldenOptimizer(
 		console.log(`\nBest candidate: ${best.candidate.id}`);
 		console.log(`Accuracy: ${(best.candidate.accuracy * 100).toFixed(1)}%`);
 		console.log(
-			`Avg Length: ${best.candidate.avgDescriptionLength.toFixed(0)} chars`,
+			`Avg Length: ${formatLength(best.candidate.objectiveLength, settings.lengthMetric)}`,
 		);
 		console.log(`Precision: ${(metrics.precision * 100).toFixed(1)}%`);
 		console.log(`Recall: ${(metrics.recall * 100).toFixed(1)}%`);
 		console.log(
-			`Score: ${best.score.toFixed(3)} (accuracy: ${(best.accuracyScore * 100).toFixed(1)}%, length: ${best.lengthScore.toFixed(0)} chars)`,
+			`Score: ${best.score.toFixed(3)} (accuracy: ${(best.accuracyScore * 100).toFixed(1)}%, length: ${formatLength(best.lengthScore, settings.lengthMetric)})`,
 		);
 
 		emit({
@@ -218,9 +270,11 @@ export async function runGoldenOptimizer(
 		type: "optimization_complete",
 		runId: config.runId,
 		archiveSize: archive.candidates.size,
-		totalEvaluations: goldenTestCases.length * candidatesWithTypes.length,
+		totalEvaluations: cache.misses, // Cache hits are free, as in GEPA
 		acceptedCount: archive.candidates.size,
 		rejectedCount: 0,
+		stopReason: "finished",
+		stopDetail: `Evaluated all ${candidatesWithTypes.length} candidates`,
 	});
 
 	console.log("\n=== GOLDEN SET OPTIMIZER COMPLETED ===\n");
@@ -242,7 +296,7 @@ function computeGoldenMetrics(
 		const goldenTestCase = goldenTestCases.find(
 			(tc) => tc.id === evaluation.testCaseId,
 		);
-		if (!goldenTestCase) continue;
+		if (!goldenTestCase || evaluation.error) continue;
 
 		const toolWasCalled = evaluation.selectedTool !== null;
 		const shouldCall = goldenTestCase.shouldCall;
@@ -282,6 +336,7 @@ function computeGoldenMetrics(
 function selectBestCandidate(
 	candidates: EvaluatedCandidate[],
 	goldenTestCases: GoldenTestCase[],
+	lengthMetric: LengthMetric,
 ): {
 	candidate: EvaluatedCandidate;
 	score: number;
@@ -299,31 +354,35 @@ function selectBestCandidate(
 
 	// Among Pareto front, select best by weighted score
 	// Weight: 70% accuracy, 30% conciseness (inverse of length)
+	// Multi-model runs weigh robustness instead of accuracy
 	let bestCandidate: EvaluatedCandidate | null = null;
 	let bestScore = -1;
 	let bestAccuracyScore = 0;
 	let bestLengthScore = 0;
 
+	// Normalize to 0-1 range (assuming max 200 chars) - token lengths include
+	// the schema, so they are normalized by the longest candidate instead
+	const maxLength =
+		lengthMetric === "tokens"
+			? Math.max(1, ...candidates.map((c) => c.objectiveLength))
+			: 200;
+
 	for (const candidate of paretoFront) {
-		const accuracyScore = candidate.accuracy;
-		const maxLength = 200; // Normalize to 0-1 range (assuming max 200 chars)
-		const lengthScore = Math.max(
-			0,
-			maxLength - candidate.avgDescriptionLength,
-		);
+		const accuracyScore = candidate.robustness ?? candidate.accuracy;
+		const lengthScore = Math.max(0, maxLength - candidate.objectiveLength);
 
 		// Weighted score: 70% accuracy, 30% conciseness
 		const score = accuracyScore * 0.7 + (lengthScore / maxLength) * 0.3;
 
 		console.log(
-			`  Candidate ${candidate.id}: accuracy=${(accuracyScore * 100).toFixed(1)}%, length=${candidate.avgDescriptionLength.toFixed(0)}, score=${score.toFixed(3)}`,
+			`  Candidate ${candidate.id}: accuracy=${(accuracyScore * 100).toFixed(1)}%, length=${formatLength(candidate.objectiveLength, lengthMetric)}, score=${score.toFixed(3)}`,
 		);
 
 		if (score > bestScore) {
 			bestScore = score;
 			bestCandidate = candidate;
 			bestAccuracyScore = accuracyScore;
-			bestLengthScore = candidate.avgDescriptionLength;
+			bestLengthScore = candidate.objectiveLength;
 		}
 	}
 
@@ -358,7 +417,7 @@ function computeParetoFront(
 			if (
 				other.accuracy > candidate.accuracy ||
 				(other.accuracy === candidate.accuracy &&
-					other.avgDescriptionLength < candidate.avgDescriptionLength)
+					other.objectiveLength < candidate.objectiveLength)
 			) {
 				isDominated = true;
 				break;
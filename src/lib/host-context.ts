@@ -0,0 +1,52 @@
+import type { HostContext } from "../types";
+import { formatConversation, parseConversation } from "./conversation";
+import { isObject } from "./json-schema";
+
+/**
+ * Validate a host context from user input, throwing on bad shapes
+ * Empty fields are dropped so an empty context means "none"
+ */
+export function parseHostContext(input: unknown): HostContext | undefined {
+	if (input === undefined || input === null) return undefined;
+	if (!isObject(input)) {
+		throw new Error("Host context must be an object");
+	}
+
+	const { systemPrompt, preamble } = input;
+	if (systemPrompt !== undefined && typeof systemPrompt !== "string") {
+		throw new Error("systemPrompt must be a string");
+	}
+
+	const hostContext: HostContext = {};
+	if (systemPrompt?.trim()) {
+		hostContext.systemPrompt = systemPrompt;
+	}
+	if (Array.isArray(preamble) && preamble.length > 0) {
+		hostContext.preamble = parseConversation(preamble);
+	} else if (preamble !== undefined && !Array.isArray(preamble)) {
+		throw new Error("preamble must be an array of messages");
+	}
+
+	return hostContext.systemPrompt || hostContext.preamble
+		? hostContext
+		: undefined;
+}
+
+/**
+ * Describe the host context for reflection prompts, so rewritten
+ * descriptions account for what the agent is already told
+ */
+export function formatHostContext(hostContext?: HostContext): string {
+	if (!hostContext) return "";
+
+	const sections = ["The agent using these tools runs with this context:"];
+	if (hostContext.systemPrompt) {
+		sections.push(`System prompt:\n${hostContext.systemPrompt}`);
+	}
+	if (hostContext.preamble) {
+		sections.push(
+			`Conversation before each request:\n${formatConversation(hostContext.preamble)}`,
+		);
+	}
+	return `${sections.join("\n")}\n\n`;
+}
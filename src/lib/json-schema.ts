@@ -0,0 +1,175 @@
+/**
+ * Minimal JSON Schema validator for tool arguments
+ * Covers the keywords MCP tool input schemas use in practice - unknown
+ * keywords are ignored rather than rejected
+ */
+export function validateJsonSchema(
+	value: unknown,
+	schema: unknown,
+	path = "$",
+): string[] {
+	if (schema === true || schema === undefined) return [];
+	if (schema === false) return [`${path}: no value allowed`];
+	if (!schema || typeof schema !== "object") return [];
+
+	const s = schema as Record<string, unknown>;
+	const errors: string[] = [];
+
+	if (s.type !== undefined) {
+		const types = Array.isArray(s.type) ? s.type : [s.type];
+		if (!types.some((type) => matchesType(value, type))) {
+			return [`${path}: expected ${types.join(" | ")}, got ${typeOf(value)}`];
+		}
+	}
+
+	if (Array.isArray(s.enum) && !s.enum.some((v) => deepEqual(v, value))) {
+		errors.push(`${path}: must be one of ${JSON.stringify(s.enum)}`);
+	}
+	if ("const" in s && !deepEqual(s.const, value)) {
+		errors.push(`${path}: must equal ${JSON.stringify(s.const)}`);
+	}
+
+	if (Array.isArray(s.allOf)) {
+		for (const sub of s.allOf) {
+			errors.push(...validateJsonSchema(value, sub, path));
+		}
+	}
+	if (
+		Array.isArray(s.anyOf) &&
+		!s.anyOf.some((sub) => validateJsonSchema(value, sub, path).length === 0)
+	) {
+		errors.push(`${path}: does not match any allowed schema`);
+	}
+	if (
+		Array.isArray(s.oneOf) &&
+		s.oneOf.filter((sub) => validateJsonSchema(value, sub, path).length === 0)
+			.length !== 1
+	) {
+		errors.push(`${path}: must match exactly one allowed schema`);
+	}
+
+	if (typeof value === "string") {
+		if (typeof s.minLength === "number" && value.length < s.minLength) {
+			errors.push(`${path}: shorter than ${s.minLength} characters`);
+		}
+		if (typeof s.maxLength === "number" && value.length > s.maxLength) {
+			errors.push(`${path}: longer than ${s.maxLength} characters`);
+		}
+		if (typeof s.pattern === "string" && !new RegExp(s.pattern).test(value)) {
+			errors.push(`${path}: does not match pattern ${s.pattern}`);
+		}
+	}
+
+	if (typeof value === "number") {
+		if (typeof s.minimum === "number" && value < s.minimum) {
+			errors.push(`${path}: less than ${s.minimum}`);
+		}
+		if (typeof s.maximum === "number" && value > s.maximum) {
+			errors.push(`${path}: greater than ${s.maximum}`);
+		}
+	}
+
+	if (Array.isArray(value)) {
+		if (typeof s.minItems === "number" && value.length < s.minItems) {
+			errors.push(`${path}: fewer than ${s.minItems} items`);
+		}
+		if (typeof s.maxItems === "number" && value.length > s.maxItems) {
+			errors.push(`${path}: more than ${s.maxItems} items`);
+		}
+		if (s.items !== undefined) {
+			value.forEach((item, i) => {
+				errors.push(...validateJsonSchema(item, s.items, `${path}[${i}]`));
+			});
+		}
+	}
+
+	if (isObject(value)) {
+		const properties = (s.properties ?? {}) as Record<string, unknown>;
+
+		if (Array.isArray(s.required)) {
+			for (const key of s.required) {
+				if (!(key in value)) {
+					errors.push(`${path}.${key}: required`);
+				}
+			}
+		}
+
+		for (const [key, propertyValue] of Object.entries(value)) {
+			if (key in properties) {
+				errors.push(
+					...validateJsonSchema(
+						propertyValue,
+						properties[key],
+						`${path}.${key}`,
+					),
+				);
+			} else if (s.additionalProperties === false) {
+				errors.push(`${path}.${key}: unexpected property`);
+			} else if (typeof s.additionalProperties === "object") {
+				errors.push(
+					...validateJsonSchema(
+						propertyValue,
+						s.additionalProperties,
+						`${path}.${key}`,
+					),
+				);
+			}
+		}
+	}
+
+	return errors;
+}
+
+/**
+ * Structural equality for JSON values (key order does not matter)
+ */
+export function deepEqual(a: unknown, b: unknown): boolean {
+	if (a === b) return true;
+	if (Array.isArray(a) || Array.isArray(b)) {
+		return (
+			Array.isArray(a) &&
+			Array.isArray(b) &&
+			a.length === b.length &&
+			a.every((item, i) => deepEqual(item, b[i]))
+		);
+	}
+	if (isObject(a) && isObject(b)) {
+		const keys = Object.keys(a);
+		return (
+			keys.length === Object.keys(b).length &&
+			keys.every((key) => key in b && deepEqual(a[key], b[key]))
+		);
+	}
+	return false;
+}
+
+export function isObject(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function matchesType(value: unknown, type: unknown): boolean {
+	switch (type) {
+		case "integer":
+			return Number.isInteger(value);
+		case "number":
+			return typeof value === "number";
+		case "string":
+			return typeof value === "string";
+		case "boolean":
+			return typeof value === "boolean";
+		case "null":
+			return value === null;
+		case "array":
+			return Array.isArray(value);
+		case "object":
+			return isObject(value);
+		default:
+			return true;
+	}
+}
+
+function typeOf(value: unknown): string {
+	if (value === null) return "null";
+	if (Array.isArray(value)) return "array";
+	return typeof value;
+}
@@ -1,28 +1,36 @@
-import { createAnthropic } from "@ai-sdk/anthropic";
-import { createOpenAI } from "@ai-sdk/openai";
-import { type Tool as AITool, generateObject, generateText, jsonSchema, tool } from "ai";
+import {
+	type Tool as AITool,
+	generateObject,
+	generateText,
+	jsonSchema,
+	type ModelMessage,
+	NoObjectGeneratedError,
+	tool,
+} from "ai";
 import { z } from "zod";
-import type { ModelName, Tool } from "../types";
-import { MODEL_PROVIDERS } from "./constants";
-
-// Provider configurations
-const anthropic = createAnthropic({
-	apiKey: process.env.ANTHROPIC_API_KEY,
-});
-
-const openai = createOpenAI({
-	apiKey: process.env.OPENAI_API_KEY,
-});
-
-// Build provider instances from MODEL_PROVIDERS config
-const modelProviders = {
-	"claude-sonnet-4-5": anthropic(MODEL_PROVIDERS["claude-sonnet-4-5"]),
-	"claude-opus-4-1": anthropic(MODEL_PROVIDERS["claude-opus-4-1"]),
-	"claude-haiku-4-5": anthropic(MODEL_PROVIDERS["claude-haiku-4-5"]),
-	"gpt-5": openai(MODEL_PROVIDERS["gpt-5"]),
-	"gpt-5-mini": openai(MODEL_PROVIDERS["gpt-5-mini"]),
-	"gpt-4o": openai(MODEL_PROVIDERS["gpt-4o"]),
-} as const;
+import type {
+	BatchReflection,
+	ConversationMessage,
+	HostContext,
+	ModelName,
+	PromptTemplate,
+	Reflection,
+	Tool,
+	ToolSelection,
+} from "../types";
+import { EVALUATION_RETRY, REFLECTION_MAX_ATTEMPTS } from "./constants";
+import { toModelMessages } from "./conversation";
+import { getLanguageModel } from "./model-registry";
+import { renderPromptTemplate } from "./prompt-templates";
+import {
+	BATCH_REFLECTION_SCHEMA,
+	REFLECTION_SCHEMA,
+	validateBatchReflection,
+	validateReflection,
+} from "./reflection";
+import { toEvaluationError, withRetry } from "./retry";
+import type { UsageTracker } from "./usage";
+import { recordUsage } from "./usage";
 
 /**
  * Neutered execute function - returns empty result
@@ -72,94 +80,229 @@ function convertToolsToAISDK(tools: Tool[]): Record<string, AITool> {
  */
 export async function evaluateWithTools(
 	model: ModelName,
-	query: string,
+	query: string | ConversationMessage[],
 	tools: Record<string, AITool> | Tool[],
-): Promise<{ selectedTool: string | null; arguments?: unknown }> {
+	usage?: UsageTracker,
+	hostContext?: HostContext,
+	temperature = 0, // Deterministic by default - raise it to sample
+	signal?: AbortSignal, // Cancels the call (and its retries) - then this throws
+): Promise<ToolSelection> {
 	// Convert to AI SDK format if needed, then neuter execute
 	const aiSDKTools = Array.isArray(tools) ? convertToolsToAISDK(tools) : tools;
 
 	const neuteredTools = neuterExecuteFunctions(aiSDKTools);
 
 	try {
-		const result = await generateText({
-			model: modelProviders[model],
-			messages: [{ role: "user", content: query }],
-			tools: neuteredTools,
-			temperature: 0, // Deterministic evaluation for consistent results
-		});
+		// Retries are ours (not the SDK's) so failures come back typed
+		const result = await withRetry(
+			() =>
+				generateText({
+					model: getLanguageModel(model),
+					// Same system prompt and preamble as the production agent
+					system: hostContext?.systemPrompt,
+					// Multi-turn tests replay the conversation so far
+					messages: [
+						...toModelMessages(hostContext?.preamble ?? []),
+						...(typeof query === "string"
+							? [{ role: "user" as const, content: query }]
+							: toModelMessages(query)),
+					],
+					tools: neuteredTools,
+					temperature,
+					maxRetries: 0,
+					abortSignal: signal,
+				}),
+			EVALUATION_RETRY,
+			(error, attempt, delayMs) => {
+				console.warn(
+					`    Evaluation attempt ${attempt} failed (${error instanceof Error ? error.message : String(error)}), retrying in ${Math.round(delayMs)}ms`,
+				);
+			},
+			signal,
+		);
+		recordUsage(usage, model, result.totalUsage);
 
 		// Log agent turns - checking what's available in result
 		console.log(`    Agent turns: ${result.steps?.length ?? "N/A"} steps | Usage: ${JSON.stringify(result.usage)}`);
 		console.log(`    Response parts: ${result.response?.messages?.length ?? 0} messages, ${result.toolCalls?.length ?? 0} tool calls`);
 
-		// Extract tool call from response
-		const toolCall = result.toolCalls?.[0];
+		// Extract tool calls from response - parallel calls come back together
+		const toolCalls = (result.toolCalls ?? []).map((call) => ({
+			toolName: call.toolName,
+			arguments: "input" in call ? call.input : undefined,
+		}));
+		const toolCall = toolCalls[0];
 
 		return {
 			selectedTool: toolCall?.toolName || null,
-			arguments: toolCall && "input" in toolCall ? toolCall.input : undefined,
+			arguments: toolCall?.arguments,
+			toolCalls,
 		};
 	} catch (error) {
-		console.error("Error evaluating with tools:", error);
-		return { selectedTool: null };
+		// A cancelled run is not an evaluation failure
+		if (signal?.aborted) throw error;
+		const evaluationError = toEvaluationError(error);
+		console.error(
+			`Error evaluating with tools (${evaluationError.kind} after ${evaluationError.attempts} attempt(s)):`,
+			evaluationError.message,
+		);
+		return { selectedTool: null, error: evaluationError };
 	}
 }
 
 /**
  * Ask LLM to reflect on failures and generate improved description
+ * The answer is structured (diagnosis, rationale, description). Malformed
+ * answers are sent back with the problems found, up to
+ * REFLECTION_MAX_ATTEMPTS times - then this throws.
  */
 export async function reflect(
 	model: ModelName,
 	prompt: string,
-): Promise<string> {
-	try {
-		const result = await generateText({
-			model: modelProviders[model],
-			messages: [{ role: "user", content: prompt }],
-			maxOutputTokens: 500,
-		});
+	usage?: UsageTracker,
+	signal?: AbortSignal,
+): Promise<Reflection> {
+	return generateReflection(
+		model,
+		prompt,
+		REFLECTION_SCHEMA,
+		(object) => {
+			const reflection: Reflection = {
+				diagnosis: object.diagnosis.trim(),
+				rationale: object.rationale.trim(),
+				description: object.description.trim(),
+			};
+			return { reflection, problems: validateReflection(reflection) };
+		},
+		usage,
+		signal,
+	);
+}
 
-		return result.text;
-	} catch (error) {
-		console.error("Error during reflection:", error);
-		throw error;
+/**
+ * Minibatch reflection: one answer with new descriptions for any of the
+ * tools under review, retried like reflect
+ */
+export async function reflectOnBatch(
+	model: ModelName,
+	prompt: string,
+	toolNames: string[],
+	usage?: UsageTracker,
+	signal?: AbortSignal,
+): Promise<BatchReflection> {
+	return generateReflection(
+		model,
+		prompt,
+		BATCH_REFLECTION_SCHEMA,
+		(object) => {
+			const reflection: BatchReflection = {
+				diagnosis: object.diagnosis.trim(),
+				rationale: object.rationale.trim(),
+				descriptions: object.descriptions.map(({ tool, description }) => ({
+					tool: tool.trim(),
+					description: description.trim(),
+				})),
+			};
+			return {
+				reflection,
+				problems: validateBatchReflection(reflection, toolNames),
+			};
+		},
+		usage,
+		signal,
+	);
+}
+
+/**
+ * Structured reflection call - answers with problems are sent back for
+ * another attempt, up to REFLECTION_MAX_ATTEMPTS
+ */
+async function generateReflection<T, R>(
+	model: ModelName,
+	prompt: string,
+	schema: z.ZodType<T>,
+	parse: (object: T) => { reflection: R; problems: string[] },
+	usage?: UsageTracker,
+	signal?: AbortSignal,
+): Promise<R> {
+	const messages: ModelMessage[] = [{ role: "user", content: prompt }];
+	let problems: string[] = [];
+
+	for (let attempt = 1; attempt <= REFLECTION_MAX_ATTEMPTS; attempt++) {
+		let answer: string;
+		try {
+			const result = await generateObject({
+				model: getLanguageModel(model),
+				messages,
+				schema,
+				maxOutputTokens: 1000,
+				abortSignal: signal,
+			});
+			recordUsage(usage, model, result.usage);
+
+			const parsed = parse(result.object);
+			problems = parsed.problems;
+			if (problems.length === 0) return parsed.reflection;
+			answer = JSON.stringify(result.object);
+		} catch (error) {
+			// Anything but unparseable output (network, auth, ...) is not ours to retry
+			if (!NoObjectGeneratedError.isInstance(error)) {
+				console.error("Error during reflection:", error);
+				throw error;
+			}
+			if (error.usage) recordUsage(usage, model, error.usage);
+			problems = ["the answer did not match the requested JSON format"];
+			answer = error.text ?? "";
+		}
+
+		console.warn(
+			`Reflection attempt ${attempt} rejected: ${problems.join("; ")}`,
+		);
+		messages.push(
+			{ role: "assistant", content: answer },
+			{
+				role: "user",
+				content: `That answer was rejected:\n${problems.map((p) => `- ${p}`).join("\n")}\n\nAnswer again, fixing these problems.`,
+			},
+		);
 	}
+
+	throw new Error(
+		`Reflection failed after ${REFLECTION_MAX_ATTEMPTS} attempts: ${problems.join("; ")}`,
+	);
 }
 
 /**
- * Generate test cases for a tool
+ * Generate test cases for a tool from the test-generation template
  */
 export async function generateTests(
 	model: ModelName,
 	tool: Tool,
 	count: number,
+	template: PromptTemplate,
 	customPrompt?: string,
+	usage?: UsageTracker,
 ): Promise<string[]> {
-	const basePrompt = `Generate ${count} diverse user queries that should trigger this tool:
-
-Tool: ${tool.name}
-Description: ${tool.description}
-Input schema: ${JSON.stringify(tool.inputSchema, null, 2)}
-
-Requirements:
-- Each query should be a natural user question or command
-- Queries should vary in phrasing and specificity
-- Queries should consider direct and indirect invocations of the tool
-- All queries should clearly map to this tool's purpose`;
-
-	const prompt = customPrompt
-		? `${basePrompt}\n\nAdditional instructions:\n${customPrompt}`
-		: basePrompt;
+	const prompt = renderPromptTemplate(template, {
+		count,
+		toolName: tool.name,
+		description: tool.description,
+		inputSchema: JSON.stringify(tool.inputSchema, null, 2),
+		customInstructions: customPrompt
+			? `\n\nAdditional instructions:\n${customPrompt}`
+			: "",
+	});
 
 	try {
 		const result = await generateObject({
-			model: modelProviders[model],
+			model: getLanguageModel(model),
 			messages: [{ role: "user", content: prompt }],
 			schema: z.object({
 				queries: z.array(z.string()),
 			}),
 			maxOutputTokens: 1000,
 		});
+		recordUsage(usage, model, result.usage);
 
 		return result.object.queries;
 	} catch (error) {
@@ -168,3 +311,48 @@ Requirements:
 		return [`Use ${tool.name}`, `Help me with ${tool.name}`];
 	}
 }
+
+/**
+ * Generate queries near a tool's domain that should be answered without
+ * calling any tool
+ */
+export async function generateAbstentionTests(
+	model: ModelName,
+	tool: Tool,
+	otherTools: Tool[],
+	count: number,
+	template: PromptTemplate,
+	customPrompt?: string,
+	usage?: UsageTracker,
+): Promise<string[]> {
+	const prompt = renderPromptTemplate(template, {
+		count,
+		toolName: tool.name,
+		description: tool.description,
+		inputSchema: JSON.stringify(tool.inputSchema, null, 2),
+		otherTools: otherTools
+			.map((t) => `- ${t.name}: ${t.description}`)
+			.join("\n"),
+		customInstructions: customPrompt
+			? `\n\nAdditional instructions:\n${customPrompt}`
+			: "",
+	});
+
+	try {
+		const result = await generateObject({
+			model: getLanguageModel(model),
+			messages: [{ role: "user", content: prompt }],
+			schema: z.object({
+				queries: z.array(z.string()),
+			}),
+			maxOutputTokens: 1000,
+		});
+		recordUsage(usage, model, result.usage);
+
+		return result.object.queries;
+	} catch (error) {
+		// No fallback - a made-up query could well need the tool
+		console.error("Error generating abstention tests:", error);
+		return [];
+	}
+}
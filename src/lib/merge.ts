@@ -0,0 +1,198 @@
+import type {
+	Candidate,
+	EvaluatedCandidate,
+	LengthMetric,
+	TestCase,
+} from "../types";
+import type { Archive } from "./archive";
+import type { PerTaskPareto } from "./pareto";
+import { getSelectionAccuracy } from "./pareto";
+import type { Random } from "./random";
+import { getCredit } from "./robustness";
+import { getObjectiveLength } from "./tokenizer";
+
+/**
+ * A merge offspring and where each of its tool descriptions came from
+ */
+export type Merge = {
+	parent: EvaluatedCandidate; // Better overall of the two
+	mergeParent: EvaluatedCandidate;
+	offspring: Candidate;
+	toolSources: Record<string, string>; // Tool name -> parent ID
+};
+
+/**
+ * Every candidate the given one descends from, through both parents of
+ * merge offspring
+ */
+function getAncestors(archive: Archive, candidateId: string): Set<string> {
+	const ancestors = new Set<string>();
+	const pending = [candidateId];
+
+	while (pending.length > 0) {
+		const id = pending.pop() as string;
+		for (const parentId of [
+			archive.parentOf.get(id),
+			archive.mergeParentOf.get(id),
+		]) {
+			if (parentId && !ancestors.has(parentId)) {
+				ancestors.add(parentId);
+				pending.push(parentId);
+			}
+		}
+	}
+
+	return ancestors;
+}
+
+/**
+ * Mean credit of a candidate on each tool's test cases (the tests listed
+ * under that tool), keyed by tool ID - failed evaluations are left out
+ */
+function getToolScores(
+	candidate: EvaluatedCandidate,
+	testCases: TestCase[],
+): Map<string, number> {
+	const toolOf = new Map(testCases.map((tc) => [tc.id, tc.toolId]));
+	const totals = new Map<string, { credit: number; count: number }>();
+
+	for (const evaluation of candidate.evaluations) {
+		const toolId = toolOf.get(evaluation.testCaseId);
+		if (!toolId || evaluation.error) continue;
+		const total = totals.get(toolId) ?? { credit: 0, count: 0 };
+		total.credit += getCredit(evaluation);
+		total.count++;
+		totals.set(toolId, total);
+	}
+
+	return new Map(
+		Array.from(totals, ([toolId, { credit, count }]) => [
+			toolId,
+			credit / count,
+		]),
+	);
+}
+
+/**
+ * Length of one tool of a candidate - its description, or its definition
+ * tokens, as measured when the candidate was evaluated
+ */
+function getToolLength(
+	candidate: EvaluatedCandidate,
+	tool: Candidate["tools"][number],
+	lengthMetric: LengthMetric,
+): number {
+	return getObjectiveLength(
+		{
+			avgDescriptionLength: tool.description.length,
+			avgToolTokens: candidate.toolTokens[tool.name] ?? 0,
+		},
+		lengthMetric,
+	);
+}
+
+/**
+ * Combine two candidates tool by tool: each tool keeps the description of
+ * the parent that did better on its test cases, the shorter one (in
+ * lengthMetric units) on a tie
+ * Returns null when the result is the same as either parent
+ */
+export function mergeCandidates(
+	parent: EvaluatedCandidate,
+	mergeParent: EvaluatedCandidate,
+	testCases: TestCase[],
+	lengthMetric: LengthMetric = "characters",
+): Merge | null {
+	const scores = getToolScores(parent, testCases);
+	const mergeScores = getToolScores(mergeParent, testCases);
+	const toolSources: Record<string, string> = {};
+	let fromMergeParent = 0;
+
+	const tools = parent.tools.map((tool) => {
+		const other = mergeParent.tools.find((t) => t.id === tool.id);
+		if (!other || other.description === tool.description) {
+			toolSources[tool.name] = parent.id;
+			return tool;
+		}
+
+		const score = scores.get(tool.id) ?? 0;
+		const mergeScore = mergeScores.get(tool.id) ?? 0;
+		const takeOther =
+			mergeScore > score ||
+			(mergeScore === score &&
+				getToolLength(mergeParent, other, lengthMetric) <
+					getToolLength(parent, tool, lengthMetric));
+
+		toolSources[tool.name] = takeOther ? mergeParent.id : parent.id;
+		if (!takeOther) return tool;
+		fromMergeParent++;
+		return { ...tool, description: other.description };
+	});
+
+	// Same descriptions as one of the parents - nothing new to evaluate
+	const sameAsMergeParent = tools.every(
+		(tool) =>
+			mergeParent.tools.find((t) => t.id === tool.id)?.description ===
+			tool.description,
+	);
+	if (fromMergeParent === 0 || sameAsMergeParent) return null;
+
+	return {
+		parent,
+		mergeParent,
+		offspring: { id: crypto.randomUUID(), tools },
+		toolSources,
+	};
+}
+
+/**
+ * Key of a parent pair in findMerge's triedPairs, whichever parent is first
+ */
+export function getMergePairKey(idA: string, idB: string): string {
+	return [idA, idB].sort().join("|");
+}
+
+/**
+ * Find a merge of two Pareto-front candidates from different lineages
+ * (neither descends from the other) that gives a new combination
+ * Pairs already tried are skipped and recorded in triedPairs
+ */
+export function findMerge(
+	archive: Archive,
+	pareto: PerTaskPareto,
+	testCases: TestCase[],
+	triedPairs: Set<string>,
+	random: Random = Math.random,
+	lengthMetric: LengthMetric = "characters",
+): Merge | null {
+	const front = Array.from(pareto.dominanceCount.entries())
+		.filter(([id, count]) => count > 0 && archive.candidates.has(id))
+		.map(([id]) => archive.candidates.get(id) as EvaluatedCandidate);
+
+	const pairs: Array<[EvaluatedCandidate, EvaluatedCandidate]> = [];
+	for (let i = 0; i < front.length; i++) {
+		for (let j = i + 1; j < front.length; j++) {
+			const a = front[i] as EvaluatedCandidate;
+			const b = front[j] as EvaluatedCandidate;
+			if (triedPairs.has(getMergePairKey(a.id, b.id))) continue;
+			if (getAncestors(archive, a.id).has(b.id)) continue;
+			if (getAncestors(archive, b.id).has(a.id)) continue;
+			pairs.push(
+				getSelectionAccuracy(b) > getSelectionAccuracy(a) ? [b, a] : [a, b],
+			);
+		}
+	}
+
+	// Try pairs in random order until one gives a new combination
+	while (pairs.length > 0) {
+		const [pair] = pairs.splice(Math.floor(random() * pairs.length), 1);
+		if (!pair) break;
+		const [parent, mergeParent] = pair;
+		triedPairs.add(getMergePairKey(parent.id, mergeParent.id));
+
+		const merge = mergeCandidates(parent, mergeParent, testCases, lengthMetric);
+		if (merge) return merge;
+	}
+
+	return null;
+}
@@ -0,0 +1,233 @@
+import { createAnthropic } from "@ai-sdk/anthropic";
+import { createOpenAI } from "@ai-sdk/openai";
+import type { LanguageModel } from "ai";
+import type {
+	ModelDefinition,
+	ModelInfo,
+	ModelName,
+	ModelProviderConfig,
+	ModelProviderType,
+} from "../types";
+import { getLLMMode, withCassette } from "./cassette";
+import { BUILTIN_PROVIDERS, MODEL_PROVIDERS } from "./constants";
+import {
+	createScriptedModel,
+	parseToolSelectionPolicy,
+} from "./scripted-model";
+
+/**
+ * Model provider registry
+ * Built-in providers and models come from constants, additional providers
+ * (e.g. a local vLLM or Ollama endpoint) are registered at runtime from the DB
+ */
+const providers = new Map<string, ModelProviderConfig>();
+const models = new Map<ModelName, ModelDefinition>();
+
+// Provider instances are created lazily and dropped when a provider changes
+const languageModels = new Map<ModelName, LanguageModel>();
+
+for (const [id, provider] of Object.entries(BUILTIN_PROVIDERS)) {
+	providers.set(id, {
+		id,
+		name: provider.name,
+		type: provider.type,
+		baseUrl: "baseUrl" in provider ? provider.baseUrl : undefined,
+		apiKeyEnv: "apiKeyEnv" in provider ? provider.apiKeyEnv : undefined,
+		builtin: true,
+	});
+}
+
+for (const [name, model] of Object.entries(MODEL_PROVIDERS)) {
+	models.set(name, {
+		name,
+		providerId: model.provider,
+		modelId: model.modelId,
+	});
+}
+
+/**
+ * Register (or replace) a provider
+ */
+export function registerProvider(provider: ModelProviderConfig): void {
+	if (provider.type === "openai-compatible" && !provider.baseUrl) {
+		throw new Error(
+			`Provider ${provider.id} is OpenAI-compatible and requires a base URL`,
+		);
+	}
+
+	providers.set(provider.id, provider);
+
+	for (const model of models.values()) {
+		if (model.providerId === provider.id) {
+			languageModels.delete(model.name);
+		}
+	}
+}
+
+/**
+ * Remove a runtime provider and all of its models
+ */
+export function unregisterProvider(providerId: string): void {
+	const provider = providers.get(providerId);
+	if (!provider || provider.builtin) return;
+
+	providers.delete(providerId);
+	for (const model of Array.from(models.values())) {
+		if (model.providerId === providerId) {
+			models.delete(model.name);
+			languageModels.delete(model.name);
+		}
+	}
+}
+
+/**
+ * Register (or replace) a model for an existing provider
+ */
+export function registerModel(model: ModelDefinition): void {
+	if (!providers.has(model.providerId)) {
+		throw new Error(`Unknown provider: ${model.providerId}`);
+	}
+
+	models.set(model.name, model);
+	languageModels.delete(model.name);
+}
+
+/**
+ * Get a registered provider
+ */
+export function getProvider(
+	providerId: string,
+): ModelProviderConfig | undefined {
+	return providers.get(providerId);
+}
+
+/**
+ * List all registered providers
+ */
+export function listProviders(): ModelProviderConfig[] {
+	return Array.from(providers.values());
+}
+
+/**
+ * List all registered models with provider details
+ */
+export function listModels(): ModelInfo[] {
+	return Array.from(models.values()).map((model) => {
+		const provider = providers.get(model.providerId);
+		return {
+			...model,
+			providerName: provider?.name ?? model.providerId,
+			builtin: provider?.builtin ?? false,
+			available: provider ? isProviderConfigured(provider) : false,
+		};
+	});
+}
+
+/**
+ * Check whether a model name is registered
+ */
+export function hasModel(name: ModelName): boolean {
+	return models.has(name);
+}
+
+/**
+ * Provider type of a registered model
+ */
+export function getModelProviderType(
+	name: ModelName,
+): ModelProviderType | undefined {
+	const model = models.get(name);
+	return model ? providers.get(model.providerId)?.type : undefined;
+}
+
+/**
+ * What a registered model name currently points at - its provider, endpoint
+ * and provider-side model ID
+ */
+export function getModelEndpoint(name: ModelName):
+	| {
+			providerId: string;
+			type: ModelProviderType;
+			baseUrl?: string;
+			modelId: string;
+	  }
+	| undefined {
+	const model = models.get(name);
+	const provider = model && providers.get(model.providerId);
+	if (!model || !provider) return undefined;
+	return {
+		providerId: provider.id,
+		type: provider.type,
+		baseUrl: provider.baseUrl,
+		modelId: model.modelId,
+	};
+}
+
+/**
+ * Resolve a model name to an AI SDK language model
+ */
+export function getLanguageModel(name: ModelName): LanguageModel {
+	const cached = languageModels.get(name);
+	if (cached) return cached;
+
+	const model = models.get(name);
+	if (!model) {
+		throw new Error(`Unknown model: ${name}`);
+	}
+
+	const provider = providers.get(model.providerId);
+	if (!provider) {
+		throw new Error(`Unknown provider for model ${name}: ${model.providerId}`);
+	}
+
+	const baseModel = createLanguageModel(provider, model.modelId);
+
+	// Scripted models are already deterministic and offline
+	const mode = getLLMMode();
+	const languageModel =
+		mode === "live" || provider.type === "scripted"
+			? baseModel
+			: withCassette(baseModel, name, mode);
+
+	languageModels.set(name, languageModel);
+	return languageModel;
+}
+
+function resolveApiKey(provider: ModelProviderConfig): string | undefined {
+	if (provider.apiKey) return provider.apiKey;
+	if (provider.apiKeyEnv) return process.env[provider.apiKeyEnv];
+	return undefined;
+}
+
+/**
+ * Providers with a base URL (e.g. local endpoints) may not need a key
+ */
+function isProviderConfigured(provider: ModelProviderConfig): boolean {
+	if (provider.type === "scripted") return true;
+	if (resolveApiKey(provider)) return true;
+	return provider.type === "openai-compatible" && !provider.apiKeyEnv;
+}
+
+function createLanguageModel(
+	provider: ModelProviderConfig,
+	modelId: string,
+): Exclude<LanguageModel, string> {
+	const apiKey = resolveApiKey(provider);
+
+	switch (provider.type) {
+		case "anthropic":
+			return createAnthropic({ apiKey, baseURL: provider.baseUrl })(modelId);
+		case "openai":
+			return createOpenAI({ apiKey, baseURL: provider.baseUrl })(modelId);
+		case "openai-compatible":
+			// Compatible servers implement chat completions, not the responses API
+			return createOpenAI({
+				name: provider.id,
+				// Local servers usually ignore the key, but the SDK requires one
+				apiKey: apiKey ?? "not-needed",
+				baseURL: provider.baseUrl,
+			}).chat(modelId);
+		case "scripted":
+			return createScriptedModel(parseToolSelectionPolicy(modelId), modelId);
+	}
+}
@@ -1,23 +1,53 @@
 import type {
 	Candidate,
+	EvalResult,
 	EvaluatedCandidate,
+	HostContext,
+	LengthMetric,
 	ModelName,
 	ProgressEvent,
+	PromptTemplates,
 	TestCase,
+	TokenizerFamily,
+	Tool,
 } from "../types";
-import { reflect } from "./llm";
+import { REFLECTION_BATCH_SUCCESSES } from "./constants";
+import { formatConversation } from "./conversation";
+import { formatHostContext } from "./host-context";
+import { reflect, reflectOnBatch } from "./llm";
+import { renderPromptTemplate } from "./prompt-templates";
+import type { Random } from "./random";
+import { shuffle } from "./random";
+import { countTokens, formatLength } from "./tokenizer";
+import { formatExpectedCalls, getMissedTools } from "./tool-call-matcher";
+import type { UsageTracker } from "./usage";
 
 /**
  * Mutate a candidate by using LLM reflection on failures
+ * The offspring records the version of the prompt template that produced it
+ * With batchSize > 1 one reflection looks at up to batchSize failures at
+ * once and may rewrite every tool involved in them
+ * Conciseness targets are given in lengthMetric, so the model shortens the
+ * quantity the run scores
+ * Throws once signal is aborted - other reflection errors give an unchanged
+ * candidate
  */
 export async function mutateViaReflection(
 	candidate: EvaluatedCandidate,
 	testCases: TestCase[],
 	model: ModelName,
 	emit: (event: ProgressEvent) => void,
+	templates: PromptTemplates,
+	usage?: UsageTracker,
+	hostContext?: HostContext,
+	batchSize = 1,
+	signal?: AbortSignal,
+	random: Random = Math.random,
+	lengthMetric: LengthMetric = "characters",
+	tokenizer: TokenizerFamily = "generic",
 ): Promise<Candidate> {
-	// Find failures for this candidate
-	const failures = candidate.evaluations.filter((e) => !e.correct);
+	// Find failures for this candidate (failed LLM calls are not failures)
+	const failures = candidate.evaluations.filter((e) => !e.correct && !e.error);
 
 	if (failures.length === 0) {
 		// Perfect candidate - optimize for conciseness instead
@@ -26,8 +56,7 @@ export async function mutateViaReflection(
 		);
 
 		// Pick a random tool to make more concise
-		const tool =
-			candidate.tools[Math.floor(Math.random() * candidate.tools.length)];
+		const tool = candidate.tools[Math.floor(random() * candidate.tools.length)];
 
 		if (!tool) {
 			return {
@@ -48,55 +77,51 @@ export async function mutateViaReflection(
 		});
 
 		// Build other tool descriptions for context
-		const otherTools = candidate.tools
-			.filter((t) => t.name !== tool.name)
-			.map(
-				(t) =>
-					`- ${t.name}: "${t.description}"\n  Schema: ${JSON.stringify(t.inputSchema)}`,
-			)
-			.join("\n");
-
-		// Ask LLM to make description more concise
-		const concisePrompt = `You are optimizing tool descriptions for an LLM function calling system.
-
-Current tool:
-Name: ${tool.name}
-Description: "${tool.description}"
-Input Schema: ${JSON.stringify(tool.inputSchema, null, 2)}
-
-Other available tools:
-${otherTools}
-
-This tool's description is currently ${tool.description.length} characters.
-Your task: Make this description MORE CONCISE while maintaining the same meaning and functionality.
-
-Requirements:
-- Keep the exact same functionality and use case
-- The input schema shows what parameters this tool accepts - use this to understand what it does
-- Remove redundant words and phrases
-- Use shorter, clearer language
-- Maintain distinction from other tools
-- Target: under ${Math.max(50, Math.floor(tool.description.length * 0.75))} characters
-
-Return ONLY the new concise description, no explanation or quotes.`;
+		const otherTools = formatOtherTools(candidate.tools, [tool.name]);
+
+		// Ask LLM to make description more concise - 50 characters is about
+		// 12 tokens
+		const length =
+			lengthMetric === "tokens"
+				? countTokens(tool.description, tokenizer)
+				: tool.description.length;
+		const targetLength = Math.max(
+			lengthMetric === "tokens" ? 12 : 50,
+			Math.floor(length * 0.75),
+		);
+		const concisePrompt = renderPromptTemplate(templates.conciseness, {
+			toolName: tool.name,
+			description: tool.description,
+			inputSchema: JSON.stringify(tool.inputSchema, null, 2),
+			otherTools,
+			hostContext: formatHostContext(hostContext),
+			length,
+			targetLength,
+			unit: lengthMetric,
+		});
 
 		console.log("\n=== CONCISENESS OPTIMIZATION PROMPT ===");
 		console.log(`Tool: ${tool.name}`);
 		console.log(
-			`Current description (${tool.description.length} chars): "${tool.description}"`,
-		);
-		console.log(
-			`Target: ${Math.max(50, Math.floor(tool.description.length * 0.75))} chars`,
+			`Current description (${formatLength(length, lengthMetric)}): "${tool.description}"`,
 		);
+		console.log(`Target: ${formatLength(targetLength, lengthMetric)}`);
 		console.log("\nFull prompt:");
 		console.log(concisePrompt);
 		console.log("=== END PROMPT ===\n");
 
 		try {
-			const newDescription = await reflect(model, concisePrompt);
+			const { diagnosis, rationale, description } = await reflect(
+				model,
+				concisePrompt,
+				usage,
+				signal,
+			);
 			console.log("\n=== LLM RESPONSE ===");
+			console.log(`Diagnosis: ${diagnosis}`);
+			console.log(`Rationale: ${rationale}`);
 			console.log(
-				`New description (${newDescription.trim().length} chars): "${newDescription.trim()}"`,
+				`New description (${description.length} chars): "${description}"`,
 			);
 			console.log("=== END RESPONSE ===\n");
 
@@ -105,19 +130,23 @@ Return ONLY the new concise description, no explanation or quotes.`;
 				candidateId: candidate.id,
 				tool: tool.name,
 				oldDesc: tool.description || "",
-				newDesc: newDescription.trim(),
+				newDesc: description,
+				diagnosis,
+				rationale,
 			});
 
 			// Return new candidate with more concise description
 			return {
 				id: crypto.randomUUID(),
 				tools: candidate.tools.map((t) =>
-					t.name === tool.name
-						? { ...t, description: newDescription.trim() }
-						: t,
+					t.name === tool.name ? { ...t, description } : t,
 				),
+				promptVersions: { conciseness: templates.conciseness.version },
+				diagnosis,
+				rationale,
 			};
 		} catch (error) {
+			if (signal?.aborted) throw error;
 			console.error("Error during conciseness optimization:", error);
 			// Return unchanged candidate with new ID on error
 			return {
@@ -127,26 +156,46 @@ Return ONLY the new concise description, no explanation or quotes.`;
 		}
 	}
 
+	if (batchSize > 1) {
+		return mutateViaBatchReflection(
+			candidate,
+			failures,
+			testCases,
+			model,
+			emit,
+			templates,
+			batchSize,
+			usage,
+			hostContext,
+			signal,
+			random,
+		);
+	}
+
 	// Pick a random failure to address
-	const failure = failures[Math.floor(Math.random() * failures.length)];
+	const failure = failures[Math.floor(random() * failures.length)];
 	if (!failure) {
 		return {
 			id: crypto.randomUUID(),
 			tools: candidate.tools,
 		};
 	}
-	const tool = candidate.tools.find((t) => t.name === failure.expectedTool);
-
-	if (!tool) {
-		// Tool not found, return as-is
+	const testCase = testCases.find((tc) => tc.id === failure.testCaseId);
+	if (!testCase) {
 		return {
 			id: crypto.randomUUID(),
 			tools: candidate.tools,
 		};
 	}
 
-	const testCase = testCases.find((tc) => tc.id === failure.testCaseId);
-	if (!testCase) {
+	const { expectedTool, selectedTool, implicated } = describeFailure(
+		testCase,
+		failure,
+	);
+	const tool = candidate.tools.find((t) => t.name === implicated[0]);
+
+	if (!tool) {
+		// Tool not found, return as-is
 		return {
 			id: crypto.randomUUID(),
 			tools: candidate.tools,
@@ -159,64 +208,58 @@ Return ONLY the new concise description, no explanation or quotes.`;
 		tool: tool.name,
 		failure: {
 			query: testCase.query,
-			selected: failure.selectedTool,
-			expected: failure.expectedTool,
+			selected: testCase.expectedCalls ? selectedTool : failure.selectedTool,
+			expected: expectedTool,
 		},
 	});
 
 	// Build other tool descriptions for context
-	const otherTools = candidate.tools
-		.filter((t) => t.name !== tool.name)
-		.map(
-			(t) =>
-				`- ${t.name}: "${t.description}"\n  Schema: ${JSON.stringify(t.inputSchema)}`,
-		)
-		.join("\n");
+	const otherTools = formatOtherTools(candidate.tools, [tool.name]);
+	const { argumentFailure, conversation } = formatFailureDetails(
+		testCase,
+		failure,
+	);
 
 	// Ask LLM to reflect and improve description
-	const reflectionPrompt = `You are optimizing tool descriptions for an LLM function calling system.
-
-Current tool:
-Name: ${tool.name}
-Description: "${tool.description}"
-Input Schema: ${JSON.stringify(tool.inputSchema, null, 2)}
-
-Other available tools:
-${otherTools}
-
-This description caused a failure:
-- User query: "${testCase.query}"
-- Expected tool: ${failure.expectedTool}
-- LLM selected: ${failure.selectedTool || "none"}
-
-The input schema shows what parameters this tool accepts. Use this to understand what distinguishes this tool from others.
-
-Rewrite ONLY the description for "${tool.name}" to fix this issue.
-Requirements:
-- Keep it concise (under 200 characters)
-- Make the use case more specific based on the input parameters
-- Distinguish it clearly from other tools (check their schemas too)
-- Focus on WHEN to use this tool and what it does
-- Use the schema to inform your description - what can this tool do that others can't?
-
-Return ONLY the new description, no explanation or quotes.`;
+	const reflectionPrompt = renderPromptTemplate(templates.reflection, {
+		toolName: tool.name,
+		description: tool.description,
+		inputSchema: JSON.stringify(tool.inputSchema, null, 2),
+		otherTools,
+		hostContext: formatHostContext(hostContext),
+		query: testCase.query,
+		conversation,
+		expectedTool,
+		selectedTool: `${selectedTool}${failure.model ? ` (model: ${failure.model})` : ""}`,
+		argumentFailure,
+	});
 
 	console.log("\n=== FAILURE-BASED REFLECTION PROMPT ===");
 	console.log(`Tool: ${tool.name}`);
 	console.log(`Current description (${tool.description.length} chars): "${tool.description}"`);
 	console.log(`\nFailure details:`);
 	console.log(`  Query: "${testCase.query}"`);
-	console.log(`  Expected: ${failure.expectedTool}`);
-	console.log(`  Selected: ${failure.selectedTool || "none"}`);
+	console.log(`  Expected: ${expectedTool}`);
+	console.log(`  Selected: ${selectedTool}`);
+	if (failure.argumentErrors?.length) {
+		console.log(`  Argument errors: ${failure.argumentErrors.join("; ")}`);
+	}
 	console.log("\nFull prompt:");
 	console.log(reflectionPrompt);
 	console.log("=== END PROMPT ===\n");
 
 	try {
-		const newDescription = await reflect(model, reflectionPrompt);
+		const { diagnosis, rationale, description } = await reflect(
+			model,
+			reflectionPrompt,
+			usage,
+			signal,
+		);
 		console.log("\n=== LLM RESPONSE ===");
+		console.log(`Diagnosis: ${diagnosis}`);
+		console.log(`Rationale: ${rationale}`);
 		console.log(
-			`New description (${newDescription.trim().length} chars): "${newDescription.trim()}"`,
+			`New description (${description.length} chars): "${description}"`,
 		);
 		console.log("=== END RESPONSE ===\n");
 
@@ -225,17 +268,23 @@ Return ONLY the new description, no explanation or quotes.`;
 			candidateId: candidate.id,
 			tool: tool.name,
 			oldDesc: tool.description || "",
-			newDesc: newDescription.trim(),
+			newDesc: description,
+			diagnosis,
+			rationale,
 		});
 
 		// Return new candidate with mutated tool
 		return {
 			id: crypto.randomUUID(),
 			tools: candidate.tools.map((t) =>
-				t.name === tool.name ? { ...t, description: newDescription.trim() } : t,
+				t.name === tool.name ? { ...t, description } : t,
 			),
+			promptVersions: { reflection: templates.reflection.version },
+			diagnosis,
+			rationale,
 		};
 	} catch (error) {
+		if (signal?.aborted) throw error;
 		console.error("Error during mutation:", error);
 		// Return unchanged candidate with new ID on error
 		return {
@@ -244,3 +293,253 @@ Return ONLY the new description, no explanation or quotes.`;
 		};
 	}
 }
+
+/**
+ * Minibatch reflection: a random sample of failures, plus a few passing
+ * queries to keep working, in one prompt - the answer rewrites any of the
+ * tools the failures implicate (expected tools and the ones picked instead)
+ */
+async function mutateViaBatchReflection(
+	candidate: EvaluatedCandidate,
+	failures: EvalResult[],
+	testCases: TestCase[],
+	model: ModelName,
+	emit: (event: ProgressEvent) => void,
+	templates: PromptTemplates,
+	batchSize: number,
+	usage?: UsageTracker,
+	hostContext?: HostContext,
+	signal?: AbortSignal,
+	random: Random = Math.random,
+): Promise<Candidate> {
+	const testCaseById = new Map(testCases.map((tc) => [tc.id, tc]));
+	const batch = shuffle(failures, random)
+		.flatMap((failure) => {
+			const testCase = testCaseById.get(failure.testCaseId);
+			return testCase
+				? [{ failure, testCase, ...describeFailure(testCase, failure) }]
+				: [];
+		})
+		.slice(0, batchSize);
+
+	// Tests that fail on one model can pass on another - keep those out
+	const failingIds = new Set(failures.map((f) => f.testCaseId));
+	const successes = shuffle(
+		Array.from(
+			new Set(
+				candidate.evaluations
+					.filter((e) => e.correct && !e.error && !failingIds.has(e.testCaseId))
+					.map((e) => testCaseById.get(e.testCaseId)?.query)
+					.filter((query): query is string => !!query),
+			),
+		),
+		random,
+	).slice(0, REFLECTION_BATCH_SUCCESSES);
+
+	const implicated = new Set(batch.flatMap((item) => item.implicated));
+	const tools = candidate.tools.filter((t) => implicated.has(t.name));
+	const [first] = batch;
+
+	if (!first || tools.length === 0) {
+		return {
+			id: crypto.randomUUID(),
+			tools: candidate.tools,
+		};
+	}
+
+	const toolNames = tools.map((t) => t.name);
+	emit({
+		type: "reflection_start",
+		candidateId: candidate.id,
+		tool: toolNames.join(", "),
+		failure: {
+			query:
+				batch.length > 1
+					? `${first.testCase.query} (+${batch.length - 1} more failures)`
+					: first.testCase.query,
+			selected: first.testCase.expectedCalls
+				? first.selectedTool
+				: first.failure.selectedTool,
+			expected: first.expectedTool,
+		},
+	});
+
+	const failureBlock = batch
+		.map(({ failure, testCase, expectedTool, selectedTool }, i) => {
+			const { argumentFailure, conversation } = formatFailureDetails(
+				testCase,
+				failure,
+			);
+			return `Failure ${i + 1}:\n- User query: "${testCase.query}"${conversation}\n- Expected tool: ${expectedTool}\n- LLM selected: ${selectedTool}${failure.model ? ` (model: ${failure.model})` : ""}${argumentFailure}`;
+		})
+		.join("\n\n");
+
+	const batchPrompt = renderPromptTemplate(templates["batch-reflection"], {
+		tools: tools
+			.map(
+				(t) =>
+					`Name: ${t.name}\nDescription: "${t.description}"\nInput Schema: ${JSON.stringify(t.inputSchema, null, 2)}`,
+			)
+			.join("\n\n"),
+		otherTools: formatOtherTools(candidate.tools, toolNames) || "(none)",
+		hostContext: formatHostContext(hostContext),
+		failures: failureBlock,
+		successes:
+			successes.map((query) => `- "${query}"`).join("\n") || "(none yet)",
+	});
+
+	console.log("\n=== MINIBATCH REFLECTION PROMPT ===");
+	console.log(`Tools: ${toolNames.join(", ")}`);
+	console.log(
+		`Failures: ${batch.length} of ${failures.length} | Successes shown: ${successes.length}`,
+	);
+	console.log("\nFull prompt:");
+	console.log(batchPrompt);
+	console.log("=== END PROMPT ===\n");
+
+	try {
+		const { diagnosis, rationale, descriptions } = await reflectOnBatch(
+			model,
+			batchPrompt,
+			toolNames,
+			usage,
+			signal,
+		);
+		console.log("\n=== LLM RESPONSE ===");
+		console.log(`Diagnosis: ${diagnosis}`);
+		console.log(`Rationale: ${rationale}`);
+		for (const { tool, description } of descriptions) {
+			console.log(
+				`New description for ${tool} (${description.length} chars): "${description}"`,
+			);
+		}
+		console.log("=== END RESPONSE ===\n");
+
+		const newDescriptions = new Map(
+			descriptions.map(({ tool, description }) => [tool, description]),
+		);
+		for (const tool of tools) {
+			const description = newDescriptions.get(tool.name);
+			if (description === undefined) continue;
+			emit({
+				type: "reflection_done",
+				candidateId: candidate.id,
+				tool: tool.name,
+				oldDesc: tool.description || "",
+				newDesc: description,
+				diagnosis,
+				rationale,
+			});
+		}
+
+		// Return new candidate with every rewritten tool
+		return {
+			id: crypto.randomUUID(),
+			tools: candidate.tools.map((t) => {
+				const description = newDescriptions.get(t.name);
+				return description === undefined ? t : { ...t, description };
+			}),
+			promptVersions: {
+				"batch-reflection": templates["batch-reflection"].version,
+			},
+			diagnosis,
+			rationale,
+		};
+	} catch (error) {
+		if (signal?.aborted) throw error;
+		console.error("Error during minibatch reflection:", error);
+		// Return unchanged candidate with new ID on error
+		return {
+			id: crypto.randomUUID(),
+			tools: candidate.tools,
+		};
+	}
+}
+
+/**
+ * What a failure expected and got, and the tools it implicates
+ * - abstention: the tools that were called when none should be
+ * - multi-tool: the expected tools that were not called (the first
+ *   expected tool when the order was wrong) and any extra tools called
+ * - single tool: the expected tool, and the tool picked instead
+ * The first implicated tool is the one a single reflection rewrites
+ */
+function describeFailure(
+	testCase: TestCase,
+	failure: EvalResult,
+): { expectedTool: string; selectedTool: string; implicated: string[] } {
+	const selectedTools = failure.selectedTools ?? [];
+
+	if (testCase.shouldCall === false) {
+		return {
+			expectedTool:
+				"none - the query should be answered without calling a tool",
+			selectedTool: failure.selectedTool || "none",
+			implicated: selectedTools.length
+				? selectedTools
+				: failure.selectedTool
+					? [failure.selectedTool]
+					: [],
+		};
+	}
+
+	if (testCase.expectedCalls) {
+		const missed = getMissedTools(testCase.expectedCalls, selectedTools);
+		const extra = selectedTools.filter(
+			(tool) => !testCase.expectedCalls?.tools.includes(tool),
+		);
+		return {
+			expectedTool: formatExpectedCalls(testCase.expectedCalls),
+			selectedTool: selectedTools.join(", ") || "none",
+			implicated: [
+				...(missed.length ? missed : [failure.expectedTool]),
+				...extra,
+			],
+		};
+	}
+
+	return {
+		expectedTool: failure.expectedTool,
+		selectedTool: failure.selectedTool || "none",
+		implicated:
+			failure.selectedTool && failure.selectedTool !== failure.expectedTool
+				? [failure.expectedTool, failure.selectedTool]
+				: [failure.expectedTool],
+	};
+}
+
+/**
+ * Context lines for the tools not under review
+ */
+function formatOtherTools(tools: Tool[], reviewed: string[]): string {
+	return tools
+		.filter((t) => !reviewed.includes(t.name))
+		.map(
+			(t) =>
+				`- ${t.name}: "${t.description}"\n  Schema: ${JSON.stringify(t.inputSchema)}`,
+		)
+		.join("\n");
+}
+
+/**
+ * Prompt lines for the argument problems and multi-turn history of a
+ * failure, empty when there are none
+ */
+function formatFailureDetails(
+	testCase: TestCase,
+	failure: EvalResult,
+): { argumentFailure: string; conversation: string } {
+	return {
+		// Right tool, wrong arguments - show what was wrong with them
+		argumentFailure: failure.argumentErrors?.length
+			? `\n- Arguments produced: ${JSON.stringify(failure.arguments ?? {})}\n- Argument problems:\n${failure.argumentErrors.map((e) => `  - ${e}`).join("\n")}`
+			: "",
+		// Multi-turn failure - show the conversation leading up to the query
+		conversation: testCase.messages
+			? `\n- Conversation so far:\n${formatConversation(testCase.messages)
+					.split("\n")
+					.map((line) => `  ${line}`)
+					.join("\n")}`
+			: "",
+	};
+}
@@ -1,5 +1,11 @@
-import type { EvalResult, EvaluatedCandidate, TestCase } from "../types";
+import type {
+	EvalResult,
+	EvaluatedCandidate,
+	ModelName,
+	TestCase,
+} from "../types";
 import type { Archive } from "./archive";
+import { getCredit, getTaskKey } from "./robustness";
 
 /**
  * Per-task Pareto front structure
@@ -12,11 +18,21 @@ export interface PerTaskPareto {
 
 /**
  * Create per-task Pareto structure for given test cases
+ * With several evaluation models every (test case, model) pair is a task
  */
-export function createPerTaskPareto(testCases: TestCase[]): PerTaskPareto {
+export function createPerTaskPareto(
+	testCases: TestCase[],
+	models: ModelName[] = [],
+): PerTaskPareto {
 	const taskFronts = new Map<string, Set<string>>();
 	for (const testCase of testCases) {
-		taskFronts.set(testCase.id, new Set());
+		if (models.length > 1) {
+			for (const model of models) {
+				taskFronts.set(getTaskKey(testCase.id, model), new Set());
+			}
+		} else {
+			taskFronts.set(testCase.id, new Set());
+		}
 	}
 	return {
 		taskFronts,
@@ -27,16 +43,19 @@ export function createPerTaskPareto(testCases: TestCase[]): PerTaskPareto {
 /**
  * Update per-task Pareto fronts with new candidate
  * Checks dominance on each task and updates fronts accordingly
+ * Returns the number of fronts it improved - dominated a member of, or was
+ * the first valid evaluation on (ties join a front without improving it)
  */
 export function updatePerTaskPareto(
 	pareto: PerTaskPareto,
 	newCandidate: EvaluatedCandidate,
 	archive: Archive,
-): void {
+): number {
+	let improved = 0;
 	for (const evaluation of newCandidate.evaluations) {
-		const testCaseId = evaluation.testCaseId;
-		const front = pareto.taskFronts.get(testCaseId);
-		if (!front) continue;
+		const { testCaseId, model } = evaluation;
+		const front = pareto.taskFronts.get(getTaskKey(testCaseId, model));
+		if (!front || evaluation.error) continue;
 
 		const toRemove: string[] = [];
 		let isDominated = false;
@@ -46,7 +65,9 @@ export function updatePerTaskPareto(
 			if (!existing) continue;
 
 			const existingEvaluation = existing.evaluations.find(
-				(evaluation_inner) => evaluation_inner.testCaseId === testCaseId,
+				(evaluation_inner) =>
+					evaluation_inner.testCaseId === testCaseId &&
+					evaluation_inner.model === model,
 			);
 			if (!existingEvaluation) continue;
 
@@ -63,6 +84,7 @@ export function updatePerTaskPareto(
 		}
 
 		if (!isDominated) {
+			if (toRemove.length > 0 || front.size === 0) improved++;
 			for (const id of toRemove) {
 				front.delete(id);
 				pareto.dominanceCount.set(id, (pareto.dominanceCount.get(id) || 0) - 1);
@@ -74,13 +96,17 @@ export function updatePerTaskPareto(
 			);
 		}
 	}
+
+	return improved;
 }
 
 /**
  * Check if candidate a dominates candidate b on specific task
  * Dominance criteria:
- * - a is correct and b is not, OR
- * - both correct but a has shorter description
+ * - a has more credit than b (correct vs not, or more of a multi-tool
+ *   expectation), OR
+ * - same non-zero credit but a is shorter (in the run's length metric)
+ * Failed evaluations are invalid and never dominate or get dominated
  */
 function dominatesOnTask(
 	candidateA: EvaluatedCandidate,
@@ -88,74 +114,24 @@ function dominatesOnTask(
 	evaluationA: EvalResult,
 	evaluationB: EvalResult,
 ): boolean {
-	if (evaluationA.correct && !evaluationB.correct) return true;
-	if (!evaluationA.correct) return false;
-	return candidateA.avgDescriptionLength < candidateB.avgDescriptionLength;
-}
-
-/**
- * Select parent using weighted sampling based on dominance count
- * Candidates that dominate on more tasks have higher selection probability
- * Temperature controls exploration: higher = more uniform, lower = more greedy
- */
-export function selectParentWeighted(
-	pareto: PerTaskPareto,
-	archive: Archive,
-	temperature = 1.0,
-): EvaluatedCandidate | null {
-	const candidatesWithCounts = Array.from(pareto.dominanceCount.entries())
-		.filter(([_id, count]) => count > 0)
-		.map(([id, count]) => ({ id, count }));
-
-	if (candidatesWithCounts.length === 0) {
-		// Fallback: random from archive
-		const candidates = Array.from(archive.candidates.keys());
-		if (candidates.length === 0) return null;
-		const randomId = candidates[Math.floor(Math.random() * candidates.length)];
-		if (!randomId) return null;
-		const selected = archive.candidates.get(randomId);
-		return selected ?? null;
-	}
-
-	// Apply temperature to dominance counts
-	// temperature = 1.0: linear weighting (original behavior)
-	// temperature > 1.0: more exploration (flatter distribution)
-	// temperature < 1.0: more exploitation (sharper distribution)
-	const weights = candidatesWithCounts.map(({ count }) =>
-		Math.exp(count / temperature),
-	);
-	const totalWeight = weights.reduce((sum, w) => sum + w, 0);
-
-	// Sample using cumulative probabilities
-	const rand = Math.random() * totalWeight;
-	let cumulative = 0;
-	for (let i = 0; i < candidatesWithCounts.length; i++) {
-		const weight = weights[i];
-		const candidate = candidatesWithCounts[i];
-		if (weight === undefined || candidate === undefined) continue;
-
-		cumulative += weight;
-		if (rand <= cumulative) {
-			const selected = archive.candidates.get(candidate.id);
-			return selected ?? null;
-		}
-	}
-
-	// Fallback (shouldn't reach here, but just in case)
-	const lastCandidate = candidatesWithCounts[candidatesWithCounts.length - 1];
-	if (!lastCandidate) return null;
-	return archive.candidates.get(lastCandidate.id) ?? null;
+	if (evaluationA.error || evaluationB.error) return false;
+	const creditA = getCredit(evaluationA);
+	const creditB = getCredit(evaluationB);
+	if (creditA !== creditB) return creditA > creditB;
+	if (creditA === 0) return false;
+	return candidateA.objectiveLength < candidateB.objectiveLength;
 }
 
 /**
- * Calculate maximum average description length across all candidates in archive
+ * Calculate maximum objective length (characters or tokens) across all
+ * candidates in archive
  * Used for normalizing conciseness scores
  */
-function calculateMaxLength(archive: Archive): number {
+export function calculateMaxLength(archive: Archive): number {
 	let maxLength = 0;
 	for (const candidate of archive.candidates.values()) {
-		if (candidate.avgDescriptionLength > maxLength) {
-			maxLength = candidate.avgDescriptionLength;
+		if (candidate.objectiveLength > maxLength) {
+			maxLength = candidate.objectiveLength;
 		}
 	}
 	return maxLength;
@@ -174,85 +150,38 @@ function calculateConcisenessScore(
 	return Math.max(0, Math.min(1, score)); // Clamp to [0, 1]
 }
 
+/**
+ * Accuracy that selection, merges and stopping compare - the validation
+ * score on split runs, robustness on multi-model runs, accuracy otherwise
+ */
+export function getSelectionAccuracy(candidate: EvaluatedCandidate): number {
+	return (
+		candidate.validationScore ?? candidate.robustness ?? candidate.accuracy
+	);
+}
+
 /**
  * Calculate global weighted score combining accuracy and conciseness
  * Score = accuracy * accuracyWeight + concisenessScore * (1 - accuracyWeight)
- * Both components normalized to [0, 1], result is also in [0, 1]
+ * The accuracy term is getSelectionAccuracy
+ * With repeated sampling, stabilityWeight takes that share of the score for
+ * selection stability (single-sample candidates count as fully stable)
+ * All components normalized to [0, 1], result is also in [0, 1]
  */
-function calculateGlobalScore(
+export function calculateGlobalScore(
 	candidate: EvaluatedCandidate,
 	maxLength: number,
 	accuracyWeight: number,
+	stabilityWeight = 0,
 ): number {
 	const concisenessScore = calculateConcisenessScore(
-		candidate.avgDescriptionLength,
+		candidate.objectiveLength,
 		maxLength,
 	);
+	const score =
+		getSelectionAccuracy(candidate) * accuracyWeight +
+		concisenessScore * (1 - accuracyWeight);
 	return (
-		candidate.accuracy * accuracyWeight +
-		concisenessScore * (1 - accuracyWeight)
-	);
-}
-
-/**
- * Select parent using weighted sampling based on global scores
- * Global score combines accuracy and conciseness using accuracyWeight
- * Temperature controls exploration: higher = more uniform, lower = more greedy
- * Only candidates meeting minAccuracy threshold are eligible for selection
- */
-export function selectParentWeightedByGlobalScore(
-	archive: Archive,
-	accuracyWeight: number,
-	temperature: number,
-	minAccuracy: number,
-): EvaluatedCandidate | null {
-	let candidates = Array.from(archive.candidates.values());
-	if (candidates.length === 0) return null;
-
-	// Filter candidates by minimum accuracy threshold
-	const qualifiedCandidates = candidates.filter(
-		(c) => c.accuracy >= minAccuracy,
+		score * (1 - stabilityWeight) + (candidate.stability ?? 1) * stabilityWeight
 	);
-
-	// If no candidates meet threshold, fall back to all candidates
-	// (This can happen early in optimization when only baseline exists)
-	if (qualifiedCandidates.length > 0) {
-		candidates = qualifiedCandidates;
-	}
-
-	// Calculate max length for normalization
-	const maxLength = calculateMaxLength(archive);
-
-	// Calculate global score for each candidate
-	const candidatesWithScores = candidates.map((candidate) => ({
-		candidate,
-		score: calculateGlobalScore(candidate, maxLength, accuracyWeight),
-	}));
-
-	// Apply exponential weighting with temperature
-	// temperature = 1.0: linear weighting on scores
-	// temperature > 1.0: more exploration (flatter distribution)
-	// temperature < 1.0: more exploitation (sharper distribution)
-	const weights = candidatesWithScores.map(({ score }) =>
-		Math.exp(score / temperature),
-	);
-	const totalWeight = weights.reduce((sum, w) => sum + w, 0);
-
-	// Sample using cumulative probabilities
-	const rand = Math.random() * totalWeight;
-	let cumulative = 0;
-	for (let i = 0; i < candidatesWithScores.length; i++) {
-		const weight = weights[i];
-		const item = candidatesWithScores[i];
-		if (weight === undefined || item === undefined) continue;
-
-		cumulative += weight;
-		if (rand <= cumulative) {
-			return item.candidate;
-		}
-	}
-
-	// Fallback (shouldn't reach here, but just in case)
-	const lastItem = candidatesWithScores[candidatesWithScores.length - 1];
-	return lastItem?.candidate ?? null;
 }
@@ -0,0 +1,438 @@
+import { db } from "../db";
+import * as schema from "../db/schema";
+import type {
+	PromptTemplate,
+	PromptTemplateName,
+	PromptTemplates,
+} from "../types";
+
+type PromptTemplateDefinition = {
+	description: string;
+	variables: string[];
+	template: string;
+};
+
+const TOOL_VARIABLES = [
+	"toolName",
+	"description",
+	"inputSchema", // Pretty-printed JSON
+	"otherTools", // One "- name: description" line (plus schema) per other tool
+	"hostContext", // Formatted host context section, empty when unset
+];
+
+const VARIATION_VARIABLES = [
+	"context", // Rendered variation-context template
+	"targetLength", // 70% of the current description length in the run's length metric, at least 50 characters or 12 tokens
+];
+
+/**
+ * Built-in variation prompt: the shared context, then the task
+ */
+function variation(task: string, focus: string[], maxLength: number): string {
+	return `{{context}}
+
+Task: ${task}
+
+Focus on:
+${focus.map((line) => `- ${line}`).join("\n")}
+
+Requirements:
+- Keep functionality identical
+- Maximum ${maxLength} characters
+
+Answer with a diagnosis of what the current description lacks for this task, the rationale for your rewrite, and the new description on its own - no explanation or quotes inside it.`;
+}
+
+/**
+ * Built-in templates (version 0) and the variables each one can use
+ */
+export const PROMPT_TEMPLATES: Record<
+	PromptTemplateName,
+	PromptTemplateDefinition
+> = {
+	reflection: {
+		description: "GEPA mutation: rewrite a description after a failed test",
+		variables: [
+			...TOOL_VARIABLES,
+			"query",
+			"conversation", // Multi-turn history block, empty for single-turn tests
+			"expectedTool",
+			"selectedTool", // Includes the model on multi-model runs
+			"argumentFailure", // Argument problems block, empty when the tool was wrong
+		],
+		template: `You are optimizing tool descriptions for an LLM function calling system.
+
+Current tool:
+Name: {{toolName}}
+Description: "{{description}}"
+Input Schema: {{inputSchema}}
+
+Other available tools:
+{{otherTools}}
+
+{{hostContext}}This description caused a failure:
+- User query: "{{query}}"{{conversation}}
+- Expected tool: {{expectedTool}}
+- LLM selected: {{selectedTool}}{{argumentFailure}}
+
+The input schema shows what parameters this tool accepts. Use this to understand what distinguishes this tool from others.
+
+Rewrite ONLY the description for "{{toolName}}" to fix this issue.
+Requirements:
+- Keep it concise (under 200 characters)
+- Make the use case more specific based on the input parameters
+- Distinguish it clearly from other tools (check their schemas too)
+- Focus on WHEN to use this tool and what it does
+- Use the schema to inform your description - what can this tool do that others can't?
+
+Answer with a diagnosis of why the current description failed, the rationale for your rewrite, and the new description on its own - no explanation or quotes inside it.`,
+	},
+	"batch-reflection": {
+		description:
+			"GEPA mutation: rewrite several descriptions after a minibatch of failures",
+		variables: [
+			"tools", // Name, description and schema of each tool under review
+			"otherTools", // One "- name: description" line (plus schema) per other tool
+			"hostContext", // Formatted host context section, empty when unset
+			"failures", // Numbered failures: query, conversation, expected, selected, argument problems
+			"successes", // Queries the current descriptions handle, one per line
+		],
+		template: `You are optimizing tool descriptions for an LLM function calling system.
+
+Tools under review:
+{{tools}}
+
+Other available tools:
+{{otherTools}}
+
+{{hostContext}}These descriptions caused the following failures:
+{{failures}}
+
+These queries currently work and must keep working:
+{{successes}}
+
+Look for the pattern behind the failures. A query can go wrong because the expected tool's description does not claim it, or because another tool's description attracts it - fix whichever descriptions are responsible, possibly several.
+Requirements:
+- Keep each description concise (under 200 characters)
+- Make each use case specific, based on the input parameters
+- Distinguish the tools clearly from each other and from the other tools
+- Focus on WHEN to use each tool and what it does
+- Only rewrite tools that need it, and do not break the working queries
+
+Answer with a diagnosis of what the failures have in common, the rationale for your rewrites, and one entry per changed tool with its name and new description - no explanation or quotes inside the descriptions.`,
+	},
+	conciseness: {
+		description: "GEPA mutation: shorten a description when nothing fails",
+		variables: [
+			...TOOL_VARIABLES,
+			"length", // Current description length, in the run's length metric
+			"targetLength", // 75% of the current length, at least 50 characters or 12 tokens
+			"unit", // "characters" or "tokens"
+		],
+		template: `You are optimizing tool descriptions for an LLM function calling system.
+
+Current tool:
+Name: {{toolName}}
+Description: "{{description}}"
+Input Schema: {{inputSchema}}
+
+Other available tools:
+{{otherTools}}
+
+{{hostContext}}This tool's description is currently {{length}} {{unit}}.
+Your task: Make this description MORE CONCISE while maintaining the same meaning and functionality.
+
+Requirements:
+- Keep the exact same functionality and use case
+- The input schema shows what parameters this tool accepts - use this to understand what it does
+- Remove redundant words and phrases
+- Use shorter, clearer language
+- Maintain distinction from other tools
+- Target: under {{targetLength}} {{unit}}
+
+Answer with a diagnosis of what can be cut, the rationale for your rewrite, and the new concise description on its own - no explanation or quotes inside it.`,
+	},
+	"variation-context": {
+		description: "Golden optimizer: shared opening of every variation prompt",
+		variables: TOOL_VARIABLES,
+		template: `You are optimizing tool descriptions for an LLM function calling system.
+
+Target tool:
+Name: {{toolName}}
+Description: "{{description}}"
+Input Schema: {{inputSchema}}
+
+Other available tools (with their schemas):
+{{otherTools}}
+
+{{hostContext}}Use the input schemas to understand what makes each tool unique and what parameters they accept.`,
+	},
+	"variation-clarity": {
+		description: "Golden optimizer: clearer variation",
+		variables: VARIATION_VARIABLES,
+		template: variation(
+			"Rewrite this description to be CLEARER and easier to understand.",
+			[
+				"Use simple, direct language",
+				"Remove ambiguous terms",
+				"Make the purpose immediately obvious",
+				"Explain what the tool does in plain terms",
+			],
+			200,
+		),
+	},
+	"variation-specificity": {
+		description: "Golden optimizer: more specific variation",
+		variables: VARIATION_VARIABLES,
+		template: variation(
+			"Rewrite this description to be MORE SPECIFIC about when and how to use this tool.",
+			[
+				"Add specific use cases and scenarios",
+				"Clarify exact capabilities and limitations",
+				"Distinguish from similar tools",
+				"Include concrete examples of what it handles",
+			],
+			250,
+		),
+	},
+	"variation-conciseness": {
+		description: "Golden optimizer: shorter variation",
+		variables: [
+			...VARIATION_VARIABLES,
+			"unit", // "characters" or "tokens"
+		],
+		template: `{{context}}
+
+Task: Make this description MORE CONCISE while preserving all essential information.
+
+Focus on:
+- Remove redundant words
+- Use shorter phrasing
+- Keep only critical information
+- Maintain clarity despite brevity
+
+Requirements:
+- Keep functionality identical
+- Target: under {{targetLength}} {{unit}}
+
+Answer with a diagnosis of what can be cut, the rationale for your rewrite, and the new concise description on its own - no explanation or quotes inside it.`,
+	},
+	"variation-edge-cases": {
+		description: "Golden optimizer: variation that rules out false positives",
+		variables: VARIATION_VARIABLES,
+		template: variation(
+			"Rewrite this description to better handle EDGE CASES and avoid false positives.",
+			[
+				"Explicitly state when NOT to use this tool",
+				"Add constraints and boundaries",
+				"Clarify what's outside the scope",
+				"Prevent confusion with similar tools",
+			],
+			250,
+		),
+	},
+	"variation-precision": {
+		description: "Golden optimizer: precision-focused variation",
+		variables: VARIATION_VARIABLES,
+		template: variation(
+			"Optimize this description for PRECISION (avoiding false positives).",
+			[
+				"Be very specific about exact use cases",
+				'Add exclusionary language ("only for...", "specifically when...")',
+				"Narrow the scope to prevent incorrect selection",
+				"Distinguish clearly from other tools",
+			],
+			200,
+		),
+	},
+	"variation-recall": {
+		description: "Golden optimizer: recall-focused variation",
+		variables: VARIATION_VARIABLES,
+		template: variation(
+			"Optimize this description for RECALL (catching all valid uses).",
+			[
+				"Broaden language to cover all use cases",
+				"Include alternative phrasings users might use",
+				"Ensure indirect invocations are captured",
+				"Cover different ways users might express the need",
+			],
+			200,
+		),
+	},
+	"test-generation": {
+		description: "Test case generation for one tool",
+		variables: [
+			"count",
+			"toolName",
+			"description",
+			"inputSchema",
+			"customInstructions", // User's extra instructions block, empty when unset
+		],
+		template: `Generate {{count}} diverse user queries that should trigger this tool:
+
+Tool: {{toolName}}
+Description: {{description}}
+Input schema: {{inputSchema}}
+
+Requirements:
+- Each query should be a natural user question or command
+- Queries should vary in phrasing and specificity
+- Queries should consider direct and indirect invocations of the tool
+- All queries should clearly map to this tool's purpose{{customInstructions}}`,
+	},
+	"abstention-test-generation": {
+		description:
+			"Test case generation: queries near one tool that need no tool at all",
+		variables: [
+			"count",
+			"toolName",
+			"description",
+			"inputSchema",
+			"otherTools", // One "- name: description" line per other tool
+			"customInstructions", // User's extra instructions block, empty when unset
+		],
+		template: `Generate {{count}} diverse user queries that an assistant with the tools below should answer WITHOUT calling any tool:
+
+Tool: {{toolName}}
+Description: {{description}}
+Input schema: {{inputSchema}}
+
+Other available tools:
+{{otherTools}}
+
+Requirements:
+- Each query should be a natural user question or command
+- Queries should be close to this tool's domain, so a vague description might wrongly trigger it
+- Answering needs only general knowledge, conversation or reasoning - no tool call
+- No query should be a genuine use of this tool or of any other listed tool{{customInstructions}}`,
+	},
+	"golden-test-generation": {
+		description:
+			"Golden optimizer: direct, indirect and negative queries for one tool",
+		variables: [
+			"count", // Queries per category
+			"toolName",
+			"description",
+			"inputSchema",
+			"otherTools", // One "- name: description" line per other tool
+		],
+		template: `Generate test cases for optimizing tool selection metadata. Create {{count}} queries for EACH category below.
+
+Target Tool: {{toolName}}
+Description: {{description}}
+Input Schema: {{inputSchema}}
+
+Other Available Tools:
+{{otherTools}}
+
+Generate {{count}} queries for EACH of these categories:
+
+1. DIRECT INVOCATIONS (should_call: true)
+   - User explicitly mentions the tool name or directly references its domain
+   - Example: "Use the {{toolName}} tool", "Can you run {{toolName}}?"
+
+2. INDIRECT INVOCATIONS (should_call: true)
+   - User describes what they want without naming the tool
+   - The tool is clearly the best match based on capabilities
+   - Example: Natural questions that this tool should handle
+
+3. NEGATIVE INVOCATIONS (should_call: false)
+   - Queries that should NOT trigger this tool
+   - Either another tool is more appropriate, or no tool is needed
+   - Include edge cases where the tool might be incorrectly selected
+   - Include queries that are slightly related but should use other tools
+
+Requirements:
+- Queries should be natural user language
+- Vary phrasing and complexity
+- Negative cases should be realistic edge cases where precision matters`,
+	},
+};
+
+const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
+
+export function isPromptTemplateName(
+	name: unknown,
+): name is PromptTemplateName {
+	return typeof name === "string" && Object.hasOwn(PROMPT_TEMPLATES, name);
+}
+
+/**
+ * Built-in templates, as used when nothing is saved in the DB
+ */
+export function getDefaultPromptTemplates(): PromptTemplates {
+	return Object.fromEntries(
+		Object.entries(PROMPT_TEMPLATES).map(([name, { template }]) => [
+			name,
+			{ name, version: 0, template },
+		]),
+	) as PromptTemplates;
+}
+
+/**
+ * Latest saved version of every template, falling back to the built-ins
+ * Runs load these once at the start so every candidate of a run is
+ * produced by the same versions
+ */
+export async function loadPromptTemplates(): Promise<PromptTemplates> {
+	const templates = getDefaultPromptTemplates();
+	const rows = await db.select().from(schema.promptTemplates);
+
+	for (const row of rows) {
+		if (!isPromptTemplateName(row.name)) continue;
+		if (row.version > templates[row.name].version) {
+			templates[row.name] = {
+				name: row.name,
+				version: row.version,
+				template: row.template,
+			};
+		}
+	}
+
+	return templates;
+}
+
+/**
+ * Validate a template edit from user input, throwing on bad input
+ * Placeholders must be variables the template is rendered with
+ */
+export function parsePromptTemplate(
+	name: unknown,
+	template: unknown,
+): { name: PromptTemplateName; template: string } {
+	if (!isPromptTemplateName(name)) {
+		throw new Error(`Unknown prompt template: ${String(name)}`);
+	}
+	if (typeof template !== "string" || !template.trim()) {
+		throw new Error("Template text is required");
+	}
+
+	const { variables } = PROMPT_TEMPLATES[name];
+	for (const [, variable] of template.matchAll(PLACEHOLDER)) {
+		if (variable && !variables.includes(variable)) {
+			throw new Error(
+				`Unknown variable {{${variable}}} in ${name} (available: ${variables.join(", ")})`,
+			);
+		}
+	}
+
+	return { name, template };
+}
+
+/**
+ * Fill in a template's {{variable}} placeholders
+ */
+export function renderPromptTemplate(
+	template: PromptTemplate,
+	variables: Record<string, string | number>,
+): string {
+	return template.template.replace(PLACEHOLDER, (_, variable: string) => {
+		const value = variables[variable];
+		if (value === undefined) {
+			throw new Error(
+				`Missing variable {{${variable}}} for prompt template ${template.name}`,
+			);
+		}
+		return String(value);
+	});
+}
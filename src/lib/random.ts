@@ -0,0 +1,51 @@
+/**
+ * Uniform numbers in [0, 1) - Math.random or a seeded generator
+ */
+export type Random = () => number;
+
+/**
+ * Seeded generator (mulberry32) - the same seed always gives the same
+ * sequence, so a run with a deterministic model can be replayed
+ */
+export function createRandom(seed: number): Random {
+	let state = seed >>> 0;
+	return () => {
+		state = (state + 0x6d2b79f5) >>> 0;
+		let t = state;
+		t = Math.imul(t ^ (t >>> 15), t | 1);
+		t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+		return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+	};
+}
+
+/**
+ * Seeded generator for one stream of a run - stream 0 splits the test cases,
+ * stream i is iteration i. A stream only depends on seed and index, so what
+ * an iteration draws does not depend on how many numbers earlier ones used
+ */
+export function createStream(seed: number, index: number): Random {
+	return createRandom(seed + Math.imul(index, 0x9e3779b9));
+}
+
+/**
+ * A new seed for a run that did not set one
+ */
+export function createSeed(): number {
+	return Math.floor(Math.random() * 4294967296);
+}
+
+/**
+ * Shuffled copy of an array (Fisher-Yates - every order equally likely,
+ * unlike sorting with a random comparator)
+ */
+export function shuffle<T>(
+	items: readonly T[],
+	random: Random = Math.random,
+): T[] {
+	const shuffled = [...items];
+	for (let i = shuffled.length - 1; i > 0; i--) {
+		const j = Math.floor(random() * (i + 1));
+		[shuffled[i], shuffled[j]] = [shuffled[j] as T, shuffled[i] as T];
+	}
+	return shuffled;
+}
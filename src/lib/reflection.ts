@@ -0,0 +1,129 @@
+import { z } from "zod";
+import type { BatchReflection, Reflection } from "../types";
+import { MAX_DESCRIPTION_LENGTH } from "./constants";
+
+/**
+ * Output schema for reflection calls
+ */
+export const REFLECTION_SCHEMA = z.object({
+	diagnosis: z
+		.string()
+		.describe("Why the current description leads to the wrong choice"),
+	rationale: z
+		.string()
+		.describe("Why the new description should fix it without new failures"),
+	description: z
+		.string()
+		.describe(
+			"The new tool description only - no quotes, labels or explanation",
+		),
+});
+
+/**
+ * Output schema for minibatch reflection calls - only the tools that change
+ */
+export const BATCH_REFLECTION_SCHEMA = z.object({
+	diagnosis: z
+		.string()
+		.describe("What the failures have in common and why they happen"),
+	rationale: z
+		.string()
+		.describe("Why the new descriptions should fix them without new failures"),
+	descriptions: z
+		.array(
+			z.object({
+				tool: z.string().describe("Name of a tool under review"),
+				description: z
+					.string()
+					.describe(
+						"The new tool description only - no quotes, labels or explanation",
+					),
+			}),
+		)
+		.describe("One entry per tool whose description changes"),
+});
+
+const WRAPPING_QUOTES = /^(["'`“‘]).*(["'`”’])$/s;
+const PREAMBLE =
+	/^(here('s| is)\b|(new|updated|improved|revised) description\b|description\s*:)/i;
+
+/**
+ * Check a reflection answer for text that should not end up in a tool
+ * description - returns the problems found, empty when valid
+ */
+export function validateReflection(reflection: Reflection): string[] {
+	const problems: string[] = [];
+
+	if (!reflection.diagnosis.trim()) problems.push("diagnosis is empty");
+	if (!reflection.rationale.trim()) problems.push("rationale is empty");
+
+	return [...problems, ...validateDescription(reflection.description)];
+}
+
+/**
+ * Check a minibatch reflection answer: every description as in
+ * validateReflection, and each for a different tool under review
+ */
+export function validateBatchReflection(
+	reflection: BatchReflection,
+	toolNames: string[],
+): string[] {
+	const problems: string[] = [];
+
+	if (!reflection.diagnosis.trim()) problems.push("diagnosis is empty");
+	if (!reflection.rationale.trim()) problems.push("rationale is empty");
+	if (reflection.descriptions.length === 0) {
+		problems.push("no tool descriptions were given");
+	}
+
+	const seen = new Set<string>();
+	for (const { tool, description } of reflection.descriptions) {
+		if (!toolNames.includes(tool)) {
+			problems.push(
+				`${tool} is not a tool under review (expected one of ${toolNames.join(", ")})`,
+			);
+			continue;
+		}
+		if (seen.has(tool)) problems.push(`${tool} is described twice`);
+		seen.add(tool);
+
+		for (const problem of validateDescription(description)) {
+			problems.push(`${tool}: ${problem}`);
+		}
+	}
+
+	return problems;
+}
+
+/**
+ * Problems with a single new description
+ */
+function validateDescription(text: string): string[] {
+	const problems: string[] = [];
+	const description = text.trim();
+
+	if (!description) {
+		problems.push("description is empty");
+		return problems;
+	}
+	if (WRAPPING_QUOTES.test(description)) {
+		problems.push("description is wrapped in quotes");
+	}
+	if (PREAMBLE.test(description)) {
+		problems.push(
+			'description starts with a preamble (e.g. "Here is" or "Description:")',
+		);
+	}
+	if (/\n\s*\n/.test(description)) {
+		problems.push(
+			"description has several paragraphs - explanations belong in rationale",
+		);
+	}
+	if (description.length > MAX_DESCRIPTION_LENGTH) {
+		problems.push(
+			`description is ${description.length} characters (max ${MAX_DESCRIPTION_LENGTH})`,
+		);
+	}
+
+	return problems;
+}
@@ -0,0 +1,185 @@
+import { eq } from "drizzle-orm";
+import { db } from "../db";
+import * as schema from "../db/schema";
+import type {
+	EvalResult,
+	EvaluatedCandidate,
+	EvaluationErrorKind,
+	EvaluationSettings,
+	GEPAResumeState,
+	PromptVersions,
+	TestCase,
+	TestSplitIds,
+	Tool,
+} from "../types";
+import type { Archive } from "./archive";
+import { addToArchive } from "./archive";
+import { summarizeEvaluations } from "./evaluator";
+import type { PerTaskPareto } from "./pareto";
+import { updatePerTaskPareto } from "./pareto";
+
+/**
+ * Rebuild the progress of an interrupted GEPA run from the candidates,
+ * evaluations, iterations and run tables
+ * tools are the original tools - candidates get their stored descriptions
+ * Budget counters are those of the last finished iteration; evaluations of
+ * the interrupted one are found in the evaluation cache when repeated
+ */
+export async function loadResumeState(
+	runId: string,
+	tools: Tool[],
+	testCases: TestCase[],
+	settings: EvaluationSettings,
+): Promise<GEPAResumeState> {
+	const [run] = await db
+		.select()
+		.from(schema.optimizationRuns)
+		.where(eq(schema.optimizationRuns.id, runId));
+	if (!run) {
+		throw new Error(`Run ${runId} not found`);
+	}
+
+	const candidateRows = await db
+		.select()
+		.from(schema.candidates)
+		.where(eq(schema.candidates.runId, runId))
+		.orderBy(schema.candidates.generation);
+	const accepted = candidateRows.filter((c) => c.status !== "rejected");
+	if (accepted[0]?.generation !== 0) {
+		throw new Error(
+			`Run ${runId} cannot be resumed - the original candidate was never evaluated`,
+		);
+	}
+
+	// Rows from before evaluations stored the test case ID held the query
+	const testCaseIds = new Map(testCases.map((tc) => [tc.id, tc.id]));
+	for (const tc of testCases) {
+		if (!testCaseIds.has(tc.query)) testCaseIds.set(tc.query, tc.id);
+	}
+
+	const candidates: GEPAResumeState["candidates"] = [];
+	for (const row of accepted) {
+		const evaluationRows = await db
+			.select()
+			.from(schema.evaluations)
+			.where(eq(schema.evaluations.candidateId, row.id));
+		const evaluations = evaluationRows.flatMap((e): EvalResult[] => {
+			const testCaseId = testCaseIds.get(e.testCaseId ?? "");
+			return testCaseId ? [toEvalResult(e, testCaseId)] : [];
+		});
+
+		const descriptions = JSON.parse(row.toolDescriptions) as Record<
+			string,
+			string
+		>;
+		const candidate = summarizeEvaluations(
+			{
+				id: row.id,
+				tools: tools.map((tool) => ({
+					...tool,
+					description: descriptions[tool.name] ?? tool.description,
+				})),
+				promptVersions: row.promptVersions
+					? (JSON.parse(row.promptVersions) as PromptVersions)
+					: undefined,
+				diagnosis: row.diagnosis ?? undefined,
+				rationale: row.rationale ?? undefined,
+			},
+			evaluations,
+			settings,
+		);
+		candidates.push({
+			candidate,
+			parentId: row.parentId ?? undefined,
+			mergeParentId: row.mergeParentId ?? undefined,
+		});
+	}
+
+	const iterationRows = await db
+		.select()
+		.from(schema.iterations)
+		.where(eq(schema.iterations.runId, runId));
+	const offspring = candidateRows.filter((c) => c.parentId);
+
+	return {
+		candidates,
+		iteration: Math.max(0, ...iterationRows.map((i) => i.iterationNumber)),
+		rejectedCount: candidateRows.length - accepted.length,
+		cacheHits: run.cacheHits ?? 0,
+		cacheMisses: run.cacheMisses ?? 0,
+		inputTokens: run.inputTokens ?? 0,
+		outputTokens: run.outputTokens ?? 0,
+		costUsd: run.costUsd ?? 0,
+		split: run.testSplit
+			? (JSON.parse(run.testSplit) as TestSplitIds)
+			: undefined,
+		// Offspring pass the subsample filter exactly when they are accepted
+		selections: offspring
+			.filter((c) => !c.mergeParentId)
+			.map((c) => ({
+				parentId: c.parentId as string,
+				passed: c.status !== "rejected",
+			})),
+		mergedPairs: offspring.flatMap((c) =>
+			c.mergeParentId
+				? [{ parentId: c.parentId as string, mergeParentId: c.mergeParentId }]
+				: [],
+		),
+	};
+}
+
+/**
+ * Put the candidates of a resumed run back into the archive and per-task
+ * Pareto fronts, in the order they were accepted
+ * Returns the original candidate
+ */
+export function restoreArchive(
+	resume: GEPAResumeState,
+	archive: Archive,
+	pareto: PerTaskPareto,
+): EvaluatedCandidate {
+	const [original] = resume.candidates;
+	if (!original) {
+		throw new Error("Cannot resume a run without its original candidate");
+	}
+
+	for (const { candidate, parentId, mergeParentId } of resume.candidates) {
+		addToArchive(archive, candidate, parentId, mergeParentId);
+		updatePerTaskPareto(pareto, candidate, archive);
+	}
+	return original.candidate;
+}
+
+function toEvalResult(
+	row: typeof schema.evaluations.$inferSelect,
+	testCaseId: string,
+): EvalResult {
+	return {
+		testCaseId,
+		selectedTool: row.selectedTool,
+		expectedTool: row.expectedTool ?? "",
+		correct: row.correct,
+		arguments: row.arguments ? JSON.parse(row.arguments) : undefined,
+		argumentsCorrect: row.argumentsCorrect ?? undefined,
+		argumentErrors: row.argumentErrors
+			? (JSON.parse(row.argumentErrors) as string[])
+			: undefined,
+		// Only the kind is stored
+		error: row.error
+			? {
+					kind: row.error as EvaluationErrorKind,
+					message: "Failed before the run was interrupted",
+					attempts: 1,
+				}
+			: undefined,
+		model: row.model ?? undefined,
+		selectedTools: row.selectedTools
+			? (JSON.parse(row.selectedTools) as string[])
+			: undefined,
+		credit: row.credit ?? undefined,
+		selectionCounts: row.selectionCounts
+			? (JSON.parse(row.selectionCounts) as Record<string, number>)
+			: undefined,
+		sampleAccuracy: row.sampleAccuracy ?? undefined,
+	};
+}
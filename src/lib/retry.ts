@@ -0,0 +1,157 @@
+import { APICallError } from "ai";
+import type { EvaluationError, EvaluationErrorKind } from "../types";
+
+export type RetryOptions = {
+	maxRetries: number;
+	initialDelayMs: number;
+	maxDelayMs: number;
+};
+
+const RETRYABLE_KINDS = new Set<EvaluationErrorKind>([
+	"rate_limit",
+	"timeout",
+	"server",
+	"network",
+]);
+
+/**
+ * Run an LLM call, retrying transient failures with exponential backoff
+ * Non-retryable errors (auth, bad requests, ...) are thrown immediately
+ * Once signal is aborted nothing is retried - the abort error is thrown as is
+ */
+export async function withRetry<T>(
+	fn: () => Promise<T>,
+	options: RetryOptions,
+	onRetry?: (error: unknown, attempt: number, delayMs: number) => void,
+	signal?: AbortSignal,
+): Promise<T> {
+	for (let attempt = 1; ; attempt++) {
+		try {
+			signal?.throwIfAborted();
+			return await fn();
+		} catch (error) {
+			if (signal?.aborted) throw error;
+			if (attempt > options.maxRetries || !isRetryable(error)) {
+				throw new RetryExhaustedError(error, attempt);
+			}
+			const delayMs = getRetryDelay(error, attempt, options);
+			onRetry?.(error, attempt, delayMs);
+			await sleep(delayMs, signal);
+		}
+	}
+}
+
+/**
+ * Wait before the next attempt, cut short (rejecting) when signal aborts
+ */
+function sleep(delayMs: number, signal?: AbortSignal): Promise<void> {
+	return new Promise((resolve, reject) => {
+		const onAbort = () => {
+			clearTimeout(timer);
+			reject(signal?.reason);
+		};
+		const timer = setTimeout(() => {
+			signal?.removeEventListener("abort", onAbort);
+			resolve();
+		}, delayMs);
+		signal?.addEventListener("abort", onAbort, { once: true });
+	});
+}
+
+/**
+ * Thrown by withRetry with the last error and how many calls were made
+ */
+export class RetryExhaustedError extends Error {
+	constructor(
+		public lastError: unknown,
+		public attempts: number,
+	) {
+		super(lastError instanceof Error ? lastError.message : String(lastError));
+		this.name = "RetryExhaustedError";
+	}
+}
+
+/**
+ * Turn a thrown error into a typed evaluation error
+ */
+export function toEvaluationError(error: unknown): EvaluationError {
+	const attempts = error instanceof RetryExhaustedError ? error.attempts : 1;
+	const cause = error instanceof RetryExhaustedError ? error.lastError : error;
+
+	return {
+		kind: classifyError(cause),
+		message: cause instanceof Error ? cause.message : String(cause),
+		attempts,
+	};
+}
+
+export function classifyError(error: unknown): EvaluationErrorKind {
+	if (APICallError.isInstance(error)) {
+		const status = error.statusCode;
+		if (status === 429) return "rate_limit";
+		if (status === 408 || status === 504) return "timeout";
+		if (status === 401 || status === 403) return "auth";
+		if (status !== undefined && status >= 500) return "server";
+		if (status !== undefined && status >= 400) return "invalid_request";
+		return error.isRetryable ? "network" : "unknown";
+	}
+	if (error instanceof Error) {
+		if (error.name === "TimeoutError" || error.name === "AbortError") {
+			return "timeout";
+		}
+		// fetch() network failures (DNS, refused connections, resets)
+		if (error.name === "TypeError" && /fetch|network/i.test(error.message)) {
+			return "network";
+		}
+	}
+	return "unknown";
+}
+
+function isRetryable(error: unknown): boolean {
+	return RETRYABLE_KINDS.has(classifyError(error));
+}
+
+/**
+ * Delay before the next attempt: the provider's retry-after when it sends
+ * one, otherwise exponential backoff with jitter
+ * The jitter comes from Math.random, not the run's seeded generator: it only
+ * changes timing, and drawing from the run's stream would make every later
+ * choice depend on how many calls were retried
+ */
+export function getRetryDelay(
+	error: unknown,
+	attempt: number,
+	options: RetryOptions,
+): number {
+	const retryAfter = APICallError.isInstance(error)
+		? parseRetryAfter(error.responseHeaders)
+		: undefined;
+	if (retryAfter !== undefined) {
+		return Math.min(retryAfter, options.maxDelayMs);
+	}
+
+	const backoff = options.initialDelayMs * 2 ** (attempt - 1);
+	const jitter = Math.random() * options.initialDelayMs;
+	return Math.min(backoff + jitter, options.maxDelayMs);
+}
+
+/**
+ * Read retry-after-ms (milliseconds) or retry-after (seconds or HTTP date)
+ */
+function parseRetryAfter(
+	headers: Record<string, string> | undefined,
+): number | undefined {
+	if (!headers) return undefined;
+
+	const ms = Number.parseFloat(headers["retry-after-ms"] ?? "");
+	if (Number.isFinite(ms) && ms >= 0) return ms;
+
+	const retryAfter = headers["retry-after"];
+	if (!retryAfter) return undefined;
+
+	const seconds = Number.parseFloat(retryAfter);
+	if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+	const date = Date.parse(retryAfter);
+	return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
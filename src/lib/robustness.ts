@@ -0,0 +1,93 @@
+import type {
+	EvalResult,
+	EvaluationSettings,
+	ModelName,
+	RobustnessMetric,
+} from "../types";
+
+type Scoring = Pick<EvaluationSettings, "models" | "robustnessMetric">;
+
+/**
+ * Evaluation settings for the models of a run config
+ * A run without evaluationModels evaluates on evaluationModel alone
+ */
+export function getEvaluationModels(config: {
+	evaluationModel: ModelName;
+	evaluationModels?: EvaluationSettings["models"];
+	robustnessMetric?: RobustnessMetric;
+}): Scoring {
+	return {
+		models:
+			config.evaluationModels && config.evaluationModels.length > 0
+				? config.evaluationModels
+				: [{ model: config.evaluationModel, weight: 1 }],
+		robustnessMetric: config.robustnessMetric ?? "weighted-mean",
+	};
+}
+
+/**
+ * Score a candidate's evaluations, skipping failed LLM calls
+ * Accuracy is the mean credit, so multi-tool tests count partially
+ * Multi-model runs: accuracy is the weighted mean of per-model accuracy,
+ * robustness combines them with the run's metric. Models without a valid
+ * evaluation are left out of both.
+ */
+export function scoreEvaluations(
+	evaluations: EvalResult[],
+	scoring: Scoring,
+): {
+	accuracy: number;
+	modelAccuracy?: Record<ModelName, number>;
+	robustness?: number;
+} {
+	const valid = evaluations.filter((e) => !e.error);
+
+	if (scoring.models.length <= 1) {
+		return { accuracy: correctShare(valid) ?? 0 };
+	}
+
+	const modelAccuracy: Record<ModelName, number> = {};
+	let weightedSum = 0;
+	let totalWeight = 0;
+	for (const { model, weight } of scoring.models) {
+		const accuracy = correctShare(valid.filter((e) => e.model === model));
+		if (accuracy === undefined) continue;
+		modelAccuracy[model] = accuracy;
+		weightedSum += accuracy * weight;
+		totalWeight += weight;
+	}
+
+	const accuracies = Object.values(modelAccuracy);
+	const accuracy = totalWeight > 0 ? weightedSum / totalWeight : 0;
+	const robustness =
+		scoring.robustnessMetric === "min"
+			? accuracies.length > 0
+				? Math.min(...accuracies)
+				: 0
+			: accuracy;
+
+	return { accuracy, modelAccuracy, robustness };
+}
+
+/**
+ * Pareto task for an evaluation - each (test case, model) pair of a
+ * multi-model run is a task of its own
+ */
+export function getTaskKey(testCaseId: string, model?: ModelName): string {
+	return model ? `${testCaseId}@${model}` : testCaseId;
+}
+
+/**
+ * Score of one evaluation: partial credit for multi-tool tests, otherwise
+ * 1 when correct and 0 when not
+ */
+export function getCredit(evaluation: EvalResult): number {
+	return evaluation.credit ?? (evaluation.correct ? 1 : 0);
+}
+
+function correctShare(evaluations: EvalResult[]): number | undefined {
+	if (evaluations.length === 0) return undefined;
+	return (
+		evaluations.reduce((sum, e) => sum + getCredit(e), 0) / evaluations.length
+	);
+}
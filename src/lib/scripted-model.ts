@@ -0,0 +1,336 @@
+import type { LanguageModel } from "ai";
+
+type ScriptedLanguageModel = Exclude<LanguageModel, string>;
+type CallOptions = Parameters<ScriptedLanguageModel["doGenerate"]>[0];
+type GenerateResult = Awaited<ReturnType<ScriptedLanguageModel["doGenerate"]>>;
+
+export type ScriptedTool = {
+	name: string;
+	description: string;
+};
+
+/**
+ * How a scripted model picks a tool for a query
+ * - keyword: tool whose name and description share the most words with the query
+ * - first-tool: always the first offered tool
+ * - none: never calls a tool
+ * - tool:<name>: always the named tool (if offered)
+ * - a function returning a tool name, or null for no call
+ */
+export type ToolSelectionPolicy =
+	| "keyword"
+	| "first-tool"
+	| "none"
+	| `tool:${string}`
+	| ((query: string, tools: ScriptedTool[]) => string | null);
+
+const STOP_WORDS = new Set([
+	"a",
+	"an",
+	"and",
+	"are",
+	"as",
+	"at",
+	"be",
+	"by",
+	"can",
+	"do",
+	"for",
+	"from",
+	"how",
+	"i",
+	"in",
+	"is",
+	"it",
+	"me",
+	"my",
+	"of",
+	"on",
+	"or",
+	"please",
+	"the",
+	"this",
+	"to",
+	"use",
+	"what",
+	"with",
+	"you",
+]);
+
+/**
+ * Parse a policy from a model ID, e.g. "keyword" or "tool:search_files"
+ */
+export function parseToolSelectionPolicy(modelId: string): ToolSelectionPolicy {
+	if (modelId === "keyword" || modelId === "first-tool" || modelId === "none") {
+		return modelId;
+	}
+	if (modelId.startsWith("tool:")) {
+		return modelId as `tool:${string}`;
+	}
+	throw new Error(`Unknown scripted tool selection policy: ${modelId}`);
+}
+
+/**
+ * Deterministic fake model for offline runs - no network, no API key.
+ * Tool calls follow the selection policy, structured output is synthesized
+ * from the requested schema and reflection prompts get a rule-based rewrite.
+ */
+export function createScriptedModel(
+	policy: ToolSelectionPolicy,
+	modelId = typeof policy === "string" ? policy : "custom",
+): ScriptedLanguageModel {
+	return {
+		specificationVersion: "v2",
+		provider: "scripted",
+		modelId,
+		supportedUrls: {},
+		doGenerate: async (options) => generate(policy, options),
+		doStream: async () => {
+			throw new Error("Scripted models do not support streaming");
+		},
+	};
+}
+
+function generate(
+	policy: ToolSelectionPolicy,
+	options: CallOptions,
+): GenerateResult {
+	const prompt = promptText(options);
+	const query = lastUserText(options);
+
+	const tools: ScriptedTool[] = (options.tools ?? []).flatMap((t) =>
+		t.type === "function"
+			? [{ name: t.name, description: t.description ?? "" }]
+			: [],
+	);
+
+	if (tools.length > 0) {
+		const toolName = selectTool(policy, query, tools);
+		const selected = options.tools?.find(
+			(t) => t.type === "function" && t.name === toolName,
+		);
+
+		if (selected?.type === "function") {
+			const input = JSON.stringify(
+				sampleFromSchema(selected.inputSchema, query),
+			);
+			return result(
+				[
+					{
+						type: "tool-call",
+						toolCallId: crypto.randomUUID(),
+						toolName: selected.name,
+						input,
+					},
+				],
+				"tool-calls",
+				prompt,
+				input,
+			);
+		}
+
+		return result([], "stop", prompt, "");
+	}
+
+	const text =
+		options.responseFormat?.type === "json"
+			? JSON.stringify(structuredOutput(options.responseFormat.schema, prompt))
+			: rewriteDescription(prompt);
+
+	return result([{ type: "text", text }], "stop", prompt, text);
+}
+
+/**
+ * Structured output synthesized from the schema - a description field
+ * (structured reflection) gets the same rewrite as a plain-text reflection,
+ * a descriptions list (minibatch reflection) one per tool under review
+ */
+function structuredOutput(schema: unknown, prompt: string): unknown {
+	const output = sampleFromSchema(
+		schema,
+		promptField(prompt, "Tool") ??
+			promptField(prompt, "Target Tool") ??
+			"scripted",
+	);
+
+	if (output && typeof output === "object" && "description" in output) {
+		return { ...output, description: rewriteDescription(prompt) };
+	}
+	if (output && typeof output === "object" && "descriptions" in output) {
+		const descriptions = promptFields(prompt, "Description");
+		return {
+			...output,
+			descriptions: promptFields(prompt, "Name").map((tool, i) => ({
+				tool,
+				description: rewriteDescription(prompt, descriptions[i]),
+			})),
+		};
+	}
+	return output;
+}
+
+function result(
+	content: GenerateResult["content"],
+	finishReason: GenerateResult["finishReason"],
+	prompt: string,
+	output: string,
+): GenerateResult {
+	// Rough token estimate so usage tracking still has something to count
+	const inputTokens = Math.ceil(prompt.length / 4);
+	const outputTokens = Math.ceil(output.length / 4);
+
+	return {
+		content,
+		finishReason,
+		usage: {
+			inputTokens,
+			outputTokens,
+			totalTokens: inputTokens + outputTokens,
+		},
+		warnings: [],
+	};
+}
+
+function selectTool(
+	policy: ToolSelectionPolicy,
+	query: string,
+	tools: ScriptedTool[],
+): string | null {
+	if (typeof policy === "function") return policy(query, tools);
+	if (policy === "none") return null;
+	if (policy === "first-tool") return tools[0]?.name ?? null;
+	if (policy.startsWith("tool:")) return policy.slice("tool:".length);
+
+	// keyword: highest word overlap wins, ties go to the first tool
+	const queryWords = words(query);
+	let best: string | null = null;
+	let bestScore = 0;
+
+	for (const tool of tools) {
+		const toolWords = words(`${tool.name} ${tool.description}`);
+		let score = 0;
+		for (const word of queryWords) {
+			if (toolWords.has(word)) score++;
+		}
+		if (score > bestScore) {
+			best = tool.name;
+			bestScore = score;
+		}
+	}
+
+	return best;
+}
+
+function words(text: string): Set<string> {
+	return new Set(
+		text
+			.toLowerCase()
+			.split(/[^a-z0-9]+/)
+			.filter((word) => word.length > 1 && !STOP_WORDS.has(word)),
+	);
+}
+
+/**
+ * Rule-based stand-in for a reflection: failure prompts fold the failing
+ * query into the description, other prompts get the first sentence back
+ */
+function rewriteDescription(
+	prompt: string,
+	description = promptField(prompt, "Description") ?? "",
+): string {
+	const failingQuery = promptField(prompt, "- User query");
+
+	if (failingQuery) {
+		return `${description} Use for requests like "${failingQuery}".`.slice(
+			0,
+			200,
+		);
+	}
+
+	const firstSentence = description.split(/(?<=\.)\s/)[0] ?? description;
+	return firstSentence.trim() || description;
+}
+
+/**
+ * Read a `Label: value` line from a prompt, without surrounding quotes
+ */
+function promptField(prompt: string, label: string): string | undefined {
+	return promptFields(prompt, label)[0];
+}
+
+/**
+ * Every `Label: value` line of a prompt, in order
+ */
+function promptFields(prompt: string, label: string): string[] {
+	return prompt
+		.split("\n")
+		.filter((line) => line.startsWith(`${label}: `))
+		.map((line) =>
+			line
+				.slice(label.length + 2)
+				.trim()
+				.replace(/^"(.*)"$/, "$1"),
+		);
+}
+
+/**
+ * Build a value that satisfies a JSON schema (as far as common keywords go)
+ */
+function sampleFromSchema(schema: unknown, hint: string, index = 0): unknown {
+	if (!schema || typeof schema !== "object") return null;
+	const s = schema as Record<string, unknown>;
+
+	if (Array.isArray(s.enum)) return s.enum[0];
+	if ("const" in s) return s.const;
+	if (Array.isArray(s.anyOf)) return sampleFromSchema(s.anyOf[0], hint, index);
+
+	const type = Array.isArray(s.type) ? s.type[0] : s.type;
+
+	switch (type) {
+		case "object": {
+			const properties = (s.properties ?? {}) as Record<string, unknown>;
+			return Object.fromEntries(
+				Object.entries(properties).map(([key, value]) => [
+					key,
+					sampleFromSchema(value, `${hint} ${key}`),
+				]),
+			);
+		}
+		case "array": {
+			const count =
+				typeof s.minItems === "number" ? Math.max(s.minItems, 3) : 3;
+			return Array.from({ length: count }, (_, i) =>
+				sampleFromSchema(s.items, hint, i + 1),
+			);
+		}
+		case "string":
+			return index > 0 ? `${hint} ${index}` : hint;
+		case "integer":
+		case "number":
+			return typeof s.minimum === "number" ? s.minimum : 0;
+		case "boolean":
+			return false;
+		default:
+			return null;
+	}
+}
+
+function promptText(options: CallOptions): string {
+	return options.prompt
+		.map((message) =>
+			typeof message.content === "string"
+				? message.content
+				: message.content
+						.map((part) => (part.type === "text" ? part.text : ""))
+						.join(""),
+		)
+		.join("\n");
+}
+
+function lastUserText(options: CallOptions): string {
+	const message = options.prompt.findLast((m) => m.role === "user");
+	if (!message) return "";
+	return message.content
+		.map((part) => (part.type === "text" ? part.text : ""))
+		.join("");
+}
@@ -0,0 +1,331 @@
+import type {
+	EvaluatedCandidate,
+	SelectionSettings,
+	SelectionStrategy,
+} from "../types";
+import type { Archive } from "./archive";
+import type { PerTaskPareto } from "./pareto";
+import { calculateGlobalScore, calculateMaxLength } from "./pareto";
+import type { Random } from "./random";
+import { shuffle } from "./random";
+
+// Random candidates that compete in each tournament
+const TOURNAMENT_SIZE = 3;
+
+/**
+ * A selected parent and why it was picked
+ */
+export type ParentSelection = {
+	parent: EvaluatedCandidate;
+	rationale: string;
+};
+
+/**
+ * Outcomes of earlier selections - the ucb strategy's rewards
+ */
+export type SelectionStats = {
+	selections: Map<string, number>; // Candidate ID -> times selected
+	rewards: Map<string, number>; // Candidate ID -> offspring that passed the subsample filter
+	total: number;
+};
+
+type Strategy = (
+	archive: Archive,
+	pareto: PerTaskPareto,
+	stats: SelectionStats,
+	settings: SelectionSettings,
+	random: Random,
+) => ParentSelection | null;
+
+/**
+ * Parent selection settings from a run config, with defaults filled in
+ */
+export function getSelectionSettings(config: {
+	selectionStrategy?: SelectionStrategy;
+	accuracyWeight?: number;
+	stabilityWeight?: number;
+	selectionTemperature?: number;
+	minAccuracy?: number;
+}): SelectionSettings {
+	return {
+		strategy: config.selectionStrategy ?? "global-score",
+		accuracyWeight: config.accuracyWeight ?? 0.5,
+		stabilityWeight: config.stabilityWeight ?? 0,
+		// Clamp temperature to avoid division by zero (min 0.1 for maximum exploitation)
+		temperature: Math.max(0.1, config.selectionTemperature ?? 1.0),
+		minAccuracy: config.minAccuracy ?? 0,
+	};
+}
+
+/**
+ * Create empty selection statistics
+ */
+export function createSelectionStats(): SelectionStats {
+	return { selections: new Map(), rewards: new Map(), total: 0 };
+}
+
+/**
+ * Record whether the offspring of a selected parent passed the subsample
+ * filter
+ */
+export function recordSelectionOutcome(
+	stats: SelectionStats,
+	parentId: string,
+	passed: boolean,
+): void {
+	stats.selections.set(parentId, (stats.selections.get(parentId) ?? 0) + 1);
+	stats.rewards.set(
+		parentId,
+		(stats.rewards.get(parentId) ?? 0) + (passed ? 1 : 0),
+	);
+	stats.total++;
+}
+
+/**
+ * Select the parent of the next iteration with the configured strategy
+ * Only candidates meeting minAccuracy are eligible - all of them when none
+ * do (early on, when only the baseline exists)
+ */
+export function selectParent(
+	archive: Archive,
+	pareto: PerTaskPareto,
+	stats: SelectionStats,
+	settings: SelectionSettings,
+	random: Random = Math.random,
+): ParentSelection | null {
+	return STRATEGIES[settings.strategy](
+		archive,
+		pareto,
+		stats,
+		settings,
+		random,
+	);
+}
+
+/**
+ * Pareto frequency (GEPA paper): sample a candidate on the per-task fronts
+ * with probability proportional to the number of tasks it is best at
+ * Temperature flattens (> 1) or sharpens (< 1) the distribution
+ */
+function selectByParetoFrequency(
+	archive: Archive,
+	pareto: PerTaskPareto,
+	stats: SelectionStats,
+	settings: SelectionSettings,
+	random: Random,
+): ParentSelection | null {
+	const front = Array.from(pareto.dominanceCount.entries()).flatMap(
+		([id, count]) => {
+			const candidate = archive.candidates.get(id);
+			return candidate && count > 0 ? [{ candidate, count }] : [];
+		},
+	);
+
+	if (front.length === 0) {
+		const selection = selectByGlobalScore(
+			archive,
+			pareto,
+			stats,
+			settings,
+			random,
+		);
+		return selection
+			? {
+					...selection,
+					rationale: `No candidate is on a Pareto front yet - ${selection.rationale}`,
+				}
+			: null;
+	}
+
+	const eligible = filterByMinAccuracy(
+		front,
+		({ candidate }) => candidate,
+		settings.minAccuracy,
+	);
+	const sampled = sampleWeighted(
+		eligible,
+		eligible.map(({ count }) => count ** (1 / settings.temperature)),
+		random,
+	);
+	if (!sampled) return null;
+
+	return {
+		parent: sampled.item.candidate,
+		rationale: `Best on ${sampled.item.count} of ${pareto.taskFronts.size} tasks - picked with probability ${formatPercent(sampled.probability)} among ${eligible.length} Pareto-front candidates`,
+	};
+}
+
+/**
+ * Global score: sample any candidate, weighted by exp(score / temperature)
+ */
+function selectByGlobalScore(
+	archive: Archive,
+	_pareto: PerTaskPareto,
+	_stats: SelectionStats,
+	settings: SelectionSettings,
+	random: Random,
+): ParentSelection | null {
+	const scored = scoreCandidates(archive, settings);
+	const sampled = sampleWeighted(
+		scored,
+		scored.map(({ score }) => Math.exp(score / settings.temperature)),
+		random,
+	);
+	if (!sampled) return null;
+
+	return {
+		parent: sampled.item.candidate,
+		rationale: `Global score ${sampled.item.score.toFixed(3)} - picked with probability ${formatPercent(sampled.probability)} among ${scored.length} candidates`,
+	};
+}
+
+/**
+ * Tournament: the best global score among TOURNAMENT_SIZE random
+ * candidates - temperature plays no part
+ */
+function selectByTournament(
+	archive: Archive,
+	_pareto: PerTaskPareto,
+	_stats: SelectionStats,
+	settings: SelectionSettings,
+	random: Random,
+): ParentSelection | null {
+	const entrants = shuffle(scoreCandidates(archive, settings), random).slice(
+		0,
+		TOURNAMENT_SIZE,
+	);
+	const [winner, ...others] = [...entrants].sort((a, b) => b.score - a.score);
+	if (!winner) return null;
+
+	return {
+		parent: winner.candidate,
+		rationale: `Best global score (${winner.score.toFixed(3)}) in a tournament of ${entrants.length}${others.length > 0 ? ` - others scored ${others.map(({ score }) => score.toFixed(3)).join(", ")}` : ""}`,
+	};
+}
+
+/**
+ * UCB1 bandit: every candidate is an arm, rewarded when the offspring of
+ * that parent pass the subsample filter
+ * Candidates never selected go first (best global score first), then the
+ * highest mean reward plus temperature * sqrt(2 ln(total) / selections)
+ */
+function selectByUpperConfidenceBound(
+	archive: Archive,
+	_pareto: PerTaskPareto,
+	stats: SelectionStats,
+	settings: SelectionSettings,
+): ParentSelection | null {
+	const scored = scoreCandidates(archive, settings);
+
+	const untried = scored
+		.filter(({ candidate }) => !stats.selections.has(candidate.id))
+		.sort((a, b) => b.score - a.score);
+	const [first] = untried;
+	if (first) {
+		return {
+			parent: first.candidate,
+			rationale: `Never selected before (untried candidates go first) - best global score (${first.score.toFixed(3)}) of ${untried.length} untried`,
+		};
+	}
+
+	const [best] = scored
+		.map(({ candidate }) => {
+			const selections = stats.selections.get(candidate.id) ?? 1;
+			const mean = (stats.rewards.get(candidate.id) ?? 0) / selections;
+			const bonus =
+				settings.temperature *
+				Math.sqrt((2 * Math.log(Math.max(1, stats.total))) / selections);
+			return { candidate, selections, mean, bonus, bound: mean + bonus };
+		})
+		.sort((a, b) => b.bound - a.bound);
+	if (!best) return null;
+
+	return {
+		parent: best.candidate,
+		rationale: `Highest upper confidence bound ${best.bound.toFixed(3)} - ${formatPercent(best.mean)} of ${best.selections} offspring passed the subsample filter, exploration bonus ${best.bonus.toFixed(3)}`,
+	};
+}
+
+const STRATEGIES: Record<SelectionStrategy, Strategy> = {
+	"pareto-frequency": selectByParetoFrequency,
+	"global-score": selectByGlobalScore,
+	tournament: selectByTournament,
+	ucb: selectByUpperConfidenceBound,
+};
+
+/**
+ * Global score of every eligible candidate
+ */
+function scoreCandidates(
+	archive: Archive,
+	settings: SelectionSettings,
+): Array<{ candidate: EvaluatedCandidate; score: number }> {
+	const maxLength = calculateMaxLength(archive);
+	return filterByMinAccuracy(
+		Array.from(archive.candidates.values()),
+		(candidate) => candidate,
+		settings.minAccuracy,
+	).map((candidate) => ({
+		candidate,
+		score: calculateGlobalScore(
+			candidate,
+			maxLength,
+			settings.accuracyWeight,
+			settings.stabilityWeight,
+		),
+	}));
+}
+
+/**
+ * Items whose candidate meets minAccuracy (on validation cases in split
+ * runs), or all of them when none does
+ */
+function filterByMinAccuracy<T>(
+	items: T[],
+	getCandidate: (item: T) => EvaluatedCandidate,
+	minAccuracy: number,
+): T[] {
+	const qualified = items.filter((item) => {
+		const candidate = getCandidate(item);
+		return (candidate.validationAccuracy ?? candidate.accuracy) >= minAccuracy;
+	});
+	return qualified.length > 0 ? qualified : items;
+}
+
+/**
+ * Sample one item with probability proportional to its weight
+ */
+function sampleWeighted<T>(
+	items: T[],
+	weights: number[],
+	random: Random,
+): { item: T; probability: number } | null {
+	const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+
+	// Sample using cumulative probabilities
+	const rand = random() * totalWeight;
+	let cumulative = 0;
+	for (let i = 0; i < items.length; i++) {
+		const item = items[i];
+		const weight = weights[i] ?? 0;
+		if (item === undefined) continue;
+
+		cumulative += weight;
+		if (rand <= cumulative) {
+			return { item, probability: weight / totalWeight };
+		}
+	}
+
+	// Fallback (floating point rounding) - the last item
+	const last = items[items.length - 1];
+	return last === undefined
+		? null
+		: {
+				item: last,
+				probability: (weights[items.length - 1] ?? 0) / totalWeight,
+			};
+}
+
+function formatPercent(value: number): string {
+	return `${(value * 100).toFixed(1)}%`;
+}
@@ -0,0 +1,127 @@
+import type {
+	EvaluatedCandidate,
+	EvaluationSettings,
+	TestCase,
+	TestSplitIds,
+} from "../types";
+import type { Random } from "./random";
+import { shuffle } from "./random";
+import { scoreEvaluations } from "./robustness";
+
+/**
+ * Test cases of each split of a GEPA run
+ * - train: what reflection sees failures of
+ * - validation: the per-task Pareto fronts, subsamples, acceptance and merges
+ * - test: held out, only scored for the final Pareto candidates
+ */
+export type TestSplit = {
+	train: TestCase[];
+	validation: TestCase[];
+	test: TestCase[];
+};
+
+/**
+ * Split test cases by share - every case is in train and validation when
+ * validationShare is 0, none is held out when testShare is 0
+ * Cases are dealt round-robin over expected tools, so each split gets its
+ * share of every tool
+ */
+export function splitTestCases(
+	testCases: TestCase[],
+	validationShare: number,
+	testShare: number,
+	random: Random,
+): TestSplit {
+	if (validationShare === 0 && testShare === 0) {
+		return { train: testCases, validation: testCases, test: [] };
+	}
+
+	const groups = new Map<string, TestCase[]>();
+	for (const testCase of shuffle(testCases, random)) {
+		const key = testCase.expectedTool;
+		groups.set(key, [...(groups.get(key) ?? []), testCase]);
+	}
+	const dealt: TestCase[] = [];
+	const queues = Array.from(groups.values());
+	for (let round = 0; dealt.length < testCases.length; round++) {
+		for (const queue of queues) {
+			const testCase = queue[round];
+			if (testCase) dealt.push(testCase);
+		}
+	}
+
+	const testCount = Math.round(testCases.length * testShare);
+	const validationCount = Math.round(testCases.length * validationShare);
+	const test = dealt.slice(0, testCount);
+	const rest = dealt.slice(testCount);
+	const split =
+		validationShare === 0
+			? { train: rest, validation: rest, test }
+			: {
+					train: rest.slice(validationCount),
+					validation: rest.slice(0, validationCount),
+					test,
+				};
+
+	if (split.train.length === 0 || split.validation.length === 0) {
+		throw new Error(
+			`Splitting ${testCases.length} test cases (validation ${validationShare}, test ${testShare}) leaves no ${split.train.length === 0 ? "training" : "validation"} cases`,
+		);
+	}
+	return split;
+}
+
+/**
+ * Test case IDs of a split, as stored with the run
+ */
+export function getSplitIds(split: TestSplit): TestSplitIds {
+	return {
+		train: split.train.map((tc) => tc.id),
+		validation: split.validation.map((tc) => tc.id),
+		test: split.test.map((tc) => tc.id),
+	};
+}
+
+/**
+ * Rebuild the split of a resumed run from its stored IDs
+ */
+export function restoreSplit(
+	testCases: TestCase[],
+	ids: TestSplitIds,
+): TestSplit {
+	const pick = (splitIds: string[]) => {
+		const wanted = new Set(splitIds);
+		return testCases.filter((tc) => wanted.has(tc.id));
+	};
+	return {
+		train: pick(ids.train),
+		validation: pick(ids.validation),
+		test: pick(ids.test),
+	};
+}
+
+/**
+ * Candidate with its train and validation scores, so selection and stopping
+ * can leave the train cases out
+ */
+export function scoreSplit(
+	candidate: EvaluatedCandidate,
+	split: TestSplit,
+	settings: EvaluationSettings,
+): EvaluatedCandidate {
+	const score = (testCases: TestCase[]) => {
+		const ids = new Set(testCases.map((tc) => tc.id));
+		return scoreEvaluations(
+			candidate.evaluations.filter((e) => ids.has(e.testCaseId)),
+			settings,
+		);
+	};
+	const train = score(split.train);
+	const validation = score(split.validation);
+	return {
+		...candidate,
+		trainAccuracy: train.accuracy,
+		validationAccuracy: validation.accuracy,
+		validationScore: validation.robustness ?? validation.accuracy,
+	};
+}
@@ -0,0 +1,75 @@
+import type { EvalResult } from "../types";
+
+/**
+ * Selection label for samples where no tool was called
+ */
+export const NO_TOOL = "(none)";
+
+/**
+ * How often each tool was selected across samples
+ */
+export function countSelections(
+	samples: Array<{ selectedTool: string | null }>,
+): Record<string, number> {
+	const counts: Record<string, number> = {};
+	for (const { selectedTool } of samples) {
+		const label = selectedTool ?? NO_TOOL;
+		counts[label] = (counts[label] ?? 0) + 1;
+	}
+	return counts;
+}
+
+/**
+ * Most frequent selection, ties going to the first one seen
+ */
+export function modeSelection(counts: Record<string, number>): string | null {
+	let mode: string | null = null;
+	let modeCount = 0;
+	for (const [label, count] of Object.entries(counts)) {
+		if (count > modeCount) {
+			mode = label;
+			modeCount = count;
+		}
+	}
+	return mode === NO_TOOL ? null : mode;
+}
+
+/**
+ * Shannon entropy of a selection distribution, normalized to [0, 1] by the
+ * highest entropy the sample count allows (every sample different)
+ */
+export function selectionEntropy(counts: Record<string, number>): number {
+	const total = Object.values(counts).reduce((sum, n) => sum + n, 0);
+	if (total <= 1) return 0;
+
+	let entropy = 0;
+	for (const count of Object.values(counts)) {
+		const p = count / total;
+		if (p > 0) entropy -= p * Math.log2(p);
+	}
+	return entropy / Math.log2(total);
+}
+
+/**
+ * Candidate-level sampling metrics over valid, sampled evaluations
+ * Undefined when the run takes a single sample per test
+ */
+export function calculateSamplingMetrics(evaluations: EvalResult[]): {
+	expectedAccuracy?: number;
+	stability?: number;
+} {
+	const sampled = evaluations.filter(
+		(e): e is EvalResult & { selectionCounts: Record<string, number> } =>
+			!e.error && e.selectionCounts !== undefined,
+	);
+	if (sampled.length === 0) return {};
+
+	const expectedAccuracy =
+		sampled.reduce((sum, e) => sum + (e.sampleAccuracy ?? 0), 0) /
+		sampled.length;
+	const meanEntropy =
+		sampled.reduce((sum, e) => sum + selectionEntropy(e.selectionCounts), 0) /
+		sampled.length;
+
+	return { expectedAccuracy, stability: 1 - meanEntropy };
+}
@@ -0,0 +1,158 @@
+import type { EvaluatedCandidate, LengthMetric, StopReason } from "../types";
+import type { Archive } from "./archive";
+import { getSelectionAccuracy } from "./pareto";
+import { formatLength } from "./tokenizer";
+
+// Hypervolume gains below this count as a plateau
+const HYPERVOLUME_TOLERANCE = 0.001;
+
+/**
+ * Why GEPA stopped, for the optimization_complete event
+ */
+export type StopDecision = {
+	reason: StopReason;
+	detail: string;
+};
+
+/**
+ * Convergence rules of a run - all unset means run until the budget is spent
+ */
+export type StoppingRules = {
+	targetAccuracy?: number;
+	targetLength?: number;
+	paretoPatience?: number;
+	hypervolumePatience?: number;
+};
+
+/**
+ * Progress the convergence rules compare against
+ */
+export type StoppingState = {
+	referenceLength: number; // Conciseness reaches 0 here - twice the original length
+	hypervolume: number; // Best seen so far
+	lastParetoGain: number; // Iteration of the last Pareto improvement
+	lastHypervolumeGain: number; // Iteration the hypervolume last grew
+};
+
+/**
+ * Create the stopping state once the original candidate is in the archive
+ * A resumed run passes the iteration it continues from - patience counts
+ * from there
+ */
+export function createStoppingState(
+	original: EvaluatedCandidate,
+	archive: Archive,
+	startIteration = 0,
+): StoppingState {
+	const referenceLength = Math.max(1, 2 * original.objectiveLength);
+	return {
+		referenceLength,
+		hypervolume: calculateHypervolume(archive, referenceLength),
+		lastParetoGain: startIteration,
+		lastHypervolumeGain: startIteration,
+	};
+}
+
+/**
+ * Record that an offspring of the given iteration improved a per-task
+ * Pareto front
+ */
+export function recordParetoGain(
+	state: StoppingState,
+	iteration: number,
+): void {
+	state.lastParetoGain = iteration;
+}
+
+/**
+ * Area dominated by the archive in (accuracy, conciseness) space, from the
+ * origin - conciseness is 1 - length / referenceLength, at least 0
+ * Grows whenever a candidate extends the accuracy/length trade-off front
+ */
+export function calculateHypervolume(
+	archive: Archive,
+	referenceLength: number,
+): number {
+	const points = Array.from(archive.candidates.values())
+		.map((candidate) => ({
+			accuracy: getSelectionAccuracy(candidate),
+			conciseness: Math.max(0, 1 - candidate.objectiveLength / referenceLength),
+		}))
+		.sort((a, b) => b.accuracy - a.accuracy);
+
+	// Sweep from the most accurate point, adding the strip each more concise
+	// point contributes
+	let hypervolume = 0;
+	let maxConciseness = 0;
+	for (const { accuracy, conciseness } of points) {
+		if (conciseness <= maxConciseness) continue;
+		hypervolume += accuracy * (conciseness - maxConciseness);
+		maxConciseness = conciseness;
+	}
+	return hypervolume;
+}
+
+/**
+ * Check the convergence rules after completedIterations iterations
+ * - target-reached: a candidate meets targetAccuracy and targetLength
+ *   (whichever are set)
+ * - no-improvement: paretoPatience iterations without a Pareto improvement
+ * - hypervolume-plateau: hypervolumePatience iterations in which the
+ *   hypervolume grew by less than HYPERVOLUME_TOLERANCE
+ * Returns null to keep going
+ */
+export function checkStoppingRules(
+	state: StoppingState,
+	rules: StoppingRules,
+	archive: Archive,
+	completedIterations: number,
+	lengthMetric: LengthMetric,
+): StopDecision | null {
+	const { targetAccuracy, targetLength } = rules;
+	if (targetAccuracy !== undefined || targetLength !== undefined) {
+		const reached = Array.from(archive.candidates.values()).find(
+			(candidate) =>
+				(targetAccuracy === undefined ||
+					getSelectionAccuracy(candidate) >= targetAccuracy) &&
+				(targetLength === undefined ||
+					candidate.objectiveLength <= targetLength),
+		);
+		if (reached) {
+			return {
+				reason: "target-reached",
+				detail: `Candidate ${reached.id.slice(0, 8)} reached the target (${formatPercent(getSelectionAccuracy(reached))} accuracy, ${formatLength(reached.objectiveLength, lengthMetric)})`,
+			};
+		}
+	}
+
+	if (
+		rules.paretoPatience !== undefined &&
+		completedIterations - state.lastParetoGain >= rules.paretoPatience
+	) {
+		return {
+			reason: "no-improvement",
+			detail: `No Pareto improvement in ${completedIterations - state.lastParetoGain} iterations (patience ${rules.paretoPatience})`,
+		};
+	}
+
+	const hypervolume = calculateHypervolume(archive, state.referenceLength);
+	if (hypervolume > state.hypervolume + HYPERVOLUME_TOLERANCE) {
+		state.hypervolume = hypervolume;
+		state.lastHypervolumeGain = completedIterations;
+	}
+	if (
+		rules.hypervolumePatience !== undefined &&
+		completedIterations - state.lastHypervolumeGain >= rules.hypervolumePatience
+	) {
+		return {
+			reason: "hypervolume-plateau",
+			detail: `Hypervolume plateaued at ${state.hypervolume.toFixed(3)} for ${completedIterations - state.lastHypervolumeGain} iterations (patience ${rules.hypervolumePatience})`,
+		};
+	}
+
+	return null;
+}
+
+function formatPercent(value: number): string {
+	return `${(value * 100).toFixed(1)}%`;
+}
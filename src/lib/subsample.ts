@@ -1,82 +1,211 @@
 import type pLimit from "p-limit";
 import type {
 	Candidate,
+	EvalResult,
 	EvaluatedCandidate,
-	ModelName,
+	EvaluationSettings,
+	SubsampleStrategy,
 	TestCase,
+	Tool,
 } from "../types";
-import { evaluateWithTools } from "./llm";
+import type { EvaluationCache } from "./evaluation-cache";
+import { evaluateTestCase } from "./evaluator";
+import type { Random } from "./random";
+import { shuffle } from "./random";
+import { scoreEvaluations } from "./robustness";
+import type { UsageTracker } from "./usage";
 
 /**
- * Sample random subset of test cases
- * Used for cheap filtering before expensive full evaluation
+ * Pick the test cases an offspring is filtered on before full evaluation
+ * - random: uniform
+ * - mutated-tools: one case per tool whose description changed (as far as
+ *   the size allows), the rest uniform
+ * - stratified: round-robin over (tool, invocation type) groups
+ * - failure-aware: the mutated-tools cases, then the parent's failures
+ *   until half the subsample is filled, the rest stratified
  */
 export function sampleTestCases(
 	testCases: TestCase[],
 	subsampleSize: number,
+	strategy: SubsampleStrategy = "random",
+	changedTools: Tool[] = [],
+	parent?: EvaluatedCandidate,
+	random: Random = Math.random,
 ): TestCase[] {
-	const shuffled = [...testCases].sort(() => Math.random() - 0.5);
-	return shuffled.slice(0, Math.min(subsampleSize, testCases.length));
+	const size = Math.min(subsampleSize, testCases.length);
+	const picked = new Set<TestCase>();
+	const pick = (candidates: TestCase[], limit: number) => {
+		for (const testCase of candidates) {
+			if (picked.size >= limit) break;
+			picked.add(testCase);
+		}
+	};
+
+	if (strategy === "mutated-tools" || strategy === "failure-aware") {
+		for (const tool of shuffle(changedTools, random)) {
+			const [testCase] = shuffle(
+				testCases.filter(
+					(tc) =>
+						!picked.has(tc) &&
+						(tc.toolId === tool.id || getTestedTools(tc).includes(tool.name)),
+				),
+				random,
+			);
+			if (testCase) pick([testCase], size);
+		}
+	}
+
+	if (strategy === "failure-aware" && parent) {
+		const failing = new Set(
+			parent.evaluations
+				.filter((e) => !e.correct && !e.error)
+				.map((e) => e.testCaseId),
+		);
+		pick(
+			shuffle(
+				testCases.filter((tc) => failing.has(tc.id)),
+				random,
+			),
+			Math.max(picked.size, Math.ceil(size / 2)),
+		);
+	}
+
+	const rest = testCases.filter((tc) => !picked.has(tc));
+	pick(
+		strategy === "stratified" || strategy === "failure-aware"
+			? stratify(rest, random)
+			: shuffle(rest, random),
+		size,
+	);
+
+	return Array.from(picked);
+}
+
+/**
+ * Kind of tool use a test case checks
+ */
+function getInvocationType(testCase: TestCase): string {
+	if (testCase.shouldCall === false) return "abstention";
+	if (testCase.expectedCalls) {
+		return `multi-tool:${testCase.expectedCalls.type}`;
+	}
+	if (testCase.messages) return "multi-turn";
+	return testCase.expectedArguments ? "arguments" : "single";
+}
+
+/**
+ * Tool names a test case expects - multi-tool tests can also exercise tools
+ * other than the one they are listed under (toolId)
+ */
+function getTestedTools(testCase: TestCase): string[] {
+	if (testCase.expectedCalls) return testCase.expectedCalls.tools;
+	return testCase.expectedTool ? [testCase.expectedTool] : [];
+}
+
+/**
+ * Test cases in round-robin order over (tool, invocation type) groups, so
+ * any prefix covers as many groups as it can - random within and across
+ * groups
+ */
+function stratify(testCases: TestCase[], random: Random): TestCase[] {
+	const groups = new Map<string, TestCase[]>();
+	for (const testCase of shuffle(testCases, random)) {
+		const key = `${testCase.toolId}|${getInvocationType(testCase)}`;
+		groups.set(key, [...(groups.get(key) ?? []), testCase]);
+	}
+
+	const ordered: TestCase[] = [];
+	const queues = Array.from(groups.values());
+	for (let round = 0; ordered.length < testCases.length; round++) {
+		for (const queue of queues) {
+			const testCase = queue[round];
+			if (testCase) ordered.push(testCase);
+		}
+	}
+	return ordered;
 }
 
 /**
  * Evaluate candidate on subsample with rate limiting
- * Returns accuracy on the subsample
+ * Returns the score on the subsample (accuracy - the robustness score for
+ * multi-model runs) and the evaluations behind it
  */
 export async function evaluateOnSubsample(
 	candidate: Candidate,
 	subsample: TestCase[],
-	model: ModelName,
 	limit: ReturnType<typeof pLimit>,
-): Promise<number> {
+	cache: EvaluationCache,
+	usage: UsageTracker,
+	settings: EvaluationSettings,
+	signal?: AbortSignal,
+): Promise<{ score: number; evaluations: EvalResult[] }> {
 	console.log(
 		`\n=== SUBSAMPLE EVALUATION (${subsample.length} test cases) ===`,
 	);
 
+	const multiModel = settings.models.length > 1;
+	const tasks = subsample.flatMap((testCase) =>
+		settings.models.map(({ model }) => ({ testCase, model })),
+	);
+
 	const results = await Promise.all(
-		subsample.map((testCase, idx) =>
+		tasks.map(({ testCase, model }, idx) =>
 			limit(async () => {
-				const { selectedTool } = await evaluateWithTools(
-					model,
-					testCase.query,
+				const result = await evaluateTestCase(
 					candidate.tools,
+					testCase,
+					model,
+					cache,
+					usage,
+					settings,
+					signal,
 				);
-				const correct = selectedTool === testCase.expectedTool;
-				const status = correct ? "✓" : "✗";
+				const status = result.error ? "!" : result.correct ? "✓" : "✗";
 				console.log(
-					`  Subsample ${idx + 1}/${subsample.length}: ${status} "${testCase.query.slice(0, 50)}..." → ${selectedTool || "none"} (expected: ${testCase.expectedTool})`,
+					`  Subsample ${idx + 1}/${tasks.length}: ${status}${result.cached ? " (cached)" : ""}${multiModel ? ` [${model}]` : ""} "${testCase.query.slice(0, 50)}..." → ${result.selectedTool || "none"} (expected: ${testCase.expectedTool})`,
 				);
-				return correct ? 1 : 0;
+				return result;
 			}),
 		),
 	);
-	const correctCount = results.reduce(
-		(sum, result) => sum + result,
-		0 as number,
-	);
-	const accuracy = correctCount / results.length;
+
+	// Failed calls are left out of the score
+	const { accuracy, robustness } = scoreEvaluations(results, settings);
+	const scored = results.filter((result) => !result.error);
+	const correctCount = scored.filter((result) => result.correct).length;
+	const errorCount = results.length - scored.length;
 	console.log(
-		`Subsample accuracy: ${(accuracy * 100).toFixed(1)}% (${correctCount}/${results.length})`,
+		`Subsample accuracy: ${(accuracy * 100).toFixed(1)}% (${correctCount}/${scored.length})${robustness !== undefined ? `, robustness ${(robustness * 100).toFixed(1)}%` : ""}${errorCount > 0 ? `, ${errorCount} errors excluded` : ""}`,
 	);
 	console.log("=== END SUBSAMPLE ===\n");
-	return accuracy;
+	return { score: robustness ?? accuracy, evaluations: results };
 }
 
 /**
  * Get parent's score on same subsample
- * Used to compare child candidate against parent baseline
+ * Used to compare child candidate against parent baseline, so it is scored
+ * the same way as evaluateOnSubsample
  */
 export function getParentSubsampleScore(
 	parent: EvaluatedCandidate,
 	subsample: TestCase[],
+	settings: EvaluationSettings,
 ): number {
 	const subsampleIds = new Set(subsample.map((testCase) => testCase.id));
 	const relevantEvaluations = parent.evaluations.filter((evaluation) =>
 		subsampleIds.has(evaluation.testCaseId),
 	);
-	if (relevantEvaluations.length === 0) return 0;
-	return (
-		relevantEvaluations.filter((evaluation) => evaluation.correct).length /
-		relevantEvaluations.length
-	);
+	return getSubsampleScore(relevantEvaluations, settings);
+}
+
+/**
+ * Score of subsample evaluations - accuracy, or robustness for multi-model
+ * runs
+ */
+export function getSubsampleScore(
+	evaluations: EvalResult[],
+	settings: EvaluationSettings,
+): number {
+	const { accuracy, robustness } = scoreEvaluations(evaluations, settings);
+	return robustness ?? accuracy;
 }
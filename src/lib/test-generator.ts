@@ -1,14 +1,21 @@
-import type { ModelName, TestCase, Tool } from "../types";
-import { generateTests } from "./llm";
+import type { ModelName, PromptTemplates, TestCase, Tool } from "../types";
+import { generateAbstentionTests, generateTests } from "./llm";
+import type { UsageTracker } from "./usage";
 
 /**
  * Generate test cases for all tools
+ * Abstention tests are queries near a tool that should get no tool call -
+ * they are listed under that tool (the one they might wrongly trigger)
+ * Tokens and cost of every generation call are added to usage
  */
 export async function generateTestCases(
 	tools: Tool[],
 	testsPerTool: number,
 	model: ModelName,
+	templates: PromptTemplates,
 	customPrompt?: string,
+	abstentionsPerTool = 0,
+	usage?: UsageTracker,
 ): Promise<TestCase[]> {
 	const testCases: TestCase[] = [];
 
@@ -18,7 +25,9 @@ export async function generateTestCases(
 				model,
 				tool,
 				testsPerTool,
+				templates["test-generation"],
 				customPrompt,
+				usage,
 			);
 
 			for (const query of queries) {
@@ -41,6 +50,36 @@ export async function generateTestCases(
 				userCreated: false,
 			});
 		}
+
+		if (abstentionsPerTool <= 0) continue;
+
+		try {
+			const queries = await generateAbstentionTests(
+				model,
+				tool,
+				tools.filter((t) => t.id !== tool.id),
+				abstentionsPerTool,
+				templates["abstention-test-generation"],
+				customPrompt,
+				usage,
+			);
+
+			for (const query of queries) {
+				testCases.push({
+					id: crypto.randomUUID(),
+					toolId: tool.id,
+					query,
+					expectedTool: "",
+					userCreated: false,
+					shouldCall: false,
+				});
+			}
+		} catch (error) {
+			console.error(
+				`Error generating abstention tests for tool ${tool.name}:`,
+				error,
+			);
+		}
 	}
 
 	return testCases;
@@ -0,0 +1,156 @@
+import type {
+	EvaluatedCandidate,
+	LengthMetric,
+	ModelName,
+	TokenizerFamily,
+	Tool,
+} from "../types";
+import { getModelProviderType } from "./model-registry";
+
+type TokenizerProfile = {
+	maxWordChars: number; // Longest word usually encoded as a single token
+	wordChars: number; // Characters per token in longer words
+	digitChars: number; // Digits per token
+	punctuationChars: number; // Punctuation characters per token
+};
+
+/**
+ * Local approximations of each provider's tokenizer - no network calls and
+ * no vocabulary files, so counts are estimates
+ * Claude's tokenizer splits words and punctuation a bit more finely than
+ * OpenAI's; generic covers local and unknown models
+ */
+const PROFILES: Record<TokenizerFamily, TokenizerProfile> = {
+	anthropic: {
+		maxWordChars: 6,
+		wordChars: 3.5,
+		digitChars: 3,
+		punctuationChars: 1.5,
+	},
+	openai: { maxWordChars: 8, wordChars: 4, digitChars: 3, punctuationChars: 2 },
+	generic: {
+		maxWordChars: 6,
+		wordChars: 4,
+		digitChars: 2,
+		punctuationChars: 1.5,
+	},
+};
+
+// Words (with their leading space), numbers, whitespace runs, punctuation runs
+const PIECES = / ?\p{L}+| ?\p{N}+|\s+|[^\s\p{L}\p{N}]+/gu;
+
+export type ToolLengths = Pick<
+	EvaluatedCandidate,
+	"avgDescriptionLength" | "avgToolTokens" | "toolTokens" | "toolListTokens"
+>;
+
+/**
+ * Tokenizer approximation for a model, by the type of its provider
+ */
+export function getTokenizerFamily(model: ModelName): TokenizerFamily {
+	switch (getModelProviderType(model)) {
+		case "anthropic":
+			return "anthropic";
+		case "openai":
+			return "openai";
+		default:
+			return "generic";
+	}
+}
+
+/**
+ * Estimate the number of tokens in a text
+ */
+export function countTokens(text: string, family: TokenizerFamily): number {
+	const profile = PROFILES[family];
+	let tokens = 0;
+
+	for (const [piece] of text.matchAll(PIECES)) {
+		// A single leading space is merged into the following word or number
+		const body = piece.length > 1 ? piece.replace(/^ /, "") : piece;
+
+		if (/^\s+$/.test(body)) {
+			tokens++;
+		} else if (/^\p{N}+$/u.test(body)) {
+			tokens += Math.ceil(body.length / profile.digitChars);
+		} else if (/^\p{L}+$/u.test(body)) {
+			// Non-Latin scripts come out at roughly a token per character
+			if (/[^a-z]/i.test(body)) tokens += body.length;
+			else if (body.length <= profile.maxWordChars) tokens++;
+			else tokens += Math.ceil(body.length / profile.wordChars);
+		} else {
+			tokens += Math.ceil(body.length / profile.punctuationChars);
+		}
+	}
+
+	return tokens;
+}
+
+/**
+ * A tool definition as the provider's API receives it
+ */
+function serializeTool(tool: Tool, family: TokenizerFamily): unknown {
+	if (family === "anthropic") {
+		return {
+			name: tool.name,
+			description: tool.description,
+			input_schema: tool.inputSchema,
+		};
+	}
+	return {
+		type: "function",
+		function: {
+			name: tool.name,
+			description: tool.description,
+			parameters: tool.inputSchema,
+		},
+	};
+}
+
+/**
+ * Description length in characters, and estimated tokens per tool
+ * definition (name, description and inputSchema) and for the whole
+ * serialized tool list
+ */
+export function measureTools(
+	tools: Tool[],
+	family: TokenizerFamily,
+): ToolLengths {
+	const serialized = tools.map((tool) => serializeTool(tool, family));
+	const toolTokens = Object.fromEntries(
+		tools.map((tool, i) => [
+			tool.name,
+			countTokens(JSON.stringify(serialized[i]), family),
+		]),
+	);
+
+	const count = Math.max(1, tools.length);
+	return {
+		avgDescriptionLength:
+			tools.reduce((sum, t) => sum + (t.description?.length || 0), 0) / count,
+		avgToolTokens:
+			Object.values(toolTokens).reduce((sum, n) => sum + n, 0) / count,
+		toolTokens,
+		toolListTokens: countTokens(JSON.stringify(serialized), family),
+	};
+}
+
+/**
+ * The conciseness objective: average description characters, or average
+ * tokens per tool definition
+ */
+export function getObjectiveLength(
+	lengths: Pick<ToolLengths, "avgDescriptionLength" | "avgToolTokens">,
+	metric: LengthMetric,
+): number {
+	return metric === "tokens"
+		? lengths.avgToolTokens
+		: lengths.avgDescriptionLength;
+}
+
+/**
+ * Format an objective length with its unit, e.g. "120 chars" or "45 tokens"
+ */
+export function formatLength(length: number, metric: LengthMetric): string {
+	return `${length.toFixed(0)} ${metric === "tokens" ? "tokens" : "chars"}`;
+}
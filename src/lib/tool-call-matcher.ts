@@ -0,0 +1,108 @@
+import type { ExpectedCalls } from "../types";
+import { isObject } from "./json-schema";
+
+/**
+ * Validate a multi-tool expectation from user input, throwing on bad shapes
+ */
+export function parseExpectedCalls(input: unknown): ExpectedCalls {
+	if (!isObject(input)) {
+		throw new Error("Expected calls must be an object");
+	}
+
+	const { type, tools } = input;
+	if (type !== "set" && type !== "sequence" && type !== "any-of") {
+		throw new Error(
+			`Unknown expected calls type: ${String(type)} (expected set, sequence or any-of)`,
+		);
+	}
+	if (
+		!Array.isArray(tools) ||
+		tools.length === 0 ||
+		!tools.every(
+			(tool): tool is string => typeof tool === "string" && tool.length > 0,
+		)
+	) {
+		throw new Error(`${type} expectation needs a non-empty list of tool names`);
+	}
+	if (type !== "sequence" && new Set(tools).size !== tools.length) {
+		throw new Error(`${type} expectation lists a tool twice`);
+	}
+
+	return { type, tools };
+}
+
+/**
+ * Check the tools called in one turn against a multi-tool expectation
+ * - set: exactly the expected tools in any order - credit is the overlap
+ *   (intersection over union), so missing and extra tools both cost
+ * - sequence: the calls start with the expected tools in order, later calls
+ *   are ignored - credit is the share of the sequence matched before the
+ *   first mismatch
+ * - any-of: the first call is one of the acceptable tools
+ * Correct means full credit
+ */
+export function matchToolCalls(
+	expected: ExpectedCalls,
+	calledTools: string[],
+): { correct: boolean; credit: number } {
+	let credit: number;
+
+	switch (expected.type) {
+		case "set": {
+			const called = new Set(calledTools);
+			const matched = expected.tools.filter((tool) => called.has(tool)).length;
+			credit = matched / new Set([...expected.tools, ...called]).size;
+			break;
+		}
+		case "sequence": {
+			let matched = 0;
+			while (
+				matched < expected.tools.length &&
+				calledTools[matched] === expected.tools[matched]
+			) {
+				matched++;
+			}
+			credit = matched / expected.tools.length;
+			break;
+		}
+		case "any-of":
+			credit = expected.tools.includes(calledTools[0] ?? "") ? 1 : 0;
+			break;
+	}
+
+	return { correct: credit === 1, credit };
+}
+
+/**
+ * Expected tools the model did not call where it should have - the ones a
+ * reflection should rewrite
+ */
+export function getMissedTools(
+	expected: ExpectedCalls,
+	calledTools: string[],
+): string[] {
+	switch (expected.type) {
+		case "set":
+			return expected.tools.filter((tool) => !calledTools.includes(tool));
+		case "sequence":
+			return expected.tools.filter((tool, i) => calledTools[i] !== tool);
+		case "any-of":
+			return expected.tools.includes(calledTools[0] ?? "")
+				? []
+				: expected.tools;
+	}
+}
+
+/**
+ * Readable expectation, e.g. "search_files then read_file"
+ */
+export function formatExpectedCalls(expected: ExpectedCalls): string {
+	switch (expected.type) {
+		case "set":
+			return `all of ${expected.tools.join(", ")} (any order)`;
+		case "sequence":
+			return expected.tools.join(" then ");
+		case "any-of":
+			return `one of ${expected.tools.join(", ")}`;
+	}
+}
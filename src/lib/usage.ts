@@ -0,0 +1,55 @@
+import type { LanguageModelUsage } from "ai";
+import type { ModelName } from "../types";
+import { MODEL_PRICING } from "./constants";
+
+/**
+ * Token usage and dollar cost accumulated over a run
+ */
+export interface UsageTracker {
+	inputTokens: number;
+	outputTokens: number;
+	costUsd: number;
+}
+
+/**
+ * Create empty usage tracker
+ */
+export function createUsageTracker(): UsageTracker {
+	return { inputTokens: 0, outputTokens: 0, costUsd: 0 };
+}
+
+/**
+ * Cost of a call in USD - models without a price entry are free
+ */
+export function calculateCost(
+	model: ModelName,
+	inputTokens: number,
+	outputTokens: number,
+): number {
+	const pricing = MODEL_PRICING[model];
+	if (!pricing) return 0;
+
+	return (
+		(inputTokens * pricing.inputPerMillion +
+			outputTokens * pricing.outputPerMillion) /
+		1_000_000
+	);
+}
+
+/**
+ * Add the usage reported by an AI SDK call to the tracker
+ */
+export function recordUsage(
+	tracker: UsageTracker | undefined,
+	model: ModelName,
+	usage: LanguageModelUsage,
+): void {
+	if (!tracker) return;
+
+	const inputTokens = usage.inputTokens ?? 0;
+	const outputTokens = usage.outputTokens ?? 0;
+
+	tracker.inputTokens += inputTokens;
+	tracker.outputTokens += outputTokens;
+	tracker.costUsd += calculateCost(model, inputTokens, outputTokens);
+}
@@ -1,15 +1,54 @@
 import type { OAuthClientProvider } from "@modelcontextprotocol/sdk/client/auth.js";
 import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
 import type { BunRequest } from "bun";
-import { eq } from "drizzle-orm";
+import { and, eq, isNull } from "drizzle-orm";
 import { db } from "./db";
 import * as schema from "./db/schema";
+import { parseArgumentMatcher } from "./lib/argument-matcher";
+import { PROVIDER_API_KEY_ENV_PREFIX } from "./lib/constants";
+import { lastUserMessage, parseConversation } from "./lib/conversation";
+import { getEvaluationSettings } from "./lib/evaluator";
 import { runGEPA } from "./lib/gepa";
 import { runGoldenOptimizer } from "./lib/golden-optimizer";
+import { parseHostContext } from "./lib/host-context";
 import { connectMCP, listTools } from "./lib/mcp-client";
+import {
+	getProvider,
+	hasModel,
+	listModels,
+	listProviders,
+	registerModel,
+	registerProvider,
+	unregisterProvider,
+} from "./lib/model-registry";
 import { MCPOAuthProvider } from "./lib/oauth-provider";
+import {
+	loadPromptTemplates,
+	PROMPT_TEMPLATES,
+	parsePromptTemplate,
+} from "./lib/prompt-templates";
+import { createSeed } from "./lib/random";
+import { loadResumeState } from "./lib/resume";
 import { generateTestCases } from "./lib/test-generator";
-import type { MCPConfig, OptimizationConfig, ProgressEvent } from "./types";
+import { parseExpectedCalls } from "./lib/tool-call-matcher";
+import { createUsageTracker } from "./lib/usage";
+import type {
+	ArgumentMatcher,
+	ConversationMessage,
+	ExpectedCalls,
+	GEPAResumeState,
+	HostContext,
+	MCPConfig,
+	ModelDefinition,
+	ModelProviderConfig,
+	ModelProviderType,
+	OptimizationConfig,
+	ProgressEvent,
+	PromptVersions,
+	TestCase,
+	TestSplitIds,
+	Tool,
+} from "./types";
 import homepage from "./ui/index.html";
 
 const PORT = parseInt(process.env.PORT || "3000", 10);
@@ -20,6 +59,19 @@ const mcpClients = new Map<string, Client>();
 // Store active optimization runs (for cancellation)
 const activeRuns = new Map<string, AbortController>();
 
+// Runs still "running" at startup lost their optimizer when the server
+// stopped - mark them interrupted so they can be resumed
+const orphanedRuns = await db
+	.update(schema.optimizationRuns)
+	.set({ status: "interrupted" })
+	.where(eq(schema.optimizationRuns.status, "running"))
+	.returning({ id: schema.optimizationRuns.id });
+if (orphanedRuns.length > 0) {
+	console.log(
+		`Marked ${orphanedRuns.length} orphaned run(s) as interrupted: ${orphanedRuns.map((run) => run.id).join(", ")}`,
+	);
+}
+
 // CORS headers helper
 const corsHeaders = {
 	"Access-Control-Allow-Origin": "*",
@@ -136,6 +188,27 @@ export default {
 			return response;
 		},
 
+		"/api/mcp/servers/:serverId/host-context": async (
+			req: BunRequest<"/api/mcp/servers/:serverId/host-context">,
+		) => {
+			const startTime = Date.now();
+			if (req.method !== "PUT") {
+				const response = new Response("Method Not Allowed", {
+					status: 405,
+					headers: corsHeaders,
+				});
+				logRequest(req, 405, startTime);
+				return response;
+			}
+			const response = await handleUpdateHostContext(
+				req.params.serverId,
+				req,
+				corsHeaders,
+			);
+			logRequest(req, response.status, startTime);
+			return response;
+		},
+
 		"/api/mcp/servers": async (req: Request) => {
 			const startTime = Date.now();
 			if (req.method !== "GET") {
@@ -324,6 +397,21 @@ export default {
 			return response;
 		},
 
+		"/api/optimize/resume": async (req: Request) => {
+			const startTime = Date.now();
+			if (req.method !== "POST") {
+				const response = new Response("Method Not Allowed", {
+					status: 405,
+					headers: corsHeaders,
+				});
+				logRequest(req, 405, startTime);
+				return response;
+			}
+			const response = await handleResumeOptimization(req, corsHeaders);
+			logRequest(req, response.status, startTime);
+			return response;
+		},
+
 		"/api/optimize/stop": async (req: Request) => {
 			const startTime = Date.now();
 			if (req.method !== "POST") {
@@ -339,6 +427,107 @@ export default {
 			return response;
 		},
 
+		"/api/models": async (req: Request) => {
+			const startTime = Date.now();
+			if (req.method !== "GET") {
+				const response = new Response("Method Not Allowed", {
+					status: 405,
+					headers: corsHeaders,
+				});
+				logRequest(req, 405, startTime);
+				return response;
+			}
+			const response = handleListModels(corsHeaders);
+			logRequest(req, response.status, startTime);
+			return response;
+		},
+
+		"/api/providers": async (req: Request) => {
+			const startTime = Date.now();
+			if (req.method !== "GET") {
+				const response = new Response("Method Not Allowed", {
+					status: 405,
+					headers: corsHeaders,
+				});
+				logRequest(req, 405, startTime);
+				return response;
+			}
+			const response = handleListProviders(corsHeaders);
+			logRequest(req, response.status, startTime);
+			return response;
+		},
+
+		"/api/providers/add": async (req: Request) => {
+			const startTime = Date.now();
+			if (req.method !== "POST") {
+				const response = new Response("Method Not Allowed", {
+					status: 405,
+					headers: corsHeaders,
+				});
+				logRequest(req, 405, startTime);
+				return response;
+			}
+			const response = await handleAddProvider(req, corsHeaders);
+			logRequest(req, response.status, startTime);
+			return response;
+		},
+
+		"/api/providers/:providerId": async (
+			req: BunRequest<"/api/providers/:providerId">,
+		) => {
+			const startTime = Date.now();
+			if (req.method !== "DELETE") {
+				const response = new Response("Method Not Allowed", {
+					status: 405,
+					headers: corsHeaders,
+				});
+				logRequest(req, 405, startTime);
+				return response;
+			}
+			const response = await handleDeleteProvider(
+				req.params.providerId,
+				corsHeaders,
+			);
+			logRequest(req, response.status, startTime);
+			return response;
+		},
+
+		"/api/prompt-templates": async (req: Request) => {
+			const startTime = Date.now();
+			if (req.method !== "GET") {
+				const response = new Response("Method Not Allowed", {
+					status: 405,
+					headers: corsHeaders,
+				});
+				logRequest(req, 405, startTime);
+				return response;
+			}
+			const response = await handleListPromptTemplates(corsHeaders);
+			logRequest(req, response.status, startTime);
+			return response;
+		},
+
+		"/api/prompt-templates/:name": async (
+			req: BunRequest<"/api/prompt-templates/:name">,
+		) => {
+			const startTime = Date.now();
+			if (req.method !== "PUT") {
+				const response = new Response("Method Not Allowed", {
+					status: 405,
+					headers: corsHeaders,
+				});
+				logRequest(req, 405, startTime);
+				return response;
+			}
+			const response = await handleSavePromptTemplate(
+				req.params.name,
+				req,
+				corsHeaders,
+			);
+			logRequest(req, response.status, startTime);
+			return response;
+		},
+
 		"/api/runs": async (req: Request) => {
 			const startTime = Date.now();
 			if (req.method !== "GET") {
@@ -689,6 +878,33 @@ async function handleListServers(corsHeaders: Record<string, string>) {
 	return Response.json(servers, { headers: corsHeaders });
 }
 
+async function handleUpdateHostContext(
+	serverId: string,
+	req: Request,
+	corsHeaders: Record<string, string>,
+) {
+	const { hostContext } = await req.json();
+
+	let parsed: HostContext | undefined;
+	try {
+		parsed = parseHostContext(hostContext);
+	} catch (error) {
+		return Response.json(
+			{
+				error: error instanceof Error ? error.message : "Invalid host context",
+			},
+			{ status: 400, headers: corsHeaders },
+		);
+	}
+
+	await db
+		.update(schema.mcpServers)
+		.set({ hostContext: parsed ? JSON.stringify(parsed) : null })
+		.where(eq(schema.mcpServers.id, serverId));
+
+	return Response.json({ success: true }, { headers: corsHeaders });
+}
+
 async function handleDeleteServer(
 	serverId: string,
 	corsHeaders: Record<string, string>,
@@ -1247,7 +1463,8 @@ async function handleGenerateTests(
 	req: Request,
 	corsHeaders: Record<string, string>,
 ) {
-	const { serverId, testsPerTool, model, customPrompt } = await req.json();
+	const { serverId, testsPerTool, abstentionsPerTool, model, customPrompt } =
+		await req.json();
 
 	const toolsData = await db
 		.select()
@@ -1281,19 +1498,30 @@ async function handleGenerateTests(
 		await db.delete(schema.testCases).where(eq(schema.testCases.id, test.id));
 	}
 
+	const templates = await loadPromptTemplates();
+	const usage = createUsageTracker();
 	const testCases = await generateTestCases(
 		tools,
 		testsPerTool,
 		model,
+		templates,
 		customPrompt,
+		abstentionsPerTool ?? 0,
+		usage,
 	);
 
-	// Save to DB
-	for (const testCase of testCases) {
+	// Save to DB (generated tests are single-turn and only check the tool,
+	// or that no tool is called)
+	for (const {
+		expectedArguments: _,
+		messages: __,
+		expectedCalls: ___,
+		...testCase
+	} of testCases) {
 		await db.insert(schema.testCases).values(testCase);
 	}
 
-	return Response.json({ testCases }, { headers: corsHeaders });
+	return Response.json({ testCases, usage }, { headers: corsHeaders });
 }
 
 async function handleGetTests(url: URL, corsHeaders: Record<string, string>) {
@@ -1326,11 +1554,83 @@ async function handleAddTest(
 	req: Request,
 	corsHeaders: Record<string, string>,
 ) {
-	const testCase = await req.json();
+	const {
+		expectedArguments,
+		messages,
+		expectedCalls,
+		shouldCall,
+		...testCase
+	} = await req.json();
+
+	// Abstention tests only check that no tool is called
+	const abstention = shouldCall === false;
+	if (abstention && (expectedArguments || expectedCalls)) {
+		return Response.json(
+			{
+				error:
+					"Abstention tests expect no tool call - they cannot check arguments or expected calls",
+			},
+			{ status: 400, headers: corsHeaders },
+		);
+	}
+
+	let matcher: ArgumentMatcher | undefined;
+	if (expectedArguments) {
+		try {
+			matcher = parseArgumentMatcher(expectedArguments);
+		} catch (error) {
+			return Response.json(
+				{ error: error instanceof Error ? error.message : "Invalid matcher" },
+				{ status: 400, headers: corsHeaders },
+			);
+		}
+	}
+
+	let conversation: ConversationMessage[] | undefined;
+	if (messages) {
+		try {
+			conversation = parseConversation(messages);
+		} catch (error) {
+			return Response.json(
+				{
+					error:
+						error instanceof Error ? error.message : "Invalid conversation",
+				},
+				{ status: 400, headers: corsHeaders },
+			);
+		}
+	}
+
+	let expectation: ExpectedCalls | undefined;
+	if (expectedCalls) {
+		try {
+			expectation = parseExpectedCalls(expectedCalls);
+		} catch (error) {
+			return Response.json(
+				{
+					error:
+						error instanceof Error ? error.message : "Invalid expected calls",
+				},
+				{ status: 400, headers: corsHeaders },
+			);
+		}
+	}
 
 	await db.insert(schema.testCases).values({
 		id: crypto.randomUUID(),
 		...testCase,
+		// Multi-tool tests are listed under their first expected tool,
+		// abstention tests under the tool they might wrongly trigger (toolId)
+		expectedTool: abstention
+			? ""
+			: (expectation?.tools[0] ?? testCase.expectedTool),
+		shouldCall: abstention ? false : null,
+		// Multi-turn tests are labelled by their last user message by default
+		query:
+			testCase.query || (conversation ? lastUserMessage(conversation) : ""),
+		expectedArguments: matcher ? JSON.stringify(matcher) : null,
+		messages: conversation ? JSON.stringify(conversation) : null,
+		expectedCalls: expectation ? JSON.stringify(expectation) : null,
 		userCreated: true,
 	});
 
@@ -1353,60 +1653,416 @@ async function handleStartOptimization(
 	const { serverId, config }: { serverId: string; config: OptimizationConfig } =
 		await req.json();
 
-	// Get tools and test cases
-	const toolsData = await db
-		.select()
-		.from(schema.tools)
-		.where(eq(schema.tools.serverId, serverId));
-
-	const tools = toolsData
-		.filter(
-			(t): t is typeof t & { serverId: string } =>
-				t.serverId !== null && t.optimizationStatus === "selected",
-		)
-		.map((t) => ({
-			id: t.id,
-			name: t.name,
-			description: t.description,
-			inputSchema: JSON.parse(t.inputSchema),
-			serverId: t.serverId,
-		}));
+	for (const model of [config.evaluationModel, config.generationModel]) {
+		if (!hasModel(model)) {
+			return Response.json(
+				{ error: `Unknown model: ${model}` },
+				{ status: 400, headers: corsHeaders },
+			);
+		}
+	}
 
-	const testCasesData = await db.select().from(schema.testCases);
+	if (
+		config.maxCostUsd !== undefined &&
+		!(typeof config.maxCostUsd === "number" && config.maxCostUsd > 0)
+	) {
+		return Response.json(
+			{ error: "maxCostUsd must be a positive number" },
+			{ status: 400, headers: corsHeaders },
+		);
+	}
 
-	// Filter test cases for this server's selected tools
-	const toolIds = tools.map((t) => t.id);
-	const testCases = testCasesData
-		.filter(
-			(t): t is typeof t & { toolId: string; userCreated: boolean } =>
-				t.toolId !== null &&
-				toolIds.includes(t.toolId) &&
-				t.userCreated !== null,
+	if (
+		config.samplesPerTest !== undefined &&
+		!(
+			Number.isInteger(config.samplesPerTest) &&
+			config.samplesPerTest >= 1 &&
+			config.samplesPerTest <= 20
 		)
-		.map((t) => ({
-			id: t.id,
-			toolId: t.toolId,
-			query: t.query,
-			expectedTool: t.expectedTool,
-			userCreated: t.userCreated,
-		}));
+	) {
+		return Response.json(
+			{ error: "samplesPerTest must be an integer from 1 to 20" },
+			{ status: 400, headers: corsHeaders },
+		);
+	}
 
-	const runId = crypto.randomUUID();
+	if (
+		config.samplingTemperature !== undefined &&
+		!(
+			typeof config.samplingTemperature === "number" &&
+			config.samplingTemperature >= 0 &&
+			config.samplingTemperature <= 2
+		)
+	) {
+		return Response.json(
+			{ error: "samplingTemperature must be between 0 and 2" },
+			{ status: 400, headers: corsHeaders },
+		);
+	}
 
-	// Create run record
-	await db.insert(schema.optimizationRuns).values({
-		id: runId,
-		serverId,
-		startedAt: new Date(),
-		config: JSON.stringify(config),
-		status: "running",
-	});
+	if (
+		config.mergeProbability !== undefined &&
+		!(
+			typeof config.mergeProbability === "number" &&
+			config.mergeProbability >= 0 &&
+			config.mergeProbability <= 1
+		)
+	) {
+		return Response.json(
+			{ error: "mergeProbability must be between 0 and 1" },
+			{ status: 400, headers: corsHeaders },
+		);
+	}
 
-	// Create SSE stream
-	const abortController = new AbortController();
-	activeRuns.set(runId, abortController);
+	if (
+		config.reflectionBatchSize !== undefined &&
+		!(
+			Number.isInteger(config.reflectionBatchSize) &&
+			config.reflectionBatchSize >= 1 &&
+			config.reflectionBatchSize <= 10
+		)
+	) {
+		return Response.json(
+			{ error: "reflectionBatchSize must be an integer from 1 to 10" },
+			{ status: 400, headers: corsHeaders },
+		);
+	}
 
-	const stream = new ReadableStream({
+	if (
+		config.targetAccuracy !== undefined &&
+		!(
+			typeof config.targetAccuracy === "number" &&
+			config.targetAccuracy > 0 &&
+			config.targetAccuracy <= 1
+		)
+	) {
+		return Response.json(
+			{ error: "targetAccuracy must be greater than 0 and at most 1" },
+			{ status: 400, headers: corsHeaders },
+		);
+	}
+
+	if (
+		config.targetLength !== undefined &&
+		!(typeof config.targetLength === "number" && config.targetLength > 0)
+	) {
+		return Response.json(
+			{ error: "targetLength must be a positive number" },
+			{ status: 400, headers: corsHeaders },
+		);
+	}
+
+	if (
+		config.paretoPatience !== undefined &&
+		!(Number.isInteger(config.paretoPatience) && config.paretoPatience >= 1)
+	) {
+		return Response.json(
+			{ error: "paretoPatience must be a positive integer" },
+			{ status: 400, headers: corsHeaders },
+		);
+	}
+
+	if (
+		config.hypervolumePatience !== undefined &&
+		!(
+			Number.isInteger(config.hypervolumePatience) &&
+			config.hypervolumePatience >= 1
+		)
+	) {
+		return Response.json(
+			{ error: "hypervolumePatience must be a positive integer" },
+			{ status: 400, headers: corsHeaders },
+		);
+	}
+
+	if (
+		config.seed !== undefined &&
+		!(
+			Number.isInteger(config.seed) &&
+			config.seed >= 0 &&
+			config.seed < 2 ** 32
+		)
+	) {
+		return Response.json(
+			{ error: "seed must be an integer from 0 to 4294967295" },
+			{ status: 400, headers: corsHeaders },
+		);
+	}
+
+	if (
+		config.validationSplit !== undefined &&
+		!(
+			typeof config.validationSplit === "number" &&
+			config.validationSplit >= 0 &&
+			config.validationSplit < 1
+		)
+	) {
+		return Response.json(
+			{ error: "validationSplit must be a number from 0 to less than 1" },
+			{ status: 400, headers: corsHeaders },
+		);
+	}
+
+	if (
+		config.testSplit !== undefined &&
+		!(
+			typeof config.testSplit === "number" &&
+			config.testSplit >= 0 &&
+			config.testSplit < 1
+		)
+	) {
+		return Response.json(
+			{ error: "testSplit must be a number from 0 to less than 1" },
+			{ status: 400, headers: corsHeaders },
+		);
+	}
+
+	if ((config.validationSplit ?? 0) + (config.testSplit ?? 0) >= 1) {
+		return Response.json(
+			{
+				error:
+					"validationSplit and testSplit must leave test cases to train on",
+			},
+			{ status: 400, headers: corsHeaders },
+		);
+	}
+
+	if (config.evaluationModels !== undefined) {
+		if (!Array.isArray(config.evaluationModels)) {
+			return Response.json(
+				{ error: "evaluationModels must be an array" },
+				{ status: 400, headers: corsHeaders },
+			);
+		}
+		for (const entry of config.evaluationModels) {
+			if (!hasModel(entry?.model)) {
+				return Response.json(
+					{ error: `Unknown model: ${entry?.model}` },
+					{ status: 400, headers: corsHeaders },
+				);
+			}
+			if (!(typeof entry.weight === "number" && entry.weight > 0)) {
+				return Response.json(
+					{ error: `Weight for ${entry.model} must be a positive number` },
+					{ status: 400, headers: corsHeaders },
+				);
+			}
+		}
+	}
+
+	if (
+		config.robustnessMetric !== undefined &&
+		config.robustnessMetric !== "min" &&
+		config.robustnessMetric !== "weighted-mean"
+	) {
+		return Response.json(
+			{ error: "robustnessMetric must be min or weighted-mean" },
+			{ status: 400, headers: corsHeaders },
+		);
+	}
+
+	if (
+		config.subsampleStrategy !== undefined &&
+		!["random", "mutated-tools", "stratified", "failure-aware"].includes(
+			config.subsampleStrategy,
+		)
+	) {
+		return Response.json(
+			{
+				error:
+					"subsampleStrategy must be random, mutated-tools, stratified or failure-aware",
+			},
+			{ status: 400, headers: corsHeaders },
+		);
+	}
+
+	if (
+		config.acceptanceTest !== undefined &&
+		!["threshold", "sequential", "mcnemar", "bootstrap"].includes(
+			config.acceptanceTest,
+		)
+	) {
+		return Response.json(
+			{
+				error:
+					"acceptanceTest must be threshold, sequential, mcnemar or bootstrap",
+			},
+			{ status: 400, headers: corsHeaders },
+		);
+	}
+
+	if (
+		config.significanceLevel !== undefined &&
+		!(
+			typeof config.significanceLevel === "number" &&
+			config.significanceLevel > 0 &&
+			config.significanceLevel < 1
+		)
+	) {
+		return Response.json(
+			{ error: "significanceLevel must be between 0 and 1 (exclusive)" },
+			{ status: 400, headers: corsHeaders },
+		);
+	}
+
+	if (
+		config.selectionStrategy !== undefined &&
+		!["pareto-frequency", "global-score", "tournament", "ucb"].includes(
+			config.selectionStrategy,
+		)
+	) {
+		return Response.json(
+			{
+				error:
+					"selectionStrategy must be pareto-frequency, global-score, tournament or ucb",
+			},
+			{ status: 400, headers: corsHeaders },
+		);
+	}
+
+	if (
+		config.lengthMetric !== undefined &&
+		config.lengthMetric !== "characters" &&
+		config.lengthMetric !== "tokens"
+	) {
+		return Response.json(
+			{ error: "lengthMetric must be characters or tokens" },
+			{ status: 400, headers: corsHeaders },
+		);
+	}
+
+	// Per-run host context wins over the server's default
+	let hostContext: HostContext | undefined;
+	try {
+		hostContext = parseHostContext(config.hostContext);
+	} catch (error) {
+		return Response.json(
+			{
+				error: error instanceof Error ? error.message : "Invalid host context",
+			},
+			{ status: 400, headers: corsHeaders },
+		);
+	}
+	if (config.hostContext === undefined) {
+		const [server] = await db
+			.select()
+			.from(schema.mcpServers)
+			.where(eq(schema.mcpServers.id, serverId));
+		hostContext = server?.hostContext
+			? (JSON.parse(server.hostContext) as HostContext)
+			: undefined;
+	}
+
+	const { tools, testCases } = await loadOptimizationData(serverId);
+
+	// Every GEPA run gets a seed, stored with its config, so it can be replayed
+	if (config.optimizer !== "golden") {
+		config.seed ??= createSeed();
+	}
+
+	const runId = crypto.randomUUID();
+
+	// Create run record
+	await db.insert(schema.optimizationRuns).values({
+		id: runId,
+		serverId,
+		startedAt: new Date(),
+		// Store the resolved host context so the run can be reproduced
+		config: JSON.stringify({ ...config, hostContext }),
+		status: "running",
+	});
+
+	// Create SSE stream
+	const abortController = new AbortController();
+	activeRuns.set(runId, abortController);
+
+	return streamOptimization(
+		runId,
+		abortController,
+		config,
+		hostContext,
+		tools,
+		testCases,
+		corsHeaders,
+	);
+}
+
+/**
+ * Tools of a server and their test cases - the tools selected for
+ * optimization, or those named in toolNames
+ */
+async function loadOptimizationData(
+	serverId: string,
+	toolNames?: string[],
+): Promise<{ tools: Tool[]; testCases: TestCase[] }> {
+	const toolsData = await db
+		.select()
+		.from(schema.tools)
+		.where(eq(schema.tools.serverId, serverId));
+
+	const tools = toolsData
+		.filter(
+			(t): t is typeof t & { serverId: string } =>
+				t.serverId !== null &&
+				(toolNames
+					? toolNames.includes(t.name)
+					: t.optimizationStatus === "selected"),
+		)
+		.map((t) => ({
+			id: t.id,
+			name: t.name,
+			description: t.description,
+			inputSchema: JSON.parse(t.inputSchema),
+			serverId: t.serverId,
+		}));
+
+	const testCasesData = await db.select().from(schema.testCases);
+
+	// Filter test cases for these tools
+	const toolIds = tools.map((t) => t.id);
+	const testCases = testCasesData
+		.filter(
+			(t): t is typeof t & { toolId: string; userCreated: boolean } =>
+				t.toolId !== null &&
+				toolIds.includes(t.toolId) &&
+				t.userCreated !== null,
+		)
+		.map((t) => ({
+			id: t.id,
+			toolId: t.toolId,
+			query: t.query,
+			expectedTool: t.expectedTool,
+			userCreated: t.userCreated,
+			expectedArguments: t.expectedArguments
+				? (JSON.parse(t.expectedArguments) as ArgumentMatcher)
+				: undefined,
+			messages: t.messages
+				? (JSON.parse(t.messages) as ConversationMessage[])
+				: undefined,
+			expectedCalls: t.expectedCalls
+				? (JSON.parse(t.expectedCalls) as ExpectedCalls)
+				: undefined,
+			shouldCall: t.shouldCall ?? undefined,
+		}));
+
+	return { tools, testCases };
+}
+
+/**
+ * Run the optimizer, streaming its events over SSE and persisting them
+ * A resumed run replays its stored events first
+ */
+function streamOptimization(
+	runId: string,
+	abortController: AbortController,
+	config: OptimizationConfig,
+	hostContext: HostContext | undefined,
+	tools: Tool[],
+	testCases: TestCase[],
+	corsHeaders: Record<string, string>,
+	resume?: GEPAResumeState,
+): Response {
+	const stream = new ReadableStream({
 		async start(controller) {
 			let clientConnected = true;
 
@@ -1422,6 +2078,11 @@ async function handleStartOptimization(
 				}
 			};
 
+			// A stopped run stays in activeRuns until its stream unwinds, so
+			// a resume cannot start a second optimizer for it - and once one
+			// has, this stream must leave the run's status and controller alone
+			const ownsRun = () => activeRuns.get(runId) === abortController;
+
 			try {
 				// Emit optimization start event with runId
 				const startEvent: ProgressEvent = {
@@ -1431,6 +2092,18 @@ async function handleStartOptimization(
 				const startData = `data: ${JSON.stringify(startEvent)}\n\n`;
 				sendToClient(startData);
 
+				// Replay the history of a resumed run before its new events
+				if (resume) {
+					const history = await db
+						.select()
+						.from(schema.events)
+						.where(eq(schema.events.runId, runId));
+					history.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+					for (const eventRow of history) {
+						sendToClient(`data: ${eventRow.event}\n\n`);
+					}
+				}
+
 				// Choose optimizer based on config
 				if (config.optimizer === "golden") {
 					await runGoldenOptimizer({
@@ -1441,6 +2114,13 @@ async function handleStartOptimization(
 						maxConcurrentEvaluations: config.maxConcurrentEvaluations,
 						testCasesPerCategory: config.testCasesPerCategory || 10,
 						candidateCount: config.candidateCount || 10,
+						hostContext,
+						samplesPerTest: config.samplesPerTest,
+						samplingTemperature: config.samplingTemperature,
+						evaluationModels: config.evaluationModels,
+						robustnessMetric: config.robustnessMetric,
+						lengthMetric: config.lengthMetric,
+						signal: abortController.signal,
 						onProgress: async (event: ProgressEvent) => {
 							// Check if aborted
 							if (abortController.signal.aborted) {
@@ -1488,26 +2168,95 @@ async function handleStartOptimization(
 									generation: event.generation,
 									toolDescriptions: JSON.stringify(event.toolDescriptions),
 									accuracy: event.accuracy,
+									argumentAccuracy: event.argumentAccuracy,
+									errorCount: event.errorCount,
+									expectedAccuracy: event.expectedAccuracy,
+									stability: event.stability,
+									modelAccuracy: event.modelAccuracy
+										? JSON.stringify(event.modelAccuracy)
+										: null,
+									robustness: event.robustness,
 									avgDescriptionLength: event.avgLength,
+									avgToolTokens: event.avgTokens,
+									toolListTokens: event.toolListTokens,
+									toolTokens: event.toolTokens
+										? JSON.stringify(event.toolTokens)
+										: null,
 									isPareto: event.isPareto,
 									precision: event.precision,
 									recall: event.recall,
 									variationType: event.variationType,
+									promptVersions: event.promptVersions
+										? JSON.stringify(event.promptVersions)
+										: null,
+									diagnosis: event.diagnosis,
+									rationale: event.rationale,
 									status: event.status,
 									rejectionReason: event.rejectionReason,
 									parentId: event.parentId,
+									mergeParentId: event.mergeParentId,
 								});
 							}
 
+							if (event.type === "cache_stats") {
+								await db
+									.update(schema.optimizationRuns)
+									.set({
+										cacheHits: event.hits,
+										cacheMisses: event.misses,
+									})
+									.where(eq(schema.optimizationRuns.id, runId));
+							}
+
+							if (event.type === "cost_update") {
+								await db
+									.update(schema.optimizationRuns)
+									.set({
+										inputTokens: event.inputTokens,
+										outputTokens: event.outputTokens,
+										costUsd: event.costUsd,
+									})
+									.where(eq(schema.optimizationRuns.id, runId));
+							}
+
+							if (event.type === "optimization_complete") {
+								await db
+									.update(schema.optimizationRuns)
+									.set({
+										stopReason: event.stopReason,
+										stopDetail: event.stopDetail,
+										unspentEvaluations: event.unspentEvaluations,
+									})
+									.where(eq(schema.optimizationRuns.id, runId));
+							}
+
 							// Persist evaluation data
 							if (event.type === "evaluation") {
 								await db.insert(schema.evaluations).values({
 									id: crypto.randomUUID(),
 									candidateId: event.candidateId,
-									testCaseId: event.testCase, // Using query as testCaseId
+									testCaseId: event.testCaseId,
 									selectedTool: event.result.selected,
 									expectedTool: event.result.expected,
 									correct: event.result.correct,
+									argumentsCorrect: event.result.argumentsCorrect,
+									arguments:
+										event.result.arguments !== undefined
+											? JSON.stringify(event.result.arguments)
+											: null,
+									argumentErrors: event.result.argumentErrors
+										? JSON.stringify(event.result.argumentErrors)
+										: null,
+									error: event.result.error,
+									selectionCounts: event.result.selectionCounts
+										? JSON.stringify(event.result.selectionCounts)
+										: null,
+									sampleAccuracy: event.result.sampleAccuracy,
+									model: event.result.model,
+									selectedTools: event.result.selectedTools
+										? JSON.stringify(event.result.selectedTools)
+										: null,
+									credit: event.result.credit,
 									timestamp: new Date(),
 								});
 							}
@@ -1519,6 +2268,9 @@ async function handleStartOptimization(
 						tools,
 						testCases,
 						...config,
+						hostContext,
+						resume,
+						signal: abortController.signal,
 						onProgress: async (event: ProgressEvent) => {
 							// Check if aborted
 							if (abortController.signal.aborted) {
@@ -1552,30 +2304,117 @@ async function handleStartOptimization(
 									generation: event.generation,
 									toolDescriptions: JSON.stringify(event.toolDescriptions),
 									accuracy: event.accuracy,
+									argumentAccuracy: event.argumentAccuracy,
+									errorCount: event.errorCount,
+									expectedAccuracy: event.expectedAccuracy,
+									stability: event.stability,
+									modelAccuracy: event.modelAccuracy
+										? JSON.stringify(event.modelAccuracy)
+										: null,
+									robustness: event.robustness,
 									avgDescriptionLength: event.avgLength,
+									avgToolTokens: event.avgTokens,
+									toolListTokens: event.toolListTokens,
+									toolTokens: event.toolTokens
+										? JSON.stringify(event.toolTokens)
+										: null,
 									isPareto: event.isPareto,
 									precision: event.precision,
 									recall: event.recall,
 									variationType: event.variationType,
+									promptVersions: event.promptVersions
+										? JSON.stringify(event.promptVersions)
+										: null,
+									diagnosis: event.diagnosis,
+									rationale: event.rationale,
 									status: event.status,
 									rejectionReason: event.rejectionReason,
 									parentId: event.parentId,
+									mergeParentId: event.mergeParentId,
 								});
 							}
 
+							if (event.type === "cache_stats") {
+								await db
+									.update(schema.optimizationRuns)
+									.set({
+										cacheHits: event.hits,
+										cacheMisses: event.misses,
+									})
+									.where(eq(schema.optimizationRuns.id, runId));
+							}
+
+							if (event.type === "cost_update") {
+								await db
+									.update(schema.optimizationRuns)
+									.set({
+										inputTokens: event.inputTokens,
+										outputTokens: event.outputTokens,
+										costUsd: event.costUsd,
+									})
+									.where(eq(schema.optimizationRuns.id, runId));
+							}
+
+							if (event.type === "optimization_complete") {
+								await db
+									.update(schema.optimizationRuns)
+									.set({
+										stopReason: event.stopReason,
+										stopDetail: event.stopDetail,
+										unspentEvaluations: event.unspentEvaluations,
+									})
+									.where(eq(schema.optimizationRuns.id, runId));
+							}
+
 							// Persist evaluation data
 							if (event.type === "evaluation") {
 								await db.insert(schema.evaluations).values({
 									id: crypto.randomUUID(),
 									candidateId: event.candidateId,
-									testCaseId: event.testCase, // Using query as testCaseId
+									testCaseId: event.testCaseId,
 									selectedTool: event.result.selected,
 									expectedTool: event.result.expected,
 									correct: event.result.correct,
+									argumentsCorrect: event.result.argumentsCorrect,
+									arguments:
+										event.result.arguments !== undefined
+											? JSON.stringify(event.result.arguments)
+											: null,
+									argumentErrors: event.result.argumentErrors
+										? JSON.stringify(event.result.argumentErrors)
+										: null,
+									error: event.result.error,
+									selectionCounts: event.result.selectionCounts
+										? JSON.stringify(event.result.selectionCounts)
+										: null,
+									sampleAccuracy: event.result.sampleAccuracy,
+									model: event.result.model,
+									selectedTools: event.result.selectedTools
+										? JSON.stringify(event.result.selectedTools)
+										: null,
+									credit: event.result.credit,
 									timestamp: new Date(),
 								});
 							}
 
+							if (event.type === "test_split") {
+								await db
+									.update(schema.optimizationRuns)
+									.set({ testSplit: JSON.stringify(event.split) })
+									.where(eq(schema.optimizationRuns.id, runId));
+							}
+
+							if (event.type === "generalization") {
+								await db
+									.update(schema.candidates)
+									.set({
+										trainScore: event.trainScore,
+										validationScore: event.validationScore,
+										testScore: event.testScore,
+									})
+									.where(eq(schema.candidates.id, event.candidateId));
+							}
+
 							// Handle GEPA-specific events
 							if (event.type === "iteration_start") {
 								// Create iteration record
@@ -1611,6 +2450,11 @@ async function handleStartOptimization(
 										subsampleScore: event.subsampleScore,
 										parentSubsampleScore: event.parentSubsampleScore,
 										subsampleSize: event.subsampleSize,
+										subsampleStrategy: event.subsampleStrategy,
+										acceptanceTest: event.acceptanceTest,
+										acceptanceStatistic: event.acceptanceStatistic,
+										acceptancePValue: event.acceptancePValue,
+										extraCases: event.extraCases,
 									})
 									.where(
 										eq(
@@ -1628,6 +2472,7 @@ async function handleStartOptimization(
 										iteration: event.iteration,
 										archiveIndex: event.archiveIndex,
 										parentId: event.parentId,
+										mergeParentId: event.mergeParentId,
 									})
 									.where(eq(schema.candidates.id, event.candidateId));
 
@@ -1683,15 +2528,21 @@ async function handleStartOptimization(
 					});
 				}
 
-				// Mark as completed
-				await db
-					.update(schema.optimizationRuns)
-					.set({
-						completedAt: new Date(),
-						status: "completed",
-					})
-					.where(eq(schema.optimizationRuns.id, runId));
+				// Mark as completed - unless a stop arrived while the results
+				// were being saved
+				if (ownsRun()) {
+					await db
+						.update(schema.optimizationRuns)
+						.set({
+							completedAt: new Date(),
+							status: abortController.signal.aborted
+								? "cancelled"
+								: "completed",
+						})
+						.where(eq(schema.optimizationRuns.id, runId));
+				}
 
+				if (ownsRun()) activeRuns.delete(runId);
 				if (clientConnected) {
 					try {
 						controller.close();
@@ -1699,23 +2550,37 @@ async function handleStartOptimization(
 						// Already closed
 					}
 				}
-				activeRuns.delete(runId);
 			} catch (error) {
-				console.error("Optimization error:", error);
+				// Stopped by the user - the optimizer threw the abort, not a failure
+				const cancelled = abortController.signal.aborted;
+				if (cancelled) {
+					console.log(`Optimization ${runId} cancelled`);
+				} else {
+					console.error("Optimization error:", error);
+				}
 
-				// Mark as failed
-				await db
-					.update(schema.optimizationRuns)
-					.set({ status: "failed" })
-					.where(eq(schema.optimizationRuns.id, runId));
+				// Mark as cancelled or failed
+				if (ownsRun()) {
+					await db
+						.update(schema.optimizationRuns)
+						.set(
+							cancelled
+								? { status: "cancelled", completedAt: new Date() }
+								: { status: "failed" },
+						)
+						.where(eq(schema.optimizationRuns.id, runId));
+				}
 
-				const errorEvent = {
-					type: "error",
-					message: error instanceof Error ? error.message : "Unknown error",
-				};
-				const data = `data: ${JSON.stringify(errorEvent)}\n\n`;
-				sendToClient(data);
+				if (!cancelled) {
+					const errorEvent = {
+						type: "error",
+						message: error instanceof Error ? error.message : "Unknown error",
+					};
+					const data = `data: ${JSON.stringify(errorEvent)}\n\n`;
+					sendToClient(data);
+				}
 
+				if (ownsRun()) activeRuns.delete(runId);
 				if (clientConnected) {
 					try {
 						controller.close();
@@ -1723,7 +2588,6 @@ async function handleStartOptimization(
 						// Already closed
 					}
 				}
-				activeRuns.delete(runId);
 			}
 		},
 	});
@@ -1738,6 +2602,152 @@ async function handleStartOptimization(
 	});
 }
 
+async function handleResumeOptimization(
+	req: Request,
+	corsHeaders: Record<string, string>,
+) {
+	const { runId }: { runId: string } = await req.json();
+
+	const [run] = await db
+		.select()
+		.from(schema.optimizationRuns)
+		.where(eq(schema.optimizationRuns.id, runId));
+	if (!run) {
+		return Response.json(
+			{ error: "Run not found" },
+			{ status: 404, headers: corsHeaders },
+		);
+	}
+
+	// The stored config holds the resolved host context
+	const config = JSON.parse(run.config) as OptimizationConfig;
+	if (config.optimizer === "golden") {
+		return Response.json(
+			{ error: "Only GEPA runs can be resumed" },
+			{ status: 400, headers: corsHeaders },
+		);
+	}
+
+	if (activeRuns.has(runId)) {
+		return Response.json(
+			{ error: "Run is still running or stopping - try again once it ends" },
+			{ status: 400, headers: corsHeaders },
+		);
+	}
+
+	if (!["interrupted", "cancelled", "failed"].includes(run.status)) {
+		return Response.json(
+			{
+				error: `Run is ${run.status} - only interrupted, cancelled or failed runs can be resumed`,
+			},
+			{ status: 400, headers: corsHeaders },
+		);
+	}
+
+	// The original candidate has the run's tools and test cases
+	const [original] = await db
+		.select()
+		.from(schema.candidates)
+		.where(eq(schema.candidates.runId, runId))
+		.orderBy(schema.candidates.generation)
+		.limit(1);
+	if (!original || original.generation !== 0 || !run.serverId) {
+		return Response.json(
+			{
+				error:
+					"Run cannot be resumed - the original candidate was never evaluated",
+			},
+			{ status: 400, headers: corsHeaders },
+		);
+	}
+
+	const descriptions = JSON.parse(original.toolDescriptions) as Record<
+		string,
+		string
+	>;
+	const data = await loadOptimizationData(
+		run.serverId,
+		Object.keys(descriptions),
+	);
+	if (data.tools.length !== Object.keys(descriptions).length) {
+		return Response.json(
+			{ error: "Run cannot be resumed - some of its tools no longer exist" },
+			{ status: 400, headers: corsHeaders },
+		);
+	}
+	const tools = data.tools.map((tool) => ({
+		...tool,
+		description: descriptions[tool.name] ?? tool.description,
+	}));
+
+	// Older evaluation rows hold the query instead of the test case ID, and
+	// held-out test cases are only evaluated once the run completes
+	const evaluated = new Set(
+		(
+			await db
+				.select()
+				.from(schema.evaluations)
+				.where(eq(schema.evaluations.candidateId, original.id))
+		).map((e) => e.testCaseId),
+	);
+	const heldOut = new Set(
+		run.testSplit ? (JSON.parse(run.testSplit) as TestSplitIds).test : [],
+	);
+	const testCases = data.testCases.filter(
+		(tc) =>
+			evaluated.has(tc.id) || evaluated.has(tc.query) || heldOut.has(tc.id),
+	);
+
+	let resume: GEPAResumeState;
+	try {
+		resume = await loadResumeState(
+			runId,
+			tools,
+			testCases,
+			getEvaluationSettings(config),
+		);
+	} catch (error) {
+		return Response.json(
+			{ error: error instanceof Error ? error.message : "Cannot resume run" },
+			{ status: 400, headers: corsHeaders },
+		);
+	}
+
+	// Close the iteration the interruption cut off
+	await db
+		.update(schema.iterations)
+		.set({ rejectionReason: "Interrupted", completedAt: new Date() })
+		.where(
+			and(
+				eq(schema.iterations.runId, runId),
+				isNull(schema.iterations.completedAt),
+			),
+		);
+
+	await db
+		.update(schema.optimizationRuns)
+		.set({ status: "running", completedAt: null })
+		.where(eq(schema.optimizationRuns.id, runId));
+
+	const abortController = new AbortController();
+	activeRuns.set(runId, abortController);
+
+	console.log(
+		`Resuming optimization ${runId} after iteration ${resume.iteration}`,
+	);
+
+	return streamOptimization(
+		runId,
+		abortController,
+		config,
+		config.hostContext,
+		tools,
+		testCases,
+		corsHeaders,
+		resume,
+	);
+}
+
 async function handleStopOptimization(
 	req: Request,
 	corsHeaders: Record<string, string>,
@@ -1746,14 +2756,16 @@ async function handleStopOptimization(
 
 	const abortController = activeRuns.get(runId);
 	if (abortController) {
+		// Stays in activeRuns until the stream unwinds, so the run cannot be
+		// resumed while its optimizer is still stopping
 		abortController.abort();
-		activeRuns.delete(runId);
 
-		// Update status in DB - mark as completed (user stopped)
+		// Update status in DB right away - the optimizer stops at its next
+		// cancellation point
 		await db
 			.update(schema.optimizationRuns)
 			.set({
-				status: "completed",
+				status: "cancelled",
 				completedAt: new Date(),
 			})
 			.where(eq(schema.optimizationRuns.id, runId));
@@ -1762,6 +2774,276 @@ async function handleStopOptimization(
 	return Response.json({ success: true }, { headers: corsHeaders });
 }
 
+function handleListModels(corsHeaders: Record<string, string>) {
+	return Response.json(listModels(), { headers: corsHeaders });
+}
+
+function handleListProviders(corsHeaders: Record<string, string>) {
+	// Never send stored API keys to the client
+	const providers = listProviders().map(({ apiKey, ...provider }) => ({
+		...provider,
+		hasApiKey: !!apiKey,
+	}));
+	return Response.json(providers, { headers: corsHeaders });
+}
+
+async function handleAddProvider(
+	req: Request,
+	corsHeaders: Record<string, string>,
+) {
+	const {
+		name,
+		type = "openai-compatible",
+		baseUrl,
+		apiKey,
+		apiKeyEnv,
+		models: modelIds = [],
+	}: {
+		name: string;
+		type?: ModelProviderType;
+		baseUrl?: string;
+		apiKey?: string;
+		apiKeyEnv?: string;
+		models?: string[];
+	} = await req.json();
+
+	// Provider IDs double as model name prefixes, e.g. "ollama/llama3.1"
+	const providerId = name
+		.trim()
+		.toLowerCase()
+		.replace(/[^a-z0-9]+/g, "-")
+		.replace(/^-|-$/g, "");
+
+	if (!providerId) {
+		return Response.json(
+			{ error: "Provider name is required" },
+			{ status: 400, headers: corsHeaders },
+		);
+	}
+
+	if (getProvider(providerId)) {
+		return Response.json(
+			{ error: `Provider "${providerId}" already exists` },
+			{ status: 409, headers: corsHeaders },
+		);
+	}
+
+	if (
+		!["anthropic", "openai", "openai-compatible", "scripted"].includes(type)
+	) {
+		return Response.json(
+			{
+				error: "type must be anthropic, openai, openai-compatible or scripted",
+			},
+			{ status: 400, headers: corsHeaders },
+		);
+	}
+
+	if (
+		apiKeyEnv?.trim() &&
+		!new RegExp(`^${PROVIDER_API_KEY_ENV_PREFIX}[A-Z0-9_]+$`).test(
+			apiKeyEnv.trim(),
+		)
+	) {
+		return Response.json(
+			{
+				error: `apiKeyEnv must be an environment variable named ${PROVIDER_API_KEY_ENV_PREFIX}<NAME> - other variables may hold server secrets`,
+			},
+			{ status: 400, headers: corsHeaders },
+		);
+	}
+
+	const provider: ModelProviderConfig = {
+		id: providerId,
+		name: name.trim(),
+		type,
+		baseUrl: baseUrl?.trim() || undefined,
+		apiKey: apiKey?.trim() || undefined,
+		apiKeyEnv: apiKeyEnv?.trim() || undefined,
+		builtin: false,
+	};
+	const modelDefinitions: ModelDefinition[] = modelIds
+		.map((modelId) => modelId.trim())
+		.filter(Boolean)
+		.map((modelId) => ({
+			name: `${providerId}/${modelId}`,
+			providerId,
+			modelId,
+		}));
+
+	try {
+		registerProvider(provider);
+		for (const model of modelDefinitions) {
+			registerModel(model);
+		}
+	} catch (error) {
+		unregisterProvider(providerId);
+		return Response.json(
+			{ error: error instanceof Error ? error.message : "Invalid provider" },
+			{ status: 400, headers: corsHeaders },
+		);
+	}
+
+	// Provider and models are stored together or not at all
+	try {
+		db.transaction((tx) => {
+			tx.insert(schema.modelProviders)
+				.values({
+					id: provider.id,
+					name: provider.name,
+					type: provider.type,
+					baseUrl: provider.baseUrl,
+					apiKey: provider.apiKey,
+					apiKeyEnv: provider.apiKeyEnv,
+					createdAt: new Date(),
+				})
+				.run();
+			for (const model of modelDefinitions) {
+				tx.insert(schema.models).values(model).run();
+			}
+		});
+	} catch (error) {
+		unregisterProvider(providerId);
+		throw error;
+	}
+
+	return Response.json(
+		{ providerId, models: modelDefinitions.map((m) => m.name) },
+		{ headers: corsHeaders },
+	);
+}
+
+async function handleDeleteProvider(
+	providerId: string,
+	corsHeaders: Record<string, string>,
+) {
+	const provider = getProvider(providerId);
+	if (!provider) {
+		return Response.json(
+			{ error: "Provider not found" },
+			{ status: 404, headers: corsHeaders },
+		);
+	}
+
+	if (provider.builtin) {
+		return Response.json(
+			{ error: "Built-in providers cannot be removed" },
+			{ status: 400, headers: corsHeaders },
+		);
+	}
+
+	await db
+		.delete(schema.models)
+		.where(eq(schema.models.providerId, providerId));
+	await db
+		.delete(schema.modelProviders)
+		.where(eq(schema.modelProviders.id, providerId));
+	unregisterProvider(providerId);
+
+	return Response.json({ success: true }, { headers: corsHeaders });
+}
+
+async function handleListPromptTemplates(corsHeaders: Record<string, string>) {
+	const rows = await db.select().from(schema.promptTemplates);
+
+	const templates = Object.entries(PROMPT_TEMPLATES).map(
+		([name, { description, variables, template }]) => {
+			const versions = rows
+				.filter((row) => row.name === name)
+				.sort((a, b) => b.version - a.version)
+				.map(({ version, template, createdAt }) => ({
+					version,
+					template,
+					createdAt,
+				}));
+			return {
+				name,
+				description,
+				variables,
+				defaultTemplate: template,
+				currentVersion: versions[0]?.version ?? 0,
+				versions,
+			};
+		},
+	);
+
+	return Response.json(templates, { headers: corsHeaders });
+}
+
+async function handleSavePromptTemplate(
+	name: string,
+	req: Request,
+	corsHeaders: Record<string, string>,
+) {
+	const { template: text } = await req.json();
+
+	let parsed: ReturnType<typeof parsePromptTemplate>;
+	try {
+		parsed = parsePromptTemplate(name, text);
+	} catch (error) {
+		return Response.json(
+			{ error: error instanceof Error ? error.message : "Invalid template" },
+			{ status: 400, headers: corsHeaders },
+		);
+	}
+
+	// Every save is a new version - candidates keep pointing at the old ones
+	const existing = await db
+		.select()
+		.from(schema.promptTemplates)
+		.where(eq(schema.promptTemplates.name, parsed.name));
+	const version = Math.max(0, ...existing.map((row) => row.version)) + 1;
+
+	await db.insert(schema.promptTemplates).values({
+		id: crypto.randomUUID(),
+		name: parsed.name,
+		version,
+		template: parsed.template,
+		createdAt: new Date(),
+	});
+
+	return Response.json(
+		{ name: parsed.name, version },
+		{ headers: corsHeaders },
+	);
+}
+
+/**
+ * Register providers and models stored in the DB with the model registry
+ */
+async function loadModelRegistry() {
+	const providerRows = await db.select().from(schema.modelProviders);
+	const modelRows = await db.select().from(schema.models);
+
+	for (const row of providerRows) {
+		try {
+			registerProvider({
+				id: row.id,
+				name: row.name,
+				type: row.type as ModelProviderType,
+				baseUrl: row.baseUrl ?? undefined,
+				apiKey: row.apiKey ?? undefined,
+				apiKeyEnv: row.apiKeyEnv ?? undefined,
+				builtin: false,
+			});
+		} catch (error) {
+			console.error(`Failed to register provider ${row.id}:`, error);
+		}
+	}
+
+	for (const row of modelRows) {
+		try {
+			registerModel(row);
+		} catch (error) {
+			console.error(`Failed to register model ${row.name}:`, error);
+		}
+	}
+
+	console.log(
+		`Model registry: ${providerRows.length} custom providers, ${modelRows.length} custom models`,
+	);
+}
+
 async function handleGetRuns(corsHeaders: Record<string, string>) {
 	const runs = await db.select().from(schema.optimizationRuns);
 	return Response.json(runs, { headers: corsHeaders });
@@ -1907,6 +3189,17 @@ async function handleGetCandidates(
 				selectedTool: e.selectedTool,
 				expectedTool: e.expectedTool ?? "",
 				correct: e.correct,
+				argumentsCorrect: e.argumentsCorrect ?? undefined,
+				error: e.error ?? undefined,
+				selectionCounts: e.selectionCounts
+					? (JSON.parse(e.selectionCounts) as Record<string, number>)
+					: undefined,
+				sampleAccuracy: e.sampleAccuracy ?? undefined,
+				model: e.model ?? undefined,
+				selectedTools: e.selectedTools
+					? (JSON.parse(e.selectedTools) as string[])
+					: undefined,
+				credit: e.credit ?? undefined,
 			}));
 
 			return {
@@ -1914,10 +3207,32 @@ async function handleGetCandidates(
 				generation: c.generation,
 				iteration: c.iteration,
 				parentId: c.parentId,
+				mergeParentId: c.mergeParentId,
 				toolDescriptions: JSON.parse(c.toolDescriptions),
 				accuracy: c.accuracy,
+				argumentAccuracy: c.argumentAccuracy ?? undefined,
+				errorCount: c.errorCount ?? undefined,
+				expectedAccuracy: c.expectedAccuracy ?? undefined,
+				stability: c.stability ?? undefined,
+				modelAccuracy: c.modelAccuracy
+					? (JSON.parse(c.modelAccuracy) as Record<string, number>)
+					: undefined,
+				robustness: c.robustness ?? undefined,
+				promptVersions: c.promptVersions
+					? (JSON.parse(c.promptVersions) as PromptVersions)
+					: undefined,
+				diagnosis: c.diagnosis ?? undefined,
+				rationale: c.rationale ?? undefined,
 				avgDescriptionLength: c.avgDescriptionLength,
+				avgToolTokens: c.avgToolTokens ?? undefined,
+				toolListTokens: c.toolListTokens ?? undefined,
+				toolTokens: c.toolTokens
+					? (JSON.parse(c.toolTokens) as Record<string, number>)
+					: undefined,
 				isPareto: c.isPareto,
+				trainScore: c.trainScore ?? undefined,
+				validationScore: c.validationScore ?? undefined,
+				testScore: c.testScore ?? undefined,
 				rejected: c.status === "rejected",
 				rejectionReason: c.rejectionReason ?? undefined,
 				evaluations,
@@ -1928,4 +3243,6 @@ async function handleGetCandidates(
 	return Response.json(candidates, { headers: corsHeaders });
 }
 
+await loadModelRegistry();
+
 console.log(`🚀 Server running at http://localhost:${PORT}`);
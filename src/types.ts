@@ -1,6 +1,5 @@
 import type { InferSelectModel } from "drizzle-orm";
 import type * as schema from "./db/schema";
-import type { MODEL_PROVIDERS } from "./lib/constants";
 
 // MCP Configuration
 export type MCPConfig =
@@ -28,11 +27,47 @@ export type Tool = {
 export type TestCase = {
 	id: string;
 	toolId: string;
-	query: string;
-	expectedTool: string;
+	query: string; // Single user message, or a label for multi-turn tests
+	expectedTool: string; // Tool expected at the next step
 	userCreated: boolean;
+	expectedArguments?: ArgumentMatcher; // Also check the arguments of the tool call
+	messages?: ConversationMessage[]; // Multi-turn: sent instead of query
+	expectedCalls?: ExpectedCalls; // Several tool calls in one turn, replaces the expectedTool check
+	shouldCall?: boolean; // false: abstention - correct only when no tool is called (expectedTool is "")
+};
+
+// Tool calls expected from a single turn (expectedTool is the first listed)
+// - set: exactly these tools, in any order (parallel calls)
+// - sequence: the calls start with these tools, in this order
+// - any-of: one call to any of these tools
+export type ExpectedCalls = {
+	type: "set" | "sequence" | "any-of";
+	tools: string[];
 };
 
+// Conversation history for multi-turn test cases
+export type ConversationMessage =
+	| { role: "user"; content: string }
+	| {
+			role: "assistant";
+			content?: string;
+			toolCalls?: Array<{ id: string; toolName: string; arguments: unknown }>;
+	  }
+	| { role: "tool"; toolCallId: string; toolName: string; result: unknown }; // Mocked tool result
+
+// What the production agent sends around the user's query
+export type HostContext = {
+	systemPrompt?: string;
+	preamble?: ConversationMessage[]; // Sent before every test's messages
+};
+
+// How tool call arguments are checked (always validated against inputSchema)
+export type ArgumentMatcher =
+	| { type: "exact"; value: Record<string, unknown> }
+	| { type: "subset"; value: Record<string, unknown> } // Listed keys must match
+	| { type: "regex"; value: Record<string, string> } // Per-argument patterns
+	| { type: "schema" }; // Any arguments valid per inputSchema
+
 export type GoldenTestCase = TestCase & {
 	invocationType: "direct" | "indirect" | "negative";
 	shouldCall: boolean;
@@ -41,12 +76,73 @@ export type GoldenTestCase = TestCase & {
 export type Candidate = {
 	id: string;
 	tools: Tool[];
+	promptVersions?: PromptVersions; // Templates that produced it (unset for baselines)
+	diagnosis?: string; // Reflection: why the parent's description failed
+	rationale?: string; // Reflection: why the new description should work
+};
+
+// Structured reflection answer - only the description goes into the tool
+export type Reflection = {
+	diagnosis: string;
+	rationale: string;
+	description: string;
+};
+
+// Minibatch reflection answer - new descriptions for the tools that change
+export type BatchReflection = {
+	diagnosis: string;
+	rationale: string;
+	descriptions: Array<{ tool: string; description: string }>;
+};
+
+// Prompts sent to the generation model, editable and versioned in the DB
+export type PromptTemplateName =
+	| "reflection"
+	| "batch-reflection"
+	| "conciseness"
+	| "variation-context"
+	| "variation-clarity"
+	| "variation-specificity"
+	| "variation-conciseness"
+	| "variation-edge-cases"
+	| "variation-precision"
+	| "variation-recall"
+	| "test-generation"
+	| "abstention-test-generation"
+	| "golden-test-generation";
+
+export type PromptTemplate = {
+	name: PromptTemplateName;
+	version: number; // 0 is the built-in default
+	template: string; // Text with {{variable}} placeholders
 };
 
+// Template versions in use - one per template name
+export type PromptTemplates = Record<PromptTemplateName, PromptTemplate>;
+
+export type PromptVersions = Partial<Record<PromptTemplateName, number>>;
+
 export type EvaluatedCandidate = Candidate & {
-	accuracy: number;
+	accuracy: number; // Right tool, and right arguments where the test checks them (valid evaluations only)
+	argumentAccuracy?: number; // Right arguments among argument-checked tests with the right tool
 	avgDescriptionLength: number;
+	avgToolTokens: number; // Estimated tokens per tool definition, schema included
+	toolTokens: Record<string, number>; // Tool name -> estimated tokens
+	toolListTokens: number; // Estimated tokens of the whole serialized tool list
+	objectiveLength: number; // Conciseness objective: avgDescriptionLength or avgToolTokens, per lengthMetric
 	evaluations: EvalResult[];
+	errorCount: number; // Evaluations that failed after retries
+	// Repeated sampling only (samplesPerTest > 1)
+	expectedAccuracy?: number; // Mean share of correct samples per test
+	stability?: number; // 1 = same selection every sample, 0 = spread evenly
+	// Multi-model runs only
+	modelAccuracy?: Record<ModelName, number>; // Accuracy on each evaluation model
+	robustness?: number; // Min or weighted mean of modelAccuracy - used for selection
+	// Split runs only - selection, minAccuracy and stopping go by validation
+	// cases, not the train cases reflection learns from
+	trainAccuracy?: number;
+	validationAccuracy?: number;
+	validationScore?: number; // Robustness on validation cases, or validationAccuracy
 };
 
 export type EvalResult = {
@@ -54,56 +150,307 @@ export type EvalResult = {
 	selectedTool: string | null;
 	expectedTool: string;
 	correct: boolean;
+	arguments?: unknown;
+	argumentsCorrect?: boolean; // Only set when the test checks arguments
+	argumentErrors?: string[];
+	error?: EvaluationError; // Invalid result - the LLM call failed, so it is not scored
+	model?: ModelName; // Evaluation model, set in multi-model runs
+	// Multi-tool tests only (expectedCalls)
+	selectedTools?: string[]; // Every tool called, in order
+	credit?: number; // Partial credit 0-1 counted into accuracy - correct means 1
+	// Repeated sampling only: correct means a majority of valid samples were
+	selectionCounts?: Record<string, number>; // Tool name (or NO_TOOL) -> samples
+	sampleAccuracy?: number; // Share of valid samples that were correct
+};
+
+// Why an LLM call failed
+export type EvaluationErrorKind =
+	| "rate_limit"
+	| "timeout"
+	| "server"
+	| "network"
+	| "auth"
+	| "invalid_request"
+	| "unknown";
+
+export type EvaluationError = {
+	kind: EvaluationErrorKind;
+	message: string;
+	attempts: number; // Calls made, including retries
+};
+
+// An evaluation model of a multi-model run and its share of the score
+export type EvaluationModelWeight = {
+	model: ModelName;
+	weight: number; // Relative, > 0
+};
+
+// How cross-model accuracy is combined into one robustness score
+// - min: worst model counts (descriptions must work everywhere)
+// - weighted-mean: average weighted by EvaluationModelWeight.weight
+export type RobustnessMetric = "min" | "weighted-mean";
+
+// Unit of the conciseness objective
+// - characters: average description length
+// - tokens: average estimated tokens per tool definition, schema included
+export type LengthMetric = "characters" | "tokens";
+
+// How GEPA picks the parent of each iteration
+// - pareto-frequency: candidates on the per-task Pareto fronts, weighted by
+//   how many tasks they are best at (the GEPA paper's method)
+// - global-score: every candidate, weighted by its global score
+// - tournament: the best global score among a few random candidates
+// - ucb: bandit over candidates - parents whose offspring pass the subsample
+//   filter score higher, rarely selected ones get an exploration bonus
+export type SelectionStrategy =
+	| "pareto-frequency"
+	| "global-score"
+	| "tournament"
+	| "ucb";
+
+// How GEPA picks the subsample each offspring is filtered on
+// - random: uniform
+// - mutated-tools: guarantees cases for every tool the offspring changed
+// - stratified: spread across tools and invocation types (single, arguments,
+//   multi-turn, multi-tool, abstention)
+// - failure-aware: mutated-tools cases, oversampled parent failures, the
+//   rest stratified
+export type SubsampleStrategy =
+	| "random"
+	| "mutated-tools"
+	| "stratified"
+	| "failure-aware";
+
+// How GEPA decides whether an offspring passes the subsample filter
+// - threshold: rejected when its subsample score is below the parent's
+// - sequential: adds cases until a confidence interval of the paired
+//   difference excludes 0 (threshold when it never does)
+// - mcnemar: rejected when an exact McNemar test finds it worse
+// - bootstrap: rejected when a paired bootstrap finds it worse
+// mcnemar and bootstrap add cases like sequential while fewer than 20 tasks
+// are paired and the offspring did worse - too few to reject on
+export type AcceptanceTest =
+	| "threshold"
+	| "sequential"
+	| "mcnemar"
+	| "bootstrap";
+
+// Why an optimization run stopped
+// - budget: maxEvaluations spent
+// - cost-budget: maxCostUsd spent
+// - no-new-evaluations: iterations kept being answered from the cache
+// - no-parent: no candidate could be selected
+// - target-reached: a candidate met targetAccuracy and targetLength
+// - no-improvement: no Pareto improvement in paretoPatience iterations
+// - hypervolume-plateau: the accuracy/length hypervolume stopped growing
+//   for hypervolumePatience iterations
+// - finished: the golden optimizer evaluated every candidate
+export type StopReason =
+	| "budget"
+	| "cost-budget"
+	| "no-new-evaluations"
+	| "no-parent"
+	| "target-reached"
+	| "no-improvement"
+	| "hypervolume-plateau"
+	| "finished";
+
+// Local tokenizer approximation, picked by the evaluation model's provider
+export type TokenizerFamily = "anthropic" | "openai" | "generic";
+
+// How every test case of a run is evaluated
+export type EvaluationSettings = {
+	models: EvaluationModelWeight[]; // Every test case runs on each model
+	robustnessMetric: RobustnessMetric;
+	lengthMetric: LengthMetric;
+	tokenizer: TokenizerFamily; // Of the first evaluation model
+	hostContext?: HostContext;
+	samplesPerTest: number; // Calls per test case (1 = single call)
+	temperature: number; // Sampling temperature for evaluation calls
+};
+
+// How GEPA parents are selected
+export type SelectionSettings = {
+	strategy: SelectionStrategy;
+	accuracyWeight: number; // Global score balance
+	stabilityWeight: number; // Global score share for stability
+	temperature: number; // Exploration, at least 0.1
+	minAccuracy: number; // Candidates below it are only picked when none qualify
+};
+
+// One tool call made by the model
+export type ToolCall = {
+	toolName: string;
+	arguments?: unknown;
+};
+
+// Outcome of a single tool selection call
+export type ToolSelection = {
+	selectedTool: string | null;
+	arguments?: unknown;
+	toolCalls?: ToolCall[]; // Every call of the turn, in order - selectedTool is the first
+	error?: EvaluationError; // Set when the LLM call failed (selectedTool is then null)
 };
 
 // Optimization Configuration
 export type OptimizationConfig = {
 	optimizer: "gepa" | "golden"; // Optimizer algorithm to use
 	maxEvaluations: number; // Total LLM call budget (default: 500) - GEPA only
+	maxCostUsd?: number; // Dollar budget across all LLM calls (default: none) - GEPA only
 	subsampleSize: number; // Quick filter size (default: 5) - GEPA only
+	subsampleStrategy?: SubsampleStrategy; // Which cases make up the subsample (default: random) - GEPA only
+	acceptanceTest?: AcceptanceTest; // How the subsample filter decides (default: threshold) - GEPA only
+	significanceLevel?: number; // For sequential, mcnemar and bootstrap, 0-1 exclusive (default: 0.05) - GEPA only
 	testsPerTool: number; // Auto-generated tests (default: 5) - GEPA only
 	testCasesPerCategory?: number; // Golden optimizer: test cases per category (default: 10)
 	candidateCount?: number; // Golden optimizer: number of candidates (default: 10)
 	evaluationModel: ModelName; // LLM to use for evaluations
+	evaluationModels?: EvaluationModelWeight[]; // Evaluate on several models instead (default: evaluationModel only)
+	robustnessMetric?: RobustnessMetric; // Combine per-model accuracy (default: weighted-mean)
+	lengthMetric?: LengthMetric; // Unit of the conciseness objective (default: characters)
 	generationModel: ModelName; // LLM to use for reflection and test generation
 	maxConcurrentEvaluations: number; // Concurrent evaluations (default: 3)
 	// GEPA multi-objective parameters
 	minAccuracy?: number; // Minimum accuracy threshold 0-1 (default: 0, no minimum)
 	accuracyWeight?: number; // Balance: 0=all conciseness, 1=all accuracy (default: 0.5)
 	selectionTemperature?: number; // Exploration: higher=more exploration (default: 1.0)
+	selectionStrategy?: SelectionStrategy; // How parents are picked (default: global-score) - GEPA only
+	hostContext?: HostContext; // Overrides the server's host context for this run
+	samplesPerTest?: number; // Sample each test case N times (default: 1)
+	samplingTemperature?: number; // Temperature for evaluation calls (default: 0)
+	stabilityWeight?: number; // Share of the parent selection score given to stability 0-1 (default: 0) - GEPA only
+	mergeProbability?: number; // Chance an iteration merges two Pareto-front candidates instead of reflecting 0-1 (default: 0) - GEPA only
+	reflectionBatchSize?: number; // Failures per reflection, rewriting every implicated tool at once (default: 1) - GEPA only
+	targetAccuracy?: number; // Stop once a candidate reaches this accuracy 0-1 (and targetLength, when set) (default: none) - GEPA only
+	targetLength?: number; // Stop once a candidate is this short, in lengthMetric units (and targetAccuracy, when set) (default: none) - GEPA only
+	paretoPatience?: number; // Stop after this many iterations without a Pareto improvement (default: none) - GEPA only
+	hypervolumePatience?: number; // Stop after this many iterations without hypervolume growth (default: none) - GEPA only
+	seed?: number; // Seeds every random choice, stored with the run so it can be replayed (default: picked per run) - GEPA only
+	validationSplit?: number; // Share of test cases for the Pareto fronts and acceptance 0-1 (default: 0, every case) - GEPA only
+	testSplit?: number; // Share of test cases held out to score the final Pareto candidates 0-1 (default: 0, none) - GEPA only
 };
 
 // GEPA Configuration (replaces iterations/populationSize with budget-based approach)
 export type GEPAConfig = {
 	runId: string; // Optimization run ID
 	maxEvaluations: number; // Total LLM call budget (default: 500)
+	maxCostUsd?: number; // Dollar budget across all LLM calls (default: none)
 	subsampleSize: number; // Cheap filter size (default: 5)
+	subsampleStrategy?: SubsampleStrategy; // Which cases make up the subsample (default: random)
+	acceptanceTest?: AcceptanceTest; // How the subsample filter decides (default: threshold)
+	significanceLevel?: number; // For sequential, mcnemar and bootstrap (default: 0.05)
 	testsPerTool: number; // Auto-generated tests (same as before)
 	evaluationModel: ModelName; // LLM to use for evaluations
+	evaluationModels?: EvaluationModelWeight[]; // Evaluate on several models instead (default: evaluationModel only)
+	robustnessMetric?: RobustnessMetric; // Combine per-model accuracy (default: weighted-mean)
+	lengthMetric?: LengthMetric; // Unit of the conciseness objective (default: characters)
 	generationModel: ModelName; // LLM to use for reflection and test generation
 	maxConcurrentEvaluations: number; // Rate limiting
 	tools: Tool[];
 	testCases: TestCase[];
 	onProgress: (event: ProgressEvent) => void;
+	signal?: AbortSignal; // Cancels the run - in-flight LLM calls are aborted and runGEPA throws
+	resume?: GEPAResumeState; // Continue an interrupted run instead of evaluating the original again
 	// Multi-objective parameters
 	minAccuracy?: number; // Minimum accuracy threshold 0-1 (default: 0)
 	accuracyWeight?: number; // Balance: 0=all conciseness, 1=all accuracy (default: 0.5)
 	selectionTemperature?: number; // Exploration: higher=more exploration (default: 1.0)
+	selectionStrategy?: SelectionStrategy; // How parents are picked (default: global-score)
+	hostContext?: HostContext; // System prompt + preamble for every evaluation
+	samplesPerTest?: number; // Sample each test case N times (default: 1)
+	samplingTemperature?: number; // Temperature for evaluation calls (default: 0)
+	stabilityWeight?: number; // Share of the parent selection score given to stability 0-1 (default: 0)
+	mergeProbability?: number; // Chance an iteration merges two Pareto-front candidates instead of reflecting 0-1 (default: 0)
+	reflectionBatchSize?: number; // Failures per reflection, rewriting every implicated tool at once (default: 1)
+	targetAccuracy?: number; // Stop once a candidate reaches this accuracy 0-1 (and targetLength, when set) (default: none)
+	targetLength?: number; // Stop once a candidate is this short, in lengthMetric units (and targetAccuracy, when set) (default: none)
+	paretoPatience?: number; // Stop after this many iterations without a Pareto improvement (default: none)
+	hypervolumePatience?: number; // Stop after this many iterations without hypervolume growth (default: none)
+	seed?: number; // Seeds every random choice - same seed and a deterministic model give the same archive (default: Math.random)
+	validationSplit?: number; // Share of test cases for the Pareto fronts and acceptance, the rest (train) is what reflection sees 0-1 (default: 0, every case for both)
+	testSplit?: number; // Share of test cases held out to score the final Pareto candidates 0-1 (default: 0, none)
+};
+
+// Test case IDs of each split of a GEPA run - train and validation are the
+// same cases when there is no validation share
+export type TestSplitIds = {
+	train: string[];
+	validation: string[];
+	test: string[];
+};
+
+// Progress of an interrupted GEPA run, rebuilt from the database
+export type GEPAResumeState = {
+	// Accepted candidates in archive order - the original first
+	candidates: Array<{
+		candidate: EvaluatedCandidate;
+		parentId?: string;
+		mergeParentId?: string;
+	}>;
+	iteration: number; // Last iteration started
+	rejectedCount: number;
+	cacheHits: number;
+	cacheMisses: number; // Evaluations spent
+	inputTokens: number;
+	outputTokens: number;
+	costUsd: number;
+	// Parent of every finished reflection iteration and whether its offspring
+	// passed the subsample filter (the ucb strategy's rewards)
+	selections: Array<{ parentId: string; passed: boolean }>;
+	mergedPairs: Array<{ parentId: string; mergeParentId: string }>; // Merges already tried
+	split?: TestSplitIds; // The run's split, when it has one
 };
 
 // Golden Optimizer Configuration
 export type GoldenOptimizerConfig = {
 	runId: string;
 	evaluationModel: ModelName;
+	evaluationModels?: EvaluationModelWeight[];
+	robustnessMetric?: RobustnessMetric;
+	lengthMetric?: LengthMetric;
 	generationModel: ModelName;
 	maxConcurrentEvaluations: number;
 	tools: Tool[];
 	testCasesPerCategory: number; // Number of direct/indirect/negative test cases to generate (default: 10)
 	candidateCount: number; // Number of candidate variations to generate (default: 10)
+	hostContext?: HostContext; // System prompt + preamble for every evaluation
+	samplesPerTest?: number; // Sample each test case N times (default: 1)
+	samplingTemperature?: number; // Temperature for evaluation calls (default: 0)
 	onProgress: (event: ProgressEvent) => void;
+	signal?: AbortSignal; // Cancels the run - in-flight LLM calls are aborted and runGoldenOptimizer throws
+};
+
+// Model names are keys in the model registry (built-in or registered at runtime)
+export type ModelName = string;
+
+// Model Provider Registry
+export type ModelProviderType =
+	| "anthropic"
+	| "openai"
+	| "openai-compatible"
+	| "scripted";
+
+export type ModelProviderConfig = {
+	id: string;
+	name: string;
+	type: ModelProviderType;
+	baseUrl?: string; // Required for openai-compatible providers
+	apiKey?: string; // Explicit key, takes precedence over apiKeyEnv
+	apiKeyEnv?: string; // Environment variable holding the API key
+	builtin: boolean;
+};
+
+export type ModelDefinition = {
+	name: ModelName; // Registry key used in configs, e.g. "claude-haiku-4-5" or "ollama/llama3.1"
+	providerId: string;
+	modelId: string; // Provider-side model identifier
 };
 
-export type ModelName = keyof typeof MODEL_PROVIDERS;
+export type ModelInfo = ModelDefinition & {
+	providerName: string;
+	builtin: boolean;
+	available: boolean; // Whether an API key or base URL is configured
+};
 
 // Progress Events for SSE
 export type ProgressEvent =
@@ -118,18 +465,37 @@ export type ProgressEvent =
 	| {
 			type: "evaluation";
 			candidateId: string;
-			testCase: string;
+			testCaseId: string;
+			testCase: string; // Query
 			result: {
 				correct: boolean;
 				selected: string | null;
 				expected: string;
+				arguments?: unknown;
+				argumentsCorrect?: boolean;
+				argumentErrors?: string[];
+				error?: EvaluationErrorKind; // Failed call - not counted as right or wrong
+				selectionCounts?: Record<string, number>;
+				sampleAccuracy?: number;
+				model?: ModelName; // Multi-model runs
+				selectedTools?: string[]; // Multi-tool tests
+				credit?: number;
 			};
 	  }
 	| {
 			type: "candidate_done";
 			candidateId: string;
 			accuracy: number;
+			argumentAccuracy?: number;
+			errorCount?: number;
+			expectedAccuracy?: number;
+			stability?: number;
+			modelAccuracy?: Record<ModelName, number>;
+			robustness?: number;
 			avgLength: number;
+			avgTokens?: number;
+			toolListTokens?: number;
+			toolTokens?: Record<string, number>;
 			generation?: number;
 			toolDescriptions: Record<string, string>;
 			isPareto: boolean;
@@ -137,10 +503,14 @@ export type ProgressEvent =
 			status?: "accepted" | "rejected";
 			rejectionReason?: string;
 			parentId?: string;
+			mergeParentId?: string; // Merge offspring: the second parent
 			// Golden optimizer specific fields
 			variationType?: string;
 			precision?: number;
 			recall?: number;
+			promptVersions?: PromptVersions;
+			diagnosis?: string;
+			rationale?: string;
 	  }
 	| {
 			type: "pareto_front";
@@ -154,6 +524,14 @@ export type ProgressEvent =
 			type: "mutation_start";
 			candidateId: string;
 	  }
+	| {
+			type: "merge_done";
+			candidateId: string; // The merge offspring
+			iteration: number;
+			parentId: string;
+			mergeParentId: string;
+			toolSources: Record<string, string>; // Tool name -> parent it came from
+	  }
 	| {
 			type: "reflection_start";
 			candidateId: string;
@@ -170,6 +548,8 @@ export type ProgressEvent =
 			tool: string;
 			oldDesc: string;
 			newDesc: string;
+			diagnosis?: string;
+			rationale?: string;
 	  }
 	| {
 			type: "generation_done";
@@ -182,6 +562,9 @@ export type ProgressEvent =
 			candidateId: string;
 			iteration: number;
 			globalScore: number;
+			dominanceCount: number; // Tasks the parent is on the Pareto front of
+			strategy: SelectionStrategy;
+			rationale: string; // Why this parent was picked
 	  }
 	| {
 			type: "subsample_eval";
@@ -189,7 +572,12 @@ export type ProgressEvent =
 			iteration: number;
 			subsampleScore: number;
 			parentSubsampleScore: number;
-			subsampleSize: number;
+			subsampleSize: number; // Includes the extra cases
+			subsampleStrategy: SubsampleStrategy;
+			acceptanceTest: AcceptanceTest;
+			acceptanceStatistic: number;
+			acceptancePValue?: number;
+			extraCases: number; // Added by sequential testing
 	  }
 	| {
 			type: "offspring_rejected";
@@ -204,6 +592,7 @@ export type ProgressEvent =
 			avgLength: number;
 			archiveIndex: number;
 			parentId: string;
+			mergeParentId?: string;
 			iteration: number;
 	  }
 	| {
@@ -213,6 +602,17 @@ export type ProgressEvent =
 			acceptedCount: number;
 			rejectedCount: number;
 	  }
+	| {
+			type: "cache_stats";
+			hits: number; // Evaluations answered from the evaluation cache
+			misses: number; // Evaluations that called the LLM
+	  }
+	| {
+			type: "cost_update";
+			inputTokens: number; // Run totals so far
+			outputTokens: number;
+			costUsd: number;
+	  }
 	| {
 			type: "iteration_done";
 			iteration: number;
@@ -226,6 +626,20 @@ export type ProgressEvent =
 			totalEvaluations: number;
 			acceptedCount: number;
 			rejectedCount: number;
+			stopReason: StopReason;
+			stopDetail: string; // Readable reason
+			unspentEvaluations?: number; // Left of maxEvaluations - GEPA only
+			unspentCostUsd?: number; // Left of maxCostUsd, when set - GEPA only
+	  }
+	| { type: "test_split"; split: TestSplitIds }
+	| {
+			// Final Pareto candidate of a split run - a large train/validation
+			// or validation/test gap means descriptions that do not generalize
+			type: "generalization";
+			candidateId: string;
+			trainScore: number;
+			validationScore: number;
+			testScore?: number; // Unset without held-out test cases
 	  }
 	| { type: "test_case_generation_start"; toolCount: number }
 	| {
@@ -13,6 +13,7 @@ import { ConfigPanel } from "./components/ConfigPanel";
 import { Card } from "./components/card";
 import { IterationDetail } from "./components/IterationDetail";
 import { IterationTimeline } from "./components/IterationTimeline";
+import { PromptTemplatesPanel } from "./components/PromptTemplatesPanel";
 import { ResultsPanel } from "./components/ResultsPanel";
 import { RunsHistoryPanel } from "./components/RunsHistoryPanel";
 import { SimpleIterationView } from "./components/SimpleIterationView";
@@ -167,6 +168,10 @@ function App() {
 		optimizationMutation.mutate({ serverId, config });
 	};
 
+	const resumeOptimization = (runId: string) => {
+		optimizationMutation.mutate({ runId });
+	};
+
 	const stopOptimization = async () => {
 		if (currentRunId) {
 			try {
@@ -214,10 +219,13 @@ function App() {
 					generation: event.generation ?? 0,
 					iteration: event.generation ?? 0,
 					parentId: null, // Will be filled in next pass
+					mergeParentId: event.mergeParentId ?? null,
 					toolDescriptions: event.toolDescriptions,
 					accuracy: event.accuracy,
 					avgDescriptionLength: event.avgLength,
 					isPareto: event.isPareto,
+					diagnosis: event.diagnosis,
+					rationale: event.rationale,
 					rejected: false,
 				});
 			}
@@ -368,6 +376,9 @@ function App() {
 							<TabsTrigger value="history" className="flex-1">
 								History
 							</TabsTrigger>
+							<TabsTrigger value="prompts" className="flex-1">
+								Prompts
+							</TabsTrigger>
 						</TabsList>
 						<TabsContent value="config" className="flex-1 overflow-y-auto m-0">
 							<ConfigPanel
@@ -379,9 +390,14 @@ function App() {
 						<TabsContent value="history" className="flex-1 overflow-hidden m-0">
 							<RunsHistoryPanel
 								onSelectRun={selectHistoricalRun}
+								onResumeRun={resumeOptimization}
 								currentRunId={currentRunId}
+								isRunning={optimizationMutation.isPending}
 							/>
 						</TabsContent>
+						<TabsContent value="prompts" className="flex-1 overflow-hidden m-0">
+							<PromptTemplatesPanel />
+						</TabsContent>
 					</Tabs>
 				</aside>
 
@@ -25,6 +25,7 @@ interface CandidateNodeData extends Record<string, unknown> {
 	toolDescriptions: Record<string, string>;
 	isExpanded: boolean;
 	isBaseline: boolean;
+	isMerge: boolean;
 	isEvaluating?: boolean;
 	rejected?: boolean;
 	rejectionReason?: string;
@@ -99,6 +100,14 @@ const CandidateNodeComponent = memo(
 								Baseline
 							</Badge>
 						)}
+						{data.isMerge && (
+							<Badge
+								variant="outline"
+								className="text-xs bg-violet-50 text-violet-700 border-violet-300"
+							>
+								Merge
+							</Badge>
+						)}
 						{isRejected && (
 							<Badge
 								variant="outline"
@@ -319,6 +328,7 @@ export function CandidateFlowGraph({
 				toolDescriptions: c.toolDescriptions,
 				isExpanded: false,
 				isBaseline: c.id === baselineCandidate?.id,
+				isMerge: !!c.mergeParentId,
 				isEvaluating: liveMode && c.id === currentlyEvaluatingId,
 				rejected: c.rejected,
 				rejectionReason: c.rejectionReason,
@@ -342,12 +352,32 @@ export function CandidateFlowGraph({
 					: undefined,
 			}));
 
-		return { rawNodes, rawEdges };
+		// Merge offspring also descend from a second parent
+		const mergeEdges: Edge[] = candidates.flatMap((c) =>
+			c.mergeParentId
+				? [
+						{
+							id: `edge-${c.mergeParentId}-${c.id}`,
+							source: c.mergeParentId,
+							target: c.id,
+							animated: liveMode && !c.rejected,
+							type: "smoothstep",
+							style: {
+								stroke: "#7c3aed",
+								strokeDasharray: c.rejected ? "5,5" : undefined,
+								opacity: c.rejected ? 0.5 : 1,
+							},
+						},
+					]
+				: [],
+		);
+
+		return { rawNodes, rawEdges: [...rawEdges, ...mergeEdges] };
 	}, [candidates, liveMode, currentlyEvaluatingId]);
 
 	// Apply layout when candidates structure changes (new candidates added, not just prop updates)
 	const candidateSignature = useMemo(
-		() => candidates.map(c => `${c.id}-${c.parentId}-${c.rejected}`).join('|'),
+		() => candidates.map(c => `${c.id}-${c.parentId}-${c.mergeParentId}-${c.rejected}`).join('|'),
 		[candidates]
 	);
 
@@ -1,20 +1,38 @@
 import { useQueryClient } from "@tanstack/react-query";
 import { X } from "lucide-react";
 import { useCallback, useEffect, useMemo, useState } from "react";
-import { MODEL_PROVIDERS } from "../../lib/constants";
-import type { MCPConfig, ModelName, OptimizationConfig } from "../../types";
+import type {
+	AcceptanceTest,
+	ArgumentMatcher,
+	ConversationMessage,
+	EvaluationModelWeight,
+	ExpectedCalls,
+	HostContext,
+	LengthMetric,
+	MCPConfig,
+	ModelName,
+	OptimizationConfig,
+	RobustnessMetric,
+	SelectionStrategy,
+	SubsampleStrategy,
+} from "../../types";
 import {
+	useAddModelProvider,
 	useAddTestCase,
 	useConnectMCP,
+	useDeleteModelProvider,
 	useDeleteServer,
 	useDeleteTestCase,
 	useDeselectAllTools,
 	useGenerateTests,
 	useMCPServers,
+	useModelProviders,
+	useModels,
 	useOAuthAuthorize,
 	useSelectAllTools,
 	useTestCases,
 	useTools,
+	useUpdateHostContext,
 	useUpdateToolSelection,
 } from "../queries";
 import { Alert, AlertDescription, AlertTitle } from "./alert";
@@ -164,8 +182,17 @@ export function ConfigPanel({ onStart, onStop, isRunning }: ConfigPanelProps) {
 	// Configuration
 	const [optimizer, setOptimizer] = useState<"gepa" | "golden">("gepa");
 	const [maxEvaluations, setMaxEvaluations] = useState(500);
+	const [maxCostUsd, setMaxCostUsd] = useState(""); // Empty = no dollar budget
+	const [hostSystemPrompt, setHostSystemPrompt] = useState("");
+	const [hostPreamble, setHostPreamble] = useState(""); // JSON messages
 	const [subsampleSize, setSubsampleSize] = useState(5);
+	const [subsampleStrategy, setSubsampleStrategy] =
+		useState<SubsampleStrategy>("random");
+	const [acceptanceTest, setAcceptanceTest] =
+		useState<AcceptanceTest>("threshold");
+	const [significanceLevel, setSignificanceLevel] = useState(5); // 1-20 (percent)
 	const [testsPerTool, setTestsPerTool] = useState(5);
+	const [abstentionsPerTool, setAbstentionsPerTool] = useState(0); // No-tool tests
 	const [testCasesPerCategory, setTestCasesPerCategory] = useState(10);
 	const [candidateCount, setCandidateCount] = useState(10);
 	const [evaluationModel, setEvaluationModel] = useState<ModelName>("claude-haiku-4-5");
@@ -176,6 +203,31 @@ export function ConfigPanel({ onStart, onStop, isRunning }: ConfigPanelProps) {
 	const [minAccuracy, setMinAccuracy] = useState(90); // 0-100 (percentage), default 90%
 	const [accuracyWeight, setAccuracyWeight] = useState(50); // 0-100 (50 = equal weight)
 	const [selectionTemperature, setSelectionTemperature] = useState(10); // 0-30 (10 = default 1.0)
+	const [selectionStrategy, setSelectionStrategy] =
+		useState<SelectionStrategy>("global-score");
+	const [stabilityWeight, setStabilityWeight] = useState(0); // 0-100 (only with sampling)
+	const [mergeProbability, setMergeProbability] = useState(0); // 0-100
+	const [reflectionBatchSize, setReflectionBatchSize] = useState(1); // Failures per reflection
+	// Early stopping - empty = rule off
+	const [targetAccuracy, setTargetAccuracy] = useState(""); // Percent
+	const [targetLength, setTargetLength] = useState(""); // In lengthMetric units
+	const [paretoPatience, setParetoPatience] = useState("");
+	const [hypervolumePatience, setHypervolumePatience] = useState("");
+	const [seed, setSeed] = useState(""); // Empty = new seed per run
+	// Test split - percent of test cases, empty = 0
+	const [validationSplit, setValidationSplit] = useState("");
+	const [testSplit, setTestSplit] = useState("");
+	// Repeated sampling
+	const [samplesPerTest, setSamplesPerTest] = useState(1);
+	const [samplingTemperature, setSamplingTemperature] = useState(0); // 0-20 (10 = 1.0)
+	// Cross-model robustness (evaluation model always has weight 1)
+	const [extraEvaluationModels, setExtraEvaluationModels] = useState<
+		EvaluationModelWeight[]
+	>([]);
+	const [robustnessMetric, setRobustnessMetric] =
+		useState<RobustnessMetric>("weighted-mean");
+	// Unit of the conciseness objective
+	const [lengthMetric, setLengthMetric] = useState<LengthMetric>("characters");
 
 	// MCP connection
 	const [mcpType, setMcpType] = useState<"stdio" | "http">("http");
@@ -202,12 +254,30 @@ export function ConfigPanel({ onStart, onStop, isRunning }: ConfigPanelProps) {
 	const [showAddTestForm, setShowAddTestForm] = useState(false);
 	const [newTestQuery, setNewTestQuery] = useState("");
 	const [newTestTool, setNewTestTool] = useState("");
+	const [newTestMatcherType, setNewTestMatcherType] = useState<
+		"none" | ArgumentMatcher["type"]
+	>("none");
+	const [newTestArguments, setNewTestArguments] = useState(""); // JSON
+	const [newTestMessages, setNewTestMessages] = useState(""); // JSON, multi-turn
+	const [newTestCallsType, setNewTestCallsType] = useState<
+		"single" | "none" | ExpectedCalls["type"]
+	>("single");
+	const [newTestOtherTools, setNewTestOtherTools] = useState(""); // Comma-separated
+
+	// Add model provider form state
+	const [showAddProviderForm, setShowAddProviderForm] = useState(false);
+	const [newProviderName, setNewProviderName] = useState("");
+	const [newProviderUrl, setNewProviderUrl] = useState("");
+	const [newProviderApiKey, setNewProviderApiKey] = useState("");
+	const [newProviderModels, setNewProviderModels] = useState("");
 
 	// Queries
 	const queryClient = useQueryClient();
 	const { data: servers = [] } = useMCPServers();
 	const { data: tools = [] } = useTools(selectedServer);
 	const { data: testCases = [] } = useTestCases(selectedServer);
+	const { data: models = [] } = useModels();
+	const { data: modelProviders = [] } = useModelProviders();
 	const connectMCPMutation = useConnectMCP();
 	const deleteServerMutation = useDeleteServer();
 	const generateTestsMutation = useGenerateTests();
@@ -217,6 +287,9 @@ export function ConfigPanel({ onStart, onStop, isRunning }: ConfigPanelProps) {
 	const selectAllToolsMutation = useSelectAllTools();
 	const deselectAllToolsMutation = useDeselectAllTools();
 	const oauthAuthorizeMutation = useOAuthAuthorize();
+	const addModelProviderMutation = useAddModelProvider();
+	const deleteModelProviderMutation = useDeleteModelProvider();
+	const updateHostContextMutation = useUpdateHostContext();
 
 	// Set first server as selected when servers load
 	useEffect(() => {
@@ -225,6 +298,18 @@ export function ConfigPanel({ onStart, onStop, isRunning }: ConfigPanelProps) {
 		}
 	}, [servers, selectedServer]);
 
+	// Start from the selected server's saved host context
+	useEffect(() => {
+		const server = servers.find((s) => s.id === selectedServer);
+		const hostContext: HostContext = server?.hostContext
+			? JSON.parse(server.hostContext)
+			: {};
+		setHostSystemPrompt(hostContext.systemPrompt ?? "");
+		setHostPreamble(
+			hostContext.preamble ? JSON.stringify(hostContext.preamble, null, 2) : "",
+		);
+	}, [servers, selectedServer]);
+
 	// Handle OAuth callback messages
 	useEffect(() => {
 		const handleMessage = (event: MessageEvent) => {
@@ -331,14 +416,17 @@ export function ConfigPanel({ onStart, onStop, isRunning }: ConfigPanelProps) {
 		generateTestsMutation.mutate({
 			serverId: selectedServer,
 			testsPerTool,
+			abstentionsPerTool,
 			model: generationModel,
 			customPrompt: customTestPrompt.trim() || undefined,
 		});
 	};
 
 	const handleAddTestCase = () => {
-		if (!newTestQuery.trim() || !newTestTool) {
-			setAlertMessage("Please fill in both query and expected tool");
+		if ((!newTestQuery.trim() && !newTestMessages.trim()) || !newTestTool) {
+			setAlertMessage(
+				"Please fill in a query or conversation and the expected tool",
+			);
 			setAlertVariant("destructive");
 			return;
 		}
@@ -350,16 +438,71 @@ export function ConfigPanel({ onStart, onStop, isRunning }: ConfigPanelProps) {
 			return;
 		}
 
+		// Abstention tests only check that no tool is called
+		const abstention = newTestCallsType === "none";
+		const matcherType = abstention ? "none" : newTestMatcherType;
+
+		let expectedArguments: ArgumentMatcher | undefined;
+		if (matcherType === "schema") {
+			expectedArguments = { type: "schema" };
+		} else if (matcherType !== "none") {
+			try {
+				expectedArguments = {
+					type: matcherType,
+					value: JSON.parse(newTestArguments),
+				};
+			} catch {
+				setAlertMessage("Expected arguments must be valid JSON");
+				setAlertVariant("destructive");
+				return;
+			}
+		}
+
+		let messages: ConversationMessage[] | undefined;
+		if (newTestMessages.trim()) {
+			try {
+				messages = JSON.parse(newTestMessages);
+			} catch {
+				setAlertMessage("Conversation must be valid JSON");
+				setAlertVariant("destructive");
+				return;
+			}
+		}
+
+		// Multi-tool tests: the expected tool comes first, then the others
+		const expectedCalls: ExpectedCalls | undefined =
+			newTestCallsType === "single" || abstention
+				? undefined
+				: {
+						type: newTestCallsType,
+						tools: [
+							newTestTool,
+							...newTestOtherTools
+								.split(",")
+								.map((name) => name.trim())
+								.filter(Boolean),
+						],
+					};
+
 		addTestCaseMutation.mutate(
 			{
 				toolId,
 				query: newTestQuery.trim(),
 				expectedTool: newTestTool,
+				expectedArguments,
+				messages,
+				expectedCalls,
+				shouldCall: abstention ? false : undefined,
 			},
 			{
 				onSuccess: () => {
 					setNewTestQuery("");
 					setNewTestTool("");
+					setNewTestMatcherType("none");
+					setNewTestArguments("");
+					setNewTestMessages("");
+					setNewTestCallsType("single");
+					setNewTestOtherTools("");
 					setShowAddTestForm(false);
 					setAlertMessage("Test case added successfully");
 					setAlertVariant("default");
@@ -374,6 +517,44 @@ export function ConfigPanel({ onStart, onStop, isRunning }: ConfigPanelProps) {
 		);
 	};
 
+	const handleAddModelProvider = () => {
+		const modelIds = newProviderModels
+			.split(",")
+			.map((m) => m.trim())
+			.filter(Boolean);
+		if (!newProviderName.trim() || !newProviderUrl.trim() || modelIds.length === 0) {
+			setAlertMessage("Please fill in provider name, base URL and at least one model");
+			setAlertVariant("destructive");
+			return;
+		}
+
+		addModelProviderMutation.mutate(
+			{
+				name: newProviderName.trim(),
+				baseUrl: newProviderUrl.trim(),
+				apiKey: newProviderApiKey.trim() || undefined,
+				models: modelIds,
+			},
+			{
+				onSuccess: (data) => {
+					setNewProviderName("");
+					setNewProviderUrl("");
+					setNewProviderApiKey("");
+					setNewProviderModels("");
+					setShowAddProviderForm(false);
+					setAlertMessage(`Registered ${data.models.join(", ")}`);
+					setAlertVariant("default");
+				},
+				onError: (error) => {
+					setAlertMessage(
+						`Failed to add provider: ${error instanceof Error ? error.message : "Unknown error"}`,
+					);
+					setAlertVariant("destructive");
+				},
+			},
+		);
+	};
+
 	const handleDeleteTestCase = (testId: string) => {
 		deleteTestCaseMutation.mutate({ testId });
 	};
@@ -406,13 +587,57 @@ export function ConfigPanel({ onStart, onStop, isRunning }: ConfigPanelProps) {
 		[testCases, selectedToolIds]
 	);
 
+	// Host context from the form, or null (with an alert) on bad JSON
+	const buildHostContext = (): HostContext | null => {
+		try {
+			return {
+				systemPrompt: hostSystemPrompt.trim() || undefined,
+				preamble: hostPreamble.trim() ? JSON.parse(hostPreamble) : undefined,
+			};
+		} catch {
+			setAlertMessage("Preamble must be valid JSON");
+			setAlertVariant("destructive");
+			return null;
+		}
+	};
+
+	const handleSaveHostContext = () => {
+		const hostContext = buildHostContext();
+		if (!selectedServer || !hostContext) return;
+
+		updateHostContextMutation.mutate(
+			{ serverId: selectedServer, hostContext },
+			{
+				onSuccess: () => {
+					setAlertMessage("Host context saved for this server");
+					setAlertVariant("default");
+				},
+				onError: (error) => {
+					setAlertMessage(
+						`Failed to save host context: ${error instanceof Error ? error.message : "Unknown error"}`,
+					);
+					setAlertVariant("destructive");
+				},
+			},
+		);
+	};
+
 	const handleStartClick = () => {
 		if (!selectedServer) return;
 
+		// The form always holds the context this run should use
+		const hostContext = buildHostContext();
+		if (!hostContext) return;
+
 		onStart(selectedServer, {
 			optimizer,
 			maxEvaluations,
+			maxCostUsd: maxCostUsd ? Number(maxCostUsd) : undefined,
 			subsampleSize,
+			subsampleStrategy,
+			acceptanceTest,
+			significanceLevel:
+				acceptanceTest === "threshold" ? undefined : significanceLevel / 100,
 			testsPerTool,
 			testCasesPerCategory,
 			candidateCount,
@@ -422,6 +647,31 @@ export function ConfigPanel({ onStart, onStop, isRunning }: ConfigPanelProps) {
 			minAccuracy: minAccuracy / 100,
 			accuracyWeight: accuracyWeight / 100,
 			selectionTemperature: selectionTemperature / 10,
+			selectionStrategy,
+			samplesPerTest,
+			samplingTemperature: samplingTemperature / 10,
+			stabilityWeight: samplesPerTest > 1 ? stabilityWeight / 100 : undefined,
+			mergeProbability: mergeProbability / 100,
+			reflectionBatchSize,
+			targetAccuracy: targetAccuracy ? Number(targetAccuracy) / 100 : undefined,
+			targetLength: targetLength ? Number(targetLength) : undefined,
+			paretoPatience: paretoPatience ? Number(paretoPatience) : undefined,
+			hypervolumePatience: hypervolumePatience
+				? Number(hypervolumePatience)
+				: undefined,
+			seed: seed ? Number(seed) : undefined,
+			validationSplit: validationSplit
+				? Number(validationSplit) / 100
+				: undefined,
+			testSplit: testSplit ? Number(testSplit) / 100 : undefined,
+			evaluationModels:
+				extraEvaluationModels.length > 0
+					? [{ model: evaluationModel, weight: 1 }, ...extraEvaluationModels]
+					: undefined,
+			robustnessMetric:
+				extraEvaluationModels.length > 0 ? robustnessMetric : undefined,
+			lengthMetric,
+			hostContext,
 		});
 	};
 
@@ -811,6 +1061,24 @@ export function ConfigPanel({ onStart, onStop, isRunning }: ConfigPanelProps) {
 								</p>
 							</div>
 
+							<div className="space-y-3">
+								<Label htmlFor="max-cost">Max Cost (USD)</Label>
+								<Input
+									id="max-cost"
+									type="number"
+									min={0}
+									step={0.5}
+									value={maxCostUsd}
+									onChange={(e) => setMaxCostUsd(e.target.value)}
+									placeholder="No limit"
+								/>
+								<p className="text-xs text-muted-foreground">
+									Stops the run once evaluations, reflections and test
+									generation have cost this much. Only built-in models have
+									prices; custom models count tokens only.
+								</p>
+							</div>
+
 							<div className="space-y-3">
 								<div className="flex justify-between items-center">
 									<Label htmlFor="subsample">Subsample Size</Label>
@@ -838,6 +1106,114 @@ export function ConfigPanel({ onStart, onStop, isRunning }: ConfigPanelProps) {
 								</p>
 							</div>
 
+							<div className="space-y-2">
+								<Label htmlFor="subsample-strategy">Subsample Strategy</Label>
+								<Select
+									value={subsampleStrategy}
+									onValueChange={(value) =>
+										setSubsampleStrategy(value as SubsampleStrategy)
+									}
+								>
+									<SelectTrigger id="subsample-strategy">
+										<SelectValue />
+									</SelectTrigger>
+									<SelectContent>
+										<SelectItem value="random">Random</SelectItem>
+										<SelectItem value="mutated-tools">Mutated tools</SelectItem>
+										<SelectItem value="stratified">Stratified</SelectItem>
+										<SelectItem value="failure-aware">Failure-aware</SelectItem>
+									</SelectContent>
+								</Select>
+								<p className="text-xs text-muted-foreground">
+									Mutated tools always includes tests for the tools the
+									offspring changed. Stratified spreads the subsample across
+									tools and test types. Failure-aware does both and fills up to
+									half the subsample with the parent's failures.
+								</p>
+							</div>
+
+							<div className="space-y-2">
+								<Label htmlFor="acceptance-test">Acceptance Test</Label>
+								<Select
+									value={acceptanceTest}
+									onValueChange={(value) =>
+										setAcceptanceTest(value as AcceptanceTest)
+									}
+								>
+									<SelectTrigger id="acceptance-test">
+										<SelectValue />
+									</SelectTrigger>
+									<SelectContent>
+										<SelectItem value="threshold">Score threshold</SelectItem>
+										<SelectItem value="sequential">Sequential</SelectItem>
+										<SelectItem value="mcnemar">McNemar</SelectItem>
+										<SelectItem value="bootstrap">Bootstrap</SelectItem>
+									</SelectContent>
+								</Select>
+								<p className="text-xs text-muted-foreground">
+									Threshold rejects any offspring that scores lower on the
+									subsample. Sequential adds up to 3 more subsamples until the
+									difference is significant. McNemar and bootstrap reject only
+									offspring that are significantly worse.
+								</p>
+							</div>
+
+							{acceptanceTest !== "threshold" && (
+								<div className="space-y-3">
+									<div className="flex justify-between items-center">
+										<Label htmlFor="significance-level">
+											Significance Level
+										</Label>
+										<span className="text-sm font-medium text-foreground">
+											{(significanceLevel / 100).toFixed(2)}
+										</span>
+									</div>
+									<Slider
+										id="significance-level"
+										min={1}
+										max={20}
+										step={1}
+										value={[significanceLevel]}
+										onValueChange={(value) => {
+											const newValue = value[0];
+											if (newValue !== undefined) {
+												setSignificanceLevel(newValue);
+											}
+										}}
+									/>
+								</div>
+							)}
+
+							<div className="space-y-3">
+								<div className="flex justify-between items-center">
+									<Label htmlFor="reflection-batch">
+										Reflection Batch Size
+									</Label>
+									<span className="text-sm font-medium text-foreground">
+										{reflectionBatchSize}
+									</span>
+								</div>
+								<Slider
+									id="reflection-batch"
+									min={1}
+									max={10}
+									step={1}
+									value={[reflectionBatchSize]}
+									onValueChange={(value) => {
+										const newValue = value[0];
+										if (newValue !== undefined) {
+											setReflectionBatchSize(newValue);
+										}
+									}}
+								/>
+								<p className="text-xs text-muted-foreground">
+									Failures each reflection looks at. Above 1, one reflection
+									sees several failures and a few passing queries, and can
+									rewrite every tool involved - including the tools picked by
+									mistake. 1 = one failure, one tool (default).
+								</p>
+							</div>
+
 							{/* Multi-objective Trade-off Controls */}
 							<div className="space-y-4 pt-2 border-t">
 								<h4 className="text-sm font-semibold">Multi-Objective Trade-offs</h4>
@@ -949,6 +1325,221 @@ export function ConfigPanel({ onStart, onStop, isRunning }: ConfigPanelProps) {
 										Lower = exploit best solutions, Higher = explore alternatives. 10 = balanced (default). Min 1 = max exploitation.
 									</p>
 								</div>
+
+								<div className="space-y-2">
+									<Label htmlFor="selection-strategy">Parent Selection</Label>
+									<Select
+										value={selectionStrategy}
+										onValueChange={(value) =>
+											setSelectionStrategy(value as SelectionStrategy)
+										}
+									>
+										<SelectTrigger id="selection-strategy">
+											<SelectValue />
+										</SelectTrigger>
+										<SelectContent>
+											<SelectItem value="global-score">Global score</SelectItem>
+											<SelectItem value="pareto-frequency">
+												Pareto frequency
+											</SelectItem>
+											<SelectItem value="tournament">Tournament</SelectItem>
+											<SelectItem value="ucb">UCB bandit</SelectItem>
+										</SelectContent>
+									</Select>
+									<p className="text-xs text-muted-foreground">
+										Global score samples by the accuracy/conciseness score
+										above. Pareto frequency (the GEPA paper) samples candidates
+										by how many tests they are best at. Tournament takes the
+										best of 3 random candidates. UCB favors parents whose
+										offspring pass the subsample filter, and tries every
+										candidate once.
+									</p>
+								</div>
+
+								<div className="space-y-3">
+									<div className="flex justify-between items-center">
+										<Label htmlFor="merge-probability">Merge Probability</Label>
+										<span className="text-sm font-medium text-foreground">
+											{mergeProbability}%
+										</span>
+									</div>
+									<Slider
+										id="merge-probability"
+										min={0}
+										max={100}
+										step={10}
+										value={[mergeProbability]}
+										onValueChange={(value) => {
+											const newValue = value[0];
+											if (newValue !== undefined) {
+												setMergeProbability(newValue);
+											}
+										}}
+									/>
+									<p className="text-xs text-muted-foreground">
+										Share of iterations that combine two Pareto-front candidates
+										from different lineages, taking each tool's description from
+										the parent that did better on its tests. 0% = reflection
+										only (default).
+									</p>
+								</div>
+
+								{samplesPerTest > 1 && (
+									<div className="space-y-3">
+										<div className="flex justify-between items-center">
+											<Label htmlFor="stability-weight">Stability Weight</Label>
+											<span className="text-sm font-medium text-foreground">
+												{stabilityWeight}%
+											</span>
+										</div>
+										<Slider
+											id="stability-weight"
+											min={0}
+											max={100}
+											step={10}
+											value={[stabilityWeight]}
+											onValueChange={(value) => {
+												const newValue = value[0];
+												if (newValue !== undefined) {
+													setStabilityWeight(newValue);
+												}
+											}}
+										/>
+										<p className="text-xs text-muted-foreground">
+											Share of the parent selection score given to how consistently
+											candidates pick the same tool across samples. 0% = ignore.
+										</p>
+									</div>
+								)}
+							</div>
+
+							{/* Convergence rules - each stops the run before the budget is spent */}
+							<div className="space-y-4 pt-2 border-t">
+								<h4 className="text-sm font-semibold">Early Stopping</h4>
+
+								<div className="space-y-3">
+									<Label htmlFor="target-accuracy">Target Accuracy (%)</Label>
+									<Input
+										id="target-accuracy"
+										type="number"
+										min={1}
+										max={100}
+										value={targetAccuracy}
+										onChange={(e) => setTargetAccuracy(e.target.value)}
+										placeholder="No target"
+									/>
+									<Label htmlFor="target-length">
+										Target Length (
+										{lengthMetric === "tokens" ? "tokens" : "chars"})
+									</Label>
+									<Input
+										id="target-length"
+										type="number"
+										min={1}
+										value={targetLength}
+										onChange={(e) => setTargetLength(e.target.value)}
+										placeholder="No target"
+									/>
+									<p className="text-xs text-muted-foreground">
+										Stops once a candidate reaches the target accuracy with
+										descriptions no longer than the target length on average.
+										Set one or both.
+									</p>
+								</div>
+
+								<div className="space-y-3">
+									<Label htmlFor="pareto-patience">Pareto Patience</Label>
+									<Input
+										id="pareto-patience"
+										type="number"
+										min={1}
+										value={paretoPatience}
+										onChange={(e) => setParetoPatience(e.target.value)}
+										placeholder="Off"
+									/>
+									<p className="text-xs text-muted-foreground">
+										Stops after this many iterations in a row without an
+										offspring that beats the best candidate on any test case.
+									</p>
+								</div>
+
+								<div className="space-y-3">
+									<Label htmlFor="hypervolume-patience">
+										Hypervolume Patience
+									</Label>
+									<Input
+										id="hypervolume-patience"
+										type="number"
+										min={1}
+										value={hypervolumePatience}
+										onChange={(e) => setHypervolumePatience(e.target.value)}
+										placeholder="Off"
+									/>
+									<p className="text-xs text-muted-foreground">
+										Stops after this many iterations in a row in which the
+										accuracy/length trade-off front stopped growing. Unspent
+										budget is reported when the run ends.
+									</p>
+								</div>
+							</div>
+
+							{/* Test split - keeps reported accuracy from being overfit */}
+							<div className="space-y-4 pt-2 border-t">
+								<h4 className="text-sm font-semibold">Test Split</h4>
+
+								<div className="space-y-3">
+									<Label htmlFor="validation-split">Validation Split (%)</Label>
+									<Input
+										id="validation-split"
+										type="number"
+										min={0}
+										max={90}
+										value={validationSplit}
+										onChange={(e) => setValidationSplit(e.target.value)}
+										placeholder="0"
+									/>
+									<p className="text-xs text-muted-foreground">
+										Test cases for Pareto fronts, subsamples and acceptance.
+										Reflection only sees failures on the rest (train). 0% =
+										every case for both.
+									</p>
+								</div>
+
+								<div className="space-y-3">
+									<Label htmlFor="test-split">Test Split (%)</Label>
+									<Input
+										id="test-split"
+										type="number"
+										min={0}
+										max={90}
+										value={testSplit}
+										onChange={(e) => setTestSplit(e.target.value)}
+										placeholder="0"
+									/>
+									<p className="text-xs text-muted-foreground">
+										Test cases held out of the search. The final Pareto
+										candidates are scored on them, and Results shows the
+										train/validation/test gap.
+									</p>
+								</div>
+							</div>
+
+							<div className="space-y-3">
+								<Label htmlFor="seed">Random Seed</Label>
+								<Input
+									id="seed"
+									type="number"
+									min={0}
+									value={seed}
+									onChange={(e) => setSeed(e.target.value)}
+									placeholder="New seed per run"
+								/>
+								<p className="text-xs text-muted-foreground">
+									Seeds parent selection, subsampling, merges, failure picking
+									and the test split. The seed of every run is shown in its
+									history - reuse it with a deterministic model to replay the
+									run.
+								</p>
 							</div>
 
 							<div className="space-y-3">
@@ -985,6 +1576,33 @@ export function ConfigPanel({ onStart, onStop, isRunning }: ConfigPanelProps) {
 									Number of test cases to auto-generate per tool (1-50).
 								</p>
 							</div>
+
+							<div className="space-y-2">
+								<div className="flex justify-between items-center">
+									<Label htmlFor="abstentions-per-tool">
+										No-Tool Tests Per Tool
+									</Label>
+									<Input
+										id="abstentions-per-tool"
+										type="number"
+										min={0}
+										max={20}
+										value={abstentionsPerTool}
+										onChange={(e) => {
+											const val = Number.parseInt(e.target.value, 10);
+											if (val >= 0 && val <= 20) {
+												setAbstentionsPerTool(val);
+											}
+										}}
+										className="w-20 h-8 text-sm"
+									/>
+								</div>
+								<p className="text-xs text-muted-foreground">
+									Abstention tests: queries near each tool that should be
+									answered without calling any tool (0-20). Catches descriptions
+									that over-trigger.
+								</p>
+							</div>
 						</div>
 					) : (
 						<div className="space-y-6">
@@ -1071,9 +1689,10 @@ export function ConfigPanel({ onStart, onStop, isRunning }: ConfigPanelProps) {
 									<SelectValue />
 								</SelectTrigger>
 								<SelectContent>
-									{Object.keys(MODEL_PROVIDERS).map((modelKey) => (
-										<SelectItem key={modelKey} value={modelKey}>
-											{formatModelName(modelKey)}
+									{models.map((model) => (
+										<SelectItem key={model.name} value={model.name}>
+											{formatModelName(model.name)}
+											{!model.available && " (no API key)"}
 										</SelectItem>
 									))}
 								</SelectContent>
@@ -1083,6 +1702,178 @@ export function ConfigPanel({ onStart, onStop, isRunning }: ConfigPanelProps) {
 							</p>
 						</div>
 
+						<div className="space-y-2 max-w-md">
+							<div className="flex items-center justify-between">
+								<Label>Additional Evaluation Models</Label>
+								<Button
+									variant="outline"
+									size="sm"
+									disabled={models.length === 0}
+									onClick={() => {
+										const next = models.find(
+											(m) =>
+												m.name !== evaluationModel &&
+												!extraEvaluationModels.some((e) => e.model === m.name),
+										);
+										if (next) {
+											setExtraEvaluationModels([
+												...extraEvaluationModels,
+												{ model: next.name, weight: 1 },
+											]);
+										}
+									}}
+								>
+									Add Model
+								</Button>
+							</div>
+							{extraEvaluationModels.map((entry, index) => (
+								<div key={entry.model} className="flex items-center gap-2">
+									<Select
+										value={entry.model}
+										onValueChange={(value) =>
+											setExtraEvaluationModels(
+												extraEvaluationModels.map((e, i) =>
+													i === index ? { ...e, model: value as ModelName } : e,
+												),
+											)
+										}
+									>
+										<SelectTrigger className="flex-1">
+											<SelectValue />
+										</SelectTrigger>
+										<SelectContent>
+											{models.map((model) => (
+												<SelectItem key={model.name} value={model.name}>
+													{formatModelName(model.name)}
+													{!model.available && " (no API key)"}
+												</SelectItem>
+											))}
+										</SelectContent>
+									</Select>
+									<Input
+										type="number"
+										min={0.1}
+										step={0.1}
+										value={entry.weight}
+										className="w-20"
+										aria-label={`Weight for ${entry.model}`}
+										onChange={(e) => {
+											const val = Number.parseFloat(e.target.value);
+											if (val > 0) {
+												setExtraEvaluationModels(
+													extraEvaluationModels.map((m, i) =>
+														i === index ? { ...m, weight: val } : m,
+													),
+												);
+											}
+										}}
+									/>
+									<Button
+										variant="ghost"
+										size="sm"
+										onClick={() =>
+											setExtraEvaluationModels(
+												extraEvaluationModels.filter((_, i) => i !== index),
+											)
+										}
+									>
+										<X className="h-4 w-4" />
+									</Button>
+								</div>
+							))}
+							{extraEvaluationModels.length > 0 && (
+								<div className="space-y-2">
+									<Label htmlFor="robustness-metric">Robustness Metric</Label>
+									<Select
+										value={robustnessMetric}
+										onValueChange={(value) =>
+											setRobustnessMetric(value as RobustnessMetric)
+										}
+									>
+										<SelectTrigger id="robustness-metric">
+											<SelectValue />
+										</SelectTrigger>
+										<SelectContent>
+											<SelectItem value="weighted-mean">Weighted mean</SelectItem>
+											<SelectItem value="min">Worst model (min)</SelectItem>
+										</SelectContent>
+									</Select>
+								</div>
+							)}
+							<p className="text-xs text-muted-foreground">
+								Evaluate every test on these models too (the evaluation model has
+								weight 1). Parent selection uses the robustness score, so
+								descriptions that only work on one model lose out. Each model
+								multiplies the evaluation cost.
+							</p>
+						</div>
+
+						<div className="space-y-2 max-w-md">
+							<Label htmlFor="length-metric">Measure Length In</Label>
+							<Select
+								value={lengthMetric}
+								onValueChange={(value) => setLengthMetric(value as LengthMetric)}
+							>
+								<SelectTrigger id="length-metric">
+									<SelectValue />
+								</SelectTrigger>
+								<SelectContent>
+									<SelectItem value="characters">Characters</SelectItem>
+									<SelectItem value="tokens">Tokens</SelectItem>
+								</SelectContent>
+							</Select>
+							<p className="text-xs text-muted-foreground">
+								What the conciseness objective minimizes: description characters,
+								or estimated tokens per tool definition (schema included) for the
+								evaluation model's provider.
+							</p>
+						</div>
+
+						<div className="grid grid-cols-2 gap-4 max-w-md">
+							<div className="space-y-2">
+								<Label htmlFor="samples-per-test">Samples per Test</Label>
+								<Input
+									id="samples-per-test"
+									type="number"
+									min={1}
+									max={20}
+									value={samplesPerTest}
+									onChange={(e) => {
+										const val = Number.parseInt(e.target.value, 10);
+										if (val >= 1 && val <= 20) {
+											setSamplesPerTest(val);
+										}
+									}}
+								/>
+							</div>
+							<div className="space-y-2">
+								<div className="flex justify-between items-center">
+									<Label htmlFor="sampling-temperature">Temperature</Label>
+									<span className="text-sm font-medium text-foreground">
+										{(samplingTemperature / 10).toFixed(1)}
+									</span>
+								</div>
+								<Slider
+									id="sampling-temperature"
+									min={0}
+									max={20}
+									step={1}
+									value={[samplingTemperature]}
+									onValueChange={(value) => {
+										const newValue = value[0];
+										if (newValue !== undefined) {
+											setSamplingTemperature(newValue);
+										}
+									}}
+								/>
+							</div>
+							<p className="col-span-2 text-xs text-muted-foreground">
+								Call the evaluation model several times per test, at the
+								temperature your agent runs with. Each sample counts against the
+								budget; results show expected accuracy and selection stability.
+							</p>
+						</div>
+
 						<div className="space-y-2 max-w-md">
 							<Label htmlFor="generation-model">Generation Model</Label>
 							<Select
@@ -1093,9 +1884,10 @@ export function ConfigPanel({ onStart, onStop, isRunning }: ConfigPanelProps) {
 									<SelectValue />
 								</SelectTrigger>
 								<SelectContent>
-									{Object.keys(MODEL_PROVIDERS).map((modelKey) => (
-										<SelectItem key={modelKey} value={modelKey}>
-											{formatModelName(modelKey)}
+									{models.map((model) => (
+										<SelectItem key={model.name} value={model.name}>
+											{formatModelName(model.name)}
+											{!model.available && " (no API key)"}
 										</SelectItem>
 									))}
 								</SelectContent>
@@ -1104,6 +1896,148 @@ export function ConfigPanel({ onStart, onStop, isRunning }: ConfigPanelProps) {
 								LLM used for reflection, test generation, and mutation. Better models improve quality.
 							</p>
 						</div>
+
+						<div className="space-y-3 pt-2 border-t">
+							<div className="flex items-center justify-between">
+								<h4 className="text-sm font-semibold">Custom Model Providers</h4>
+								<Button
+									variant="outline"
+									size="sm"
+									onClick={() => setShowAddProviderForm(!showAddProviderForm)}
+								>
+									{showAddProviderForm ? "Cancel" : "Add Provider"}
+								</Button>
+							</div>
+							<p className="text-xs text-muted-foreground">
+								Register any OpenAI-compatible endpoint (vLLM, Ollama, ...). Its models
+								appear above as provider/model.
+							</p>
+
+							{modelProviders
+								.filter((provider) => !provider.builtin)
+								.map((provider) => (
+									<div
+										key={provider.id}
+										className="flex items-center justify-between p-3 rounded-lg border"
+									>
+										<div className="min-w-0">
+											<div className="text-sm font-medium truncate">
+												{provider.name}
+											</div>
+											<div className="text-xs text-muted-foreground truncate">
+												{provider.baseUrl}
+											</div>
+										</div>
+										<Button
+											variant="ghost"
+											size="sm"
+											onClick={() =>
+												deleteModelProviderMutation.mutate({
+													providerId: provider.id,
+												})
+											}
+											disabled={deleteModelProviderMutation.isPending}
+											className="flex-shrink-0 text-destructive hover:text-destructive hover:bg-destructive/10"
+										>
+											<X className="h-4 w-4" />
+										</Button>
+									</div>
+								))}
+
+							{showAddProviderForm && (
+								<div className="border rounded-lg p-4 bg-muted/30 space-y-3">
+									<div className="space-y-2">
+										<Label htmlFor="provider-name">Name</Label>
+										<Input
+											id="provider-name"
+											type="text"
+											value={newProviderName}
+											onChange={(e) => setNewProviderName(e.target.value)}
+											placeholder="ollama"
+										/>
+									</div>
+									<div className="space-y-2">
+										<Label htmlFor="provider-url">Base URL</Label>
+										<Input
+											id="provider-url"
+											type="text"
+											value={newProviderUrl}
+											onChange={(e) => setNewProviderUrl(e.target.value)}
+											placeholder="http://localhost:11434/v1"
+										/>
+									</div>
+									<div className="space-y-2">
+										<Label htmlFor="provider-api-key">API Key (Optional)</Label>
+										<Input
+											id="provider-api-key"
+											type="password"
+											value={newProviderApiKey}
+											onChange={(e) => setNewProviderApiKey(e.target.value)}
+										/>
+									</div>
+									<div className="space-y-2">
+										<Label htmlFor="provider-models">Models</Label>
+										<Input
+											id="provider-models"
+											type="text"
+											value={newProviderModels}
+											onChange={(e) => setNewProviderModels(e.target.value)}
+											placeholder="llama3.1, qwen2.5:7b"
+										/>
+									</div>
+									<Button
+										onClick={handleAddModelProvider}
+										disabled={addModelProviderMutation.isPending}
+									>
+										{addModelProviderMutation.isPending
+											? "Adding..."
+											: "Add Provider"}
+									</Button>
+								</div>
+							)}
+						</div>
+					</div>
+				</div>
+
+				<Separator />
+				<div className="space-y-4">
+					<div className="flex items-center justify-between">
+						<h3 className="text-lg font-semibold">Host Context</h3>
+						<Button
+							variant="outline"
+							size="sm"
+							onClick={handleSaveHostContext}
+							disabled={!selectedServer || updateHostContextMutation.isPending}
+						>
+							{updateHostContextMutation.isPending
+								? "Saving..."
+								: "Save for Server"}
+						</Button>
+					</div>
+					<p className="text-xs text-muted-foreground">
+						What your agent sends around the user's request. Every evaluation
+						includes it and reflections see it. Changes apply to the next run;
+						save them to make them the server's default.
+					</p>
+					<div className="space-y-2">
+						<Label htmlFor="host-system-prompt">System Prompt</Label>
+						<textarea
+							id="host-system-prompt"
+							value={hostSystemPrompt}
+							onChange={(e) => setHostSystemPrompt(e.target.value)}
+							placeholder="You are a helpful assistant with access to..."
+							className="w-full min-h-[80px] px-3 py-2 text-sm border rounded-md resize-y"
+						/>
+					</div>
+					<div className="space-y-2">
+						<Label htmlFor="host-preamble">Preamble Messages (JSON)</Label>
+						<textarea
+							id="host-preamble"
+							value={hostPreamble}
+							onChange={(e) => setHostPreamble(e.target.value)}
+							placeholder='[{"role": "user", "content": "..."}, {"role": "assistant", "content": "..."}]'
+							className="w-full min-h-[60px] px-3 py-2 text-sm font-mono border rounded-md resize-y"
+						/>
 					</div>
 				</div>
 
@@ -1152,7 +2086,7 @@ export function ConfigPanel({ onStart, onStop, isRunning }: ConfigPanelProps) {
 								>
 									{generateTestsMutation.isPending
 										? "Generating..."
-										: `Generate ${testsPerTool} per tool`}
+										: `Generate ${testsPerTool}${abstentionsPerTool > 0 ? ` + ${abstentionsPerTool} no-tool` : ""} per tool`}
 								</Button>
 								<Button
 									onClick={() => setShowAddTestForm(!showAddTestForm)}
@@ -1176,7 +2110,29 @@ export function ConfigPanel({ onStart, onStop, isRunning }: ConfigPanelProps) {
 										/>
 									</div>
 									<div className="space-y-2">
-										<Label htmlFor="test-tool">Expected Tool</Label>
+										<Label htmlFor="test-messages">
+											Conversation (optional, JSON)
+										</Label>
+										<textarea
+											id="test-messages"
+											value={newTestMessages}
+											onChange={(e) => setNewTestMessages(e.target.value)}
+											placeholder={
+												'[{"role": "user", "content": "..."}, {"role": "assistant", "toolCalls": [{"id": "1", "toolName": "...", "arguments": {}}]}, {"role": "tool", "toolCallId": "1", "toolName": "...", "result": "..."}, {"role": "user", "content": "..."}]'
+											}
+											className="w-full min-h-[80px] px-3 py-2 text-sm font-mono border rounded-md resize-y"
+										/>
+										<p className="text-xs text-muted-foreground">
+											Multi-turn test: the expected tool is checked for the next
+											step. Query defaults to the last user message.
+										</p>
+									</div>
+									<div className="space-y-2">
+										<Label htmlFor="test-tool">
+											{newTestCallsType === "none"
+												? "Tool It Might Wrongly Trigger"
+												: "Expected Tool"}
+										</Label>
 										<Select value={newTestTool} onValueChange={setNewTestTool}>
 											<SelectTrigger id="test-tool">
 												<SelectValue placeholder="Select expected tool" />
@@ -1192,6 +2148,97 @@ export function ConfigPanel({ onStart, onStop, isRunning }: ConfigPanelProps) {
 											</SelectContent>
 										</Select>
 									</div>
+									<div className="space-y-2">
+										<Label htmlFor="test-calls">Tool Calls</Label>
+										<Select
+											value={newTestCallsType}
+											onValueChange={(value) =>
+												setNewTestCallsType(value as typeof newTestCallsType)
+											}
+										>
+											<SelectTrigger id="test-calls">
+												<SelectValue />
+											</SelectTrigger>
+											<SelectContent>
+												<SelectItem value="single">Expected tool only</SelectItem>
+												<SelectItem value="set">All of (any order)</SelectItem>
+												<SelectItem value="sequence">In this order</SelectItem>
+												<SelectItem value="any-of">Any one of</SelectItem>
+												<SelectItem value="none">
+													No tool (abstention)
+												</SelectItem>
+											</SelectContent>
+										</Select>
+										{newTestCallsType === "none" && (
+											<p className="text-xs text-muted-foreground">
+												Correct only when the model answers without calling any
+												tool. Failures rewrite the tool that was called.
+											</p>
+										)}
+										{newTestCallsType !== "single" &&
+											newTestCallsType !== "none" && (
+												<>
+													<Input
+														id="test-other-tools"
+														value={newTestOtherTools}
+														onChange={(e) =>
+															setNewTestOtherTools(e.target.value)
+														}
+														placeholder="read_file, write_file"
+													/>
+													<p className="text-xs text-muted-foreground">
+														Other tools, comma-separated, after the expected
+														tool. Partial matches get partial credit.
+													</p>
+												</>
+											)}
+									</div>
+									{newTestCallsType !== "none" && (
+										<div className="space-y-2">
+											<Label htmlFor="test-matcher">Argument Check</Label>
+											<Select
+												value={newTestMatcherType}
+												onValueChange={(value) =>
+													setNewTestMatcherType(
+														value as typeof newTestMatcherType,
+													)
+												}
+											>
+												<SelectTrigger id="test-matcher">
+													<SelectValue />
+												</SelectTrigger>
+												<SelectContent>
+													<SelectItem value="none">Tool only</SelectItem>
+													<SelectItem value="exact">Exact arguments</SelectItem>
+													<SelectItem value="subset">
+														Subset of arguments
+													</SelectItem>
+													<SelectItem value="regex">
+														Regex per argument
+													</SelectItem>
+													<SelectItem value="schema">
+														Any valid per schema
+													</SelectItem>
+												</SelectContent>
+											</Select>
+											{newTestMatcherType !== "none" &&
+												newTestMatcherType !== "schema" && (
+													<textarea
+														id="test-arguments"
+														value={newTestArguments}
+														onChange={(e) =>
+															setNewTestArguments(e.target.value)
+														}
+														placeholder={
+															newTestMatcherType === "regex"
+																? '{"path": "^notes/"}'
+																: '{"path": "notes.md"}'
+														}
+														className="w-full min-h-[60px] px-3 py-2 text-sm font-mono border rounded-md resize-y"
+													/>
+												)}
+										</div>
+									)}
 									<Button
 										onClick={handleAddTestCase}
 										disabled={addTestCaseMutation.isPending}
@@ -1215,13 +2262,36 @@ export function ConfigPanel({ onStart, onStop, isRunning }: ConfigPanelProps) {
 														<div className="text-sm">{tc.query}</div>
 														<div className="flex items-center gap-2">
 															<Badge variant="outline" className="text-xs">
-																{tc.expectedTool}
+																{tc.shouldCall === false
+																	? "no tool"
+																	: tc.expectedTool}
 															</Badge>
 															{tc.userCreated && (
 																<Badge variant="secondary" className="text-xs">
 																	Manual
 																</Badge>
 															)}
+															{tc.messages && (
+																<Badge variant="secondary" className="text-xs">
+																	{(JSON.parse(tc.messages) as ConversationMessage[]).length}{" "}
+																	turns
+																</Badge>
+															)}
+															{tc.expectedCalls && (
+																<Badge variant="secondary" className="text-xs">
+																	calls:{" "}
+																	{(JSON.parse(tc.expectedCalls) as ExpectedCalls).type}
+																</Badge>
+															)}
+															{tc.expectedArguments && (
+																<Badge variant="secondary" className="text-xs">
+																	args:{" "}
+																	{
+																		(JSON.parse(tc.expectedArguments) as ArgumentMatcher)
+																			.type
+																	}
+																</Badge>
+															)}
 														</div>
 													</div>
 													<Button
@@ -49,6 +49,10 @@ export function IterationDetail({
 		(e) => e.type === "reflection_done",
 	) as Extract<ProgressEvent, { type: "reflection_done" }> | undefined;
 
+	const mergeDone = iterationEvents.find((e) => e.type === "merge_done") as
+		| Extract<ProgressEvent, { type: "merge_done" }>
+		| undefined;
+
 	const subsampleEval = iterationEvents.find(
 		(e) => e.type === "subsample_eval",
 	) as Extract<ProgressEvent, { type: "subsample_eval" }> | undefined;
@@ -98,6 +102,16 @@ export function IterationDetail({
 		}
 	}
 
+	// Reflection notes for this iteration's offspring - from the candidates
+	// array, or from its candidate_done event while the run is live
+	const offspringId =
+		offspringAccepted?.candidateId ?? offspringRejected?.candidateId;
+	const offspring =
+		candidates?.find((c) => c.id === offspringId) ??
+		(events.find(
+			(e) => e.type === "candidate_done" && e.candidateId === offspringId,
+		) as Extract<ProgressEvent, { type: "candidate_done" }> | undefined);
+
 	return (
 		<div className="space-y-4 p-6">
 			<div className="flex items-center justify-between">
@@ -164,13 +178,22 @@ export function IterationDetail({
 													}
 													className="text-xs"
 												>
-													Selected: {evalEvent.result.selected || "none"}
+													Selected:{" "}
+													{evalEvent.result.selectedTools?.join(", ") ||
+														evalEvent.result.selected ||
+														"none"}
 												</Badge>
 												{!evalEvent.result.correct && (
 													<Badge variant="outline" className="text-xs">
 														Expected: {evalEvent.result.expected}
 													</Badge>
 												)}
+												{evalEvent.result.credit !== undefined &&
+													!evalEvent.result.correct && (
+														<Badge variant="outline" className="text-xs">
+															{(evalEvent.result.credit * 100).toFixed(0)}% credit
+														</Badge>
+													)}
 											</div>
 										</div>
 									</div>
@@ -232,6 +255,14 @@ export function IterationDetail({
 								</p>
 							</div>
 						</div>
+						{parentSelected.rationale && (
+							<div>
+								<p className="text-sm text-muted-foreground">
+									Why ({parentSelected.strategy})
+								</p>
+								<p className="text-sm">{parentSelected.rationale}</p>
+							</div>
+						)}
 
 						<Separator />
 						<div>
@@ -307,12 +338,68 @@ export function IterationDetail({
 				</Card>
 			)}
 
+			{/* Merge */}
+			{mergeDone && (
+				<Card>
+					<CardHeader>
+						<CardTitle>Merge of Two Candidates</CardTitle>
+					</CardHeader>
+					<CardContent className="space-y-2">
+						<p className="text-xs text-muted-foreground">
+							Each tool keeps the description of the parent that did better on
+							its test cases.
+						</p>
+						{Object.entries(mergeDone.toolSources).map(([tool, source]) => (
+							<div key={tool} className="flex justify-between text-sm">
+								<span className="font-mono">{tool}</span>
+								<Badge variant="outline" className="text-xs">
+									{source === mergeDone.mergeParentId
+										? "second parent"
+										: "parent"}{" "}
+									{source.slice(0, 8)}
+								</Badge>
+							</div>
+						))}
+					</CardContent>
+				</Card>
+			)}
+
+			{/* Reflection Rationale */}
+			{(offspring?.diagnosis || offspring?.rationale) && (
+				<Card>
+					<CardHeader>
+						<CardTitle>Reflection Rationale</CardTitle>
+					</CardHeader>
+					<CardContent className="space-y-4">
+						{offspring.diagnosis && (
+							<div>
+								<p className="text-sm font-medium mb-2">Diagnosis</p>
+								<p className="text-sm whitespace-pre-wrap break-words">
+									{offspring.diagnosis}
+								</p>
+							</div>
+						)}
+						{offspring.rationale && (
+							<div>
+								<p className="text-sm font-medium mb-2">Why This Change</p>
+								<p className="text-sm whitespace-pre-wrap break-words">
+									{offspring.rationale}
+								</p>
+							</div>
+						)}
+					</CardContent>
+				</Card>
+			)}
+
 			{/* Subsample Evaluation */}
 			{subsampleEval && (
 				<Card>
 					<CardHeader>
 						<CardTitle>
-							Subsample Evaluation ({subsampleEval.subsampleSize} test cases)
+							Subsample Evaluation ({subsampleEval.subsampleSize} test cases
+							{subsampleEval.subsampleStrategy &&
+								`, ${subsampleEval.subsampleStrategy}`}
+							)
 						</CardTitle>
 					</CardHeader>
 					<CardContent className="space-y-4">
@@ -331,6 +418,18 @@ export function IterationDetail({
 							</div>
 						</div>
 
+						{subsampleEval.acceptanceTest &&
+							subsampleEval.acceptanceTest !== "threshold" && (
+								<p className="text-sm text-muted-foreground text-center">
+									{subsampleEval.acceptanceTest} test: statistic{" "}
+									{subsampleEval.acceptanceStatistic.toFixed(3)}
+									{subsampleEval.acceptancePValue !== undefined &&
+										`, p = ${subsampleEval.acceptancePValue.toFixed(3)}`}
+									{subsampleEval.extraCases > 0 &&
+										`, ${subsampleEval.extraCases} extra cases`}
+								</p>
+							)}
+
 						{/* Show which test cases were in the subsample */}
 						{evaluationEvents.length > 0 &&
 							evaluationEvents.length <= subsampleEval.subsampleSize && (
@@ -18,6 +18,26 @@ export function MetricsPanel({ events }: MetricsPanelProps) {
 				<CardTitle>Metrics</CardTitle>
 			</CardHeader>
 			<CardContent className="space-y-6">
+				{metrics.errorCount > 0 && (
+					<div className="space-y-2">
+						<div className="flex items-center justify-between">
+							<h3 className="text-lg font-semibold">Evaluation Errors</h3>
+							<Badge variant="destructive">{metrics.errorCount}</Badge>
+						</div>
+						<p className="text-xs text-muted-foreground">
+							Failed after retries and excluded from accuracy (
+							{metrics.evaluationCount} evaluations total)
+						</p>
+						<dl className="space-y-1 text-sm">
+							{Object.entries(metrics.errorsByKind).map(([kind, count]) => (
+								<div key={kind} className="flex justify-between">
+									<dt className="font-semibold">{kind.replace("_", " ")}</dt>
+									<dd>{count}</dd>
+								</div>
+							))}
+						</dl>
+					</div>
+				)}
 				{metrics.bestAccuracy > 0 ? (
 					<>
 						<div className="space-y-2">
@@ -132,9 +152,24 @@ function computeMetrics(events: ProgressEvent[]) {
 		});
 	});
 
+	// Failed evaluations by kind (rate limits, timeouts, ...)
+	const evaluations = events.filter(
+		(e): e is Extract<ProgressEvent, { type: "evaluation" }> =>
+			e.type === "evaluation",
+	);
+	const errorsByKind: Record<string, number> = {};
+	for (const e of evaluations) {
+		if (e.result.error) {
+			errorsByKind[e.result.error] = (errorsByKind[e.result.error] ?? 0) + 1;
+		}
+	}
+
 	return {
 		paretoFront,
 		accuracyByGen,
+		evaluationCount: evaluations.length,
+		errorCount: Object.values(errorsByKind).reduce((sum, n) => sum + n, 0),
+		errorsByKind,
 		bestAccuracy: Math.max(...paretoFront.map((c) => c.accuracy), 0),
 		bestLength:
 			paretoFront.length > 0
@@ -0,0 +1,171 @@
+import { useEffect, useState } from "react";
+import type { PromptTemplateName } from "../../types";
+import { usePromptTemplates, useSavePromptTemplate } from "../queries";
+import { Alert, AlertDescription } from "./alert";
+import { Badge } from "./badge";
+import { Button } from "./button";
+import { Label } from "./label";
+import { ScrollArea } from "./scroll-area";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "./select";
+
+export function PromptTemplatesPanel() {
+	const { data: templates = [], isLoading } = usePromptTemplates();
+	const saveMutation = useSavePromptTemplate();
+
+	const [selectedName, setSelectedName] =
+		useState<PromptTemplateName>("reflection");
+	const [draft, setDraft] = useState("");
+	const [error, setError] = useState<string | null>(null);
+
+	const selected = templates.find((t) => t.name === selectedName);
+	const currentText =
+		selected?.versions[0]?.template ?? selected?.defaultTemplate ?? "";
+
+	// Editing starts from the version runs currently use
+	useEffect(() => {
+		setDraft(currentText);
+		setError(null);
+	}, [currentText]);
+
+	if (isLoading) {
+		return (
+			<div className="p-6">
+				<p className="text-muted-foreground">Loading templates...</p>
+			</div>
+		);
+	}
+
+	if (!selected) return null;
+
+	const handleSave = () => {
+		setError(null);
+		saveMutation.mutate(
+			{ name: selected.name, template: draft },
+			{
+				onError: (err) => setError(err.message),
+			},
+		);
+	};
+
+	return (
+		<ScrollArea className="h-full">
+			<div className="p-6 space-y-4">
+				<div className="space-y-2">
+					<Label htmlFor="prompt-template">Template</Label>
+					<Select
+						value={selectedName}
+						onValueChange={(value) =>
+							setSelectedName(value as PromptTemplateName)
+						}
+					>
+						<SelectTrigger id="prompt-template">
+							<SelectValue />
+						</SelectTrigger>
+						<SelectContent>
+							{templates.map((t) => (
+								<SelectItem key={t.name} value={t.name}>
+									{t.name}
+									{t.currentVersion > 0 && ` (v${t.currentVersion})`}
+								</SelectItem>
+							))}
+						</SelectContent>
+					</Select>
+					<p className="text-xs text-muted-foreground">
+						{selected.description}
+					</p>
+				</div>
+
+				<div className="flex flex-wrap gap-1">
+					{selected.variables.map((variable) => (
+						<Badge
+							key={variable}
+							variant="outline"
+							className="font-mono text-xs"
+						>
+							{`{{${variable}}}`}
+						</Badge>
+					))}
+				</div>
+
+				<textarea
+					id="prompt-template-text"
+					value={draft}
+					onChange={(e) => setDraft(e.target.value)}
+					className="w-full min-h-[320px] px-3 py-2 text-xs font-mono border rounded-md resize-y"
+				/>
+
+				{error && (
+					<Alert variant="destructive">
+						<AlertDescription>{error}</AlertDescription>
+					</Alert>
+				)}
+
+				<div className="flex gap-2">
+					<Button
+						size="sm"
+						onClick={handleSave}
+						disabled={draft === currentText || saveMutation.isPending}
+					>
+						{saveMutation.isPending
+							? "Saving..."
+							: `Save as v${selected.currentVersion + 1}`}
+					</Button>
+					<Button
+						size="sm"
+						variant="outline"
+						onClick={() => setDraft(selected.defaultTemplate)}
+						disabled={draft === selected.defaultTemplate}
+					>
+						Load Built-in
+					</Button>
+				</div>
+
+				<div className="space-y-2">
+					<Label>History</Label>
+					{selected.versions.length === 0 ? (
+						<p className="text-xs text-muted-foreground">
+							Using the built-in template (v0).
+						</p>
+					) : (
+						selected.versions.map((version) => (
+							<div
+								key={version.version}
+								className="flex items-center justify-between text-sm"
+							>
+								<span>
+									v{version.version}
+									{version.version === selected.currentVersion && (
+										<Badge variant="secondary" className="ml-2 text-xs">
+											Current
+										</Badge>
+									)}
+								</span>
+								<span className="flex items-center gap-2 text-xs text-muted-foreground">
+									{new Date(version.createdAt).toLocaleString()}
+									<Button
+										size="sm"
+										variant="ghost"
+										onClick={() => setDraft(version.template)}
+									>
+										Load
+									</Button>
+								</span>
+							</div>
+						))
+					)}
+					<p className="text-xs text-muted-foreground">
+						Runs use the latest version; every candidate records the template
+						versions that produced it. Saving an older version makes it the
+						latest again.
+					</p>
+				</div>
+			</div>
+		</ScrollArea>
+	);
+}
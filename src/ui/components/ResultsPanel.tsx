@@ -10,6 +10,10 @@ import { Slider } from "./slider";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "./tabs";
 import { CandidateFlowGraph } from "./CandidateFlowGraph";
 
+// Gaps above this (10 points) are highlighted - the descriptions fit the
+// cases reflection saw better than new ones
+const GAP_WARNING = 0.1;
+
 interface ResultsPanelProps {
 	candidates: CandidateData[];
 }
@@ -87,7 +91,9 @@ function RankedCandidateList({ candidates, isGEPA }: { candidates: CandidateData
 				const isBaseline = candidate.id === baselineCandidate?.id;
 
 				// Count evaluations from the evaluations array if available
-				const totalEvals = candidate.evaluations?.length ?? 0;
+				// Failed LLM calls are not scored, matching accuracy
+				const totalEvals =
+					candidate.evaluations?.filter((e) => !e.error).length ?? 0;
 				const passedEvals = candidate.evaluations?.filter(e => e.correct).length ?? 0;
 
 				return (
@@ -110,6 +116,18 @@ function RankedCandidateList({ candidates, isGEPA }: { candidates: CandidateData
 												Baseline
 											</Badge>
 										)}
+										{candidate.promptVersions &&
+											Object.entries(candidate.promptVersions).map(
+												([name, version]) => (
+													<Badge
+														key={name}
+														variant="secondary"
+														className="text-xs"
+													>
+														{name} v{version}
+													</Badge>
+												),
+											)}
 									</div>
 									<div className="flex items-center gap-6 mb-3">
 										<div>
@@ -118,11 +136,63 @@ function RankedCandidateList({ candidates, isGEPA }: { candidates: CandidateData
 											</div>
 											<div className="text-sm text-muted-foreground">
 												{passedEvals}/{totalEvals} evals passed
+												{candidate.errorCount ? ` (${candidate.errorCount} errors)` : ""}
 											</div>
 										</div>
+										{candidate.stability !== undefined && (
+											<div className="text-sm text-muted-foreground">
+												{((candidate.expectedAccuracy ?? 0) * 100).toFixed(1)}%
+												expected, {(candidate.stability * 100).toFixed(0)}%
+												stable
+											</div>
+										)}
+										{candidate.modelAccuracy && (
+											<div className="text-sm text-muted-foreground">
+												{Object.entries(candidate.modelAccuracy)
+													.map(
+														([model, accuracy]) =>
+															`${model} ${(accuracy * 100).toFixed(0)}%`,
+													)
+													.join(", ")}
+												{candidate.robustness !== undefined &&
+													` (robustness ${(candidate.robustness * 100).toFixed(1)}%)`}
+											</div>
+										)}
+										{candidate.trainScore !== undefined &&
+											candidate.validationScore !== undefined && (
+												<div className="text-sm text-muted-foreground">
+													{formatScore(candidate.trainScore)} train,{" "}
+													{formatScore(candidate.validationScore)} val
+													{candidate.testScore !== undefined &&
+														`, ${formatScore(candidate.testScore)} test`}
+													<span
+														className={
+															getGeneralizationGap(candidate) > GAP_WARNING
+																? "text-amber-700"
+																: undefined
+														}
+													>
+														{" "}
+														(gap{" "}
+														{(getGeneralizationGap(candidate) * 100).toFixed(1)}{" "}
+														pts)
+													</span>
+												</div>
+											)}
+										{candidate.argumentAccuracy !== undefined && (
+											<div className="text-sm text-muted-foreground">
+												{(candidate.argumentAccuracy * 100).toFixed(1)}% args
+												correct
+											</div>
+										)}
 										<div className="text-sm text-muted-foreground">
 											{Math.round(candidate.avgDescriptionLength)} chars avg
 										</div>
+										{candidate.toolListTokens !== undefined && (
+											<div className="text-sm text-muted-foreground">
+												~{candidate.toolListTokens} tokens (tool list)
+											</div>
+										)}
 										<Button
 											variant="ghost"
 											size="sm"
@@ -247,6 +317,21 @@ export function ResultsPanel({ candidates }: ResultsPanelProps) {
 	);
 }
 
+function formatScore(score: number): string {
+	return `${(score * 100).toFixed(1)}%`;
+}
+
+/**
+ * How much worse a split run's candidate does on cases it was not tuned on -
+ * train score minus the test score, or the validation score without one
+ */
+function getGeneralizationGap(candidate: CandidateData): number {
+	return (
+		(candidate.trainScore ?? 0) -
+		(candidate.testScore ?? candidate.validationScore ?? 0)
+	);
+}
+
 function calculateParetoFront(candidates: CandidateData[]): CandidateData[] {
 	return candidates.filter((c1) => !candidates.some((c2) => dominates(c2, c1)));
 }
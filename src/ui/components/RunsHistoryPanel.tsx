@@ -7,14 +7,21 @@ import { Card, CardContent, CardHeader, CardTitle } from "./card";
 import { ScrollArea } from "./scroll-area";
 import { Separator } from "./separator";
 
+// GEPA runs in these states continue where they stopped
+const RESUMABLE_STATUSES = ["interrupted", "cancelled", "failed"];
+
 interface RunsHistoryPanelProps {
 	onSelectRun: (runId: string) => void;
+	onResumeRun: (runId: string) => void;
 	currentRunId?: string;
+	isRunning: boolean;
 }
 
 export function RunsHistoryPanel({
 	onSelectRun,
+	onResumeRun,
 	currentRunId,
+	isRunning,
 }: RunsHistoryPanelProps) {
 	const { data: runs = [], isLoading } = useRuns();
 	const { data: servers = [] } = useMCPServers();
@@ -28,6 +35,8 @@ export function RunsHistoryPanel({
 
 	const completedRuns = sortedRuns.filter((r) => r.status === "completed");
 	const failedRuns = sortedRuns.filter((r) => r.status === "failed");
+	const cancelledRuns = sortedRuns.filter((r) => r.status === "cancelled");
+	const interruptedRuns = sortedRuns.filter((r) => r.status === "interrupted");
 	const runningRuns = sortedRuns.filter((r) => r.status === "running");
 
 	function getStatusBadge(status: string) {
@@ -36,6 +45,10 @@ export function RunsHistoryPanel({
 				return <Badge variant="default">Completed</Badge>;
 			case "failed":
 				return <Badge variant="destructive">Failed</Badge>;
+			case "cancelled":
+				return <Badge variant="outline">Cancelled</Badge>;
+			case "interrupted":
+				return <Badge variant="outline">Interrupted</Badge>;
 			case "running":
 				return <Badge variant="secondary">Running</Badge>;
 			default:
@@ -62,6 +75,8 @@ export function RunsHistoryPanel({
 	function renderRunCard(run: Run) {
 		const config = JSON.parse(run.config);
 		const isSelected = run.id === currentRunId;
+		const isResumable =
+			config.optimizer !== "golden" && RESUMABLE_STATUSES.includes(run.status);
 
 		return (
 			<Card
@@ -82,16 +97,31 @@ export function RunsHistoryPanel({
 									})}
 								</span>
 							</div>
-							<Button
-								size="sm"
-								variant={isSelected ? "default" : "outline"}
-								onClick={(e) => {
-									e.stopPropagation();
-									onSelectRun(run.id);
-								}}
-							>
-								{isSelected ? "Selected" : "View"}
-							</Button>
+							<div className="flex items-center gap-2">
+								{isResumable && (
+									<Button
+										size="sm"
+										variant="outline"
+										disabled={isRunning}
+										onClick={(e) => {
+											e.stopPropagation();
+											onResumeRun(run.id);
+										}}
+									>
+										Resume
+									</Button>
+								)}
+								<Button
+									size="sm"
+									variant={isSelected ? "default" : "outline"}
+									onClick={(e) => {
+										e.stopPropagation();
+										onSelectRun(run.id);
+									}}
+								>
+									{isSelected ? "Selected" : "View"}
+								</Button>
+							</div>
 						</div>
 
 						<div className="space-y-1 text-sm">
@@ -121,6 +151,52 @@ export function RunsHistoryPanel({
 									{run.maxEvaluations || config.maxEvaluations} evals
 								</span>
 							</div>
+							{config.seed !== undefined && (
+								<div className="flex justify-between">
+									<span className="text-muted-foreground">Seed:</span>
+									<span className="font-medium">{config.seed}</span>
+								</div>
+							)}
+							{run.cacheHits !== null && run.cacheMisses !== null && (
+								<div className="flex justify-between">
+									<span className="text-muted-foreground">Cache:</span>
+									<span className="font-medium">
+										{run.cacheHits} hits / {run.cacheMisses} misses
+									</span>
+								</div>
+							)}
+							{run.costUsd !== null && (
+								<div className="flex justify-between">
+									<span className="text-muted-foreground">Cost:</span>
+									<span className="font-medium">
+										${run.costUsd.toFixed(4)}
+										{config.maxCostUsd ? ` of $${config.maxCostUsd}` : ""}
+									</span>
+								</div>
+							)}
+							{run.inputTokens !== null && run.outputTokens !== null && (
+								<div className="flex justify-between">
+									<span className="text-muted-foreground">Tokens:</span>
+									<span className="font-medium">
+										{run.inputTokens.toLocaleString()} in /{" "}
+										{run.outputTokens.toLocaleString()} out
+									</span>
+								</div>
+							)}
+							{run.stopReason !== null && (
+								<div className="flex justify-between">
+									<span className="text-muted-foreground">Stopped:</span>
+									<span
+										className="font-medium"
+										title={run.stopDetail ?? undefined}
+									>
+										{run.stopReason}
+										{run.unspentEvaluations
+											? ` (${run.unspentEvaluations} evals unspent)`
+											: ""}
+									</span>
+								</div>
+							)}
 						</div>
 
 						<div className="text-xs text-muted-foreground pt-2">
@@ -199,6 +275,34 @@ export function RunsHistoryPanel({
 						</div>
 					</>
 				)}
+
+				{cancelledRuns.length > 0 && (
+					<>
+						<Separator />
+						<div>
+							<h3 className="text-sm font-semibold mb-3 text-muted-foreground uppercase">
+								Cancelled ({cancelledRuns.length})
+							</h3>
+							<div className="space-y-3">
+								{cancelledRuns.map((run) => renderRunCard(run))}
+							</div>
+						</div>
+					</>
+				)}
+
+				{interruptedRuns.length > 0 && (
+					<>
+						<Separator />
+						<div>
+							<h3 className="text-sm font-semibold mb-3 text-muted-foreground uppercase">
+								Interrupted ({interruptedRuns.length})
+							</h3>
+							<div className="space-y-3">
+								{interruptedRuns.map((run) => renderRunCard(run))}
+							</div>
+						</div>
+					</>
+				)}
 			</div>
 		</ScrollArea>
 	);
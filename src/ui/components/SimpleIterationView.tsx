@@ -98,6 +98,9 @@ export function SimpleIterationView({
 	const [selectedIter, setSelectedIter] = useState<number | null>(null);
 
 	const selected = iterations.find((i) => i.number === selectedIter);
+	const cacheStats = events.findLast((e) => e.type === "cache_stats");
+	const costUpdate = events.findLast((e) => e.type === "cost_update");
+	const complete = events.findLast((e) => e.type === "optimization_complete");
 
 	return (
 		<Tabs defaultValue="progress" className="h-full flex flex-col">
@@ -119,6 +122,31 @@ export function SimpleIterationView({
 						<h3 className="font-semibold text-sm text-muted-foreground mb-4">
 							ITERATIONS
 						</h3>
+						{cacheStats?.type === "cache_stats" && (
+							<p className="text-xs text-muted-foreground mb-4">
+								Cache: {cacheStats.hits} hits / {cacheStats.misses} misses
+							</p>
+						)}
+						{costUpdate?.type === "cost_update" && (
+							<p className="text-xs text-muted-foreground mb-4">
+								Cost: ${costUpdate.costUsd.toFixed(4)} (
+								{(
+									costUpdate.inputTokens + costUpdate.outputTokens
+								).toLocaleString()}{" "}
+								tokens)
+							</p>
+						)}
+						{complete?.type === "optimization_complete" && (
+							<p className="text-xs text-muted-foreground mb-4">
+								Stopped ({complete.stopReason}): {complete.stopDetail}
+								{complete.unspentEvaluations
+									? ` - ${complete.unspentEvaluations} evaluations unspent`
+									: ""}
+								{complete.unspentCostUsd !== undefined
+									? `, $${complete.unspentCostUsd.toFixed(4)} left`
+									: ""}
+							</p>
+						)}
 						{iterations.map((iter) => (
 							<Card
 								key={iter.number}
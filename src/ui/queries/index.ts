@@ -1,21 +1,34 @@
-export type { ActiveRun, CandidateData, Run } from "./queries";
+export type {
+	ActiveRun,
+	CandidateData,
+	ModelProviderData,
+	PromptTemplateData,
+	Run,
+} from "./queries";
 export {
 	useActiveRuns,
+	useAddModelProvider,
 	useAddTestCase,
 	useCandidates,
 	useConnectMCP,
+	useDeleteModelProvider,
 	useDeleteServer,
 	useDeleteTestCase,
 	useDeselectAllTools,
 	useGenerateTests,
 	useMCPServers,
+	useModelProviders,
+	useModels,
 	useOAuthAuthorize,
 	useOAuthRefresh,
+	usePromptTemplates,
 	useReconnectToRun,
 	useRuns,
+	useSavePromptTemplate,
 	useSelectAllTools,
 	useStartOptimization,
 	useTestCases,
 	useTools,
+	useUpdateHostContext,
 	useUpdateToolSelection,
 } from "./queries";
@@ -1,11 +1,20 @@
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { useRef } from "react";
 import type {
+	ArgumentMatcher,
+	ConversationMessage,
+	EvaluationErrorKind,
+	ExpectedCalls,
+	HostContext,
 	MCPConfig,
 	MCPServer,
+	ModelInfo,
 	ModelName,
+	ModelProviderConfig,
 	OptimizationConfig,
 	ProgressEvent,
+	PromptTemplateName,
+	PromptVersions,
 	TestCaseRow,
 	ToolRow,
 } from "../../types";
@@ -65,6 +74,94 @@ export function useOAuthRefresh() {
 	});
 }
 
+// Model Registry Queries
+export type ModelProviderData = Omit<ModelProviderConfig, "apiKey"> & {
+	hasApiKey: boolean;
+};
+
+export function useModels() {
+	return useQuery<ModelInfo[]>({
+		queryKey: ["models"],
+		queryFn: () => api.get("/api/models"),
+	});
+}
+
+export function useModelProviders() {
+	return useQuery<ModelProviderData[]>({
+		queryKey: ["model-providers"],
+		queryFn: () => api.get("/api/providers"),
+	});
+}
+
+export function useAddModelProvider() {
+	const queryClient = useQueryClient();
+	return useMutation({
+		mutationFn: (provider: {
+			name: string;
+			baseUrl: string;
+			apiKey?: string;
+			models: string[];
+		}) =>
+			api.post<{ providerId: string; models: string[] }>(
+				"/api/providers/add",
+				provider,
+			),
+		onSuccess: () => {
+			queryClient.invalidateQueries({ queryKey: ["models"] });
+			queryClient.invalidateQueries({ queryKey: ["model-providers"] });
+		},
+	});
+}
+
+export function useDeleteModelProvider() {
+	const queryClient = useQueryClient();
+	return useMutation({
+		mutationFn: ({ providerId }: { providerId: string }) =>
+			api.delete(`/api/providers/${providerId}`),
+		onSuccess: () => {
+			queryClient.invalidateQueries({ queryKey: ["models"] });
+			queryClient.invalidateQueries({ queryKey: ["model-providers"] });
+		},
+	});
+}
+
+// Prompt Template Queries
+export interface PromptTemplateData {
+	name: PromptTemplateName;
+	description: string;
+	variables: string[];
+	defaultTemplate: string;
+	currentVersion: number; // 0 = built-in default
+	versions: Array<{ version: number; template: string; createdAt: string }>; // Newest first
+}
+
+export function usePromptTemplates() {
+	return useQuery<PromptTemplateData[]>({
+		queryKey: ["prompt-templates"],
+		queryFn: () => api.get("/api/prompt-templates"),
+	});
+}
+
+export function useSavePromptTemplate() {
+	const queryClient = useQueryClient();
+	return useMutation({
+		mutationFn: ({
+			name,
+			template,
+		}: {
+			name: PromptTemplateName;
+			template: string;
+		}) =>
+			api.put<{ name: PromptTemplateName; version: number }>(
+				`/api/prompt-templates/${name}`,
+				{ template },
+			),
+		onSuccess: () => {
+			queryClient.invalidateQueries({ queryKey: ["prompt-templates"] });
+		},
+	});
+}
+
 // Tool Queries
 export function useTools(serverId: string | undefined) {
 	return useQuery<ToolRow[]>({
@@ -92,6 +189,22 @@ export function useUpdateToolSelection() {
 	});
 }
 
+export function useUpdateHostContext() {
+	const queryClient = useQueryClient();
+	return useMutation({
+		mutationFn: ({
+			serverId,
+			hostContext,
+		}: {
+			serverId: string;
+			hostContext: HostContext;
+		}) => api.put(`/api/mcp/servers/${serverId}/host-context`, { hostContext }),
+		onSuccess: () => {
+			queryClient.invalidateQueries({ queryKey: ["mcp-servers"] });
+		},
+	});
+}
+
 export function useSelectAllTools() {
 	const queryClient = useQueryClient();
 	return useMutation({
@@ -129,17 +242,20 @@ export function useGenerateTests() {
 		mutationFn: ({
 			serverId,
 			testsPerTool,
+			abstentionsPerTool,
 			model,
 			customPrompt,
 		}: {
 			serverId: string;
 			testsPerTool: number;
+			abstentionsPerTool?: number;
 			model: ModelName;
 			customPrompt?: string;
 		}) =>
 			api.post("/api/tests/generate", {
 				serverId,
 				testsPerTool,
+				abstentionsPerTool,
 				model,
 				customPrompt,
 			}),
@@ -158,11 +274,28 @@ export function useAddTestCase() {
 			toolId,
 			query,
 			expectedTool,
+			expectedArguments,
+			messages,
+			expectedCalls,
+			shouldCall,
 		}: {
 			toolId: string;
 			query: string;
 			expectedTool: string;
-		}) => api.post("/api/tests/add", { toolId, query, expectedTool }),
+			expectedArguments?: ArgumentMatcher;
+			messages?: ConversationMessage[];
+			expectedCalls?: ExpectedCalls;
+			shouldCall?: boolean; // false: abstention test
+		}) =>
+			api.post("/api/tests/add", {
+				toolId,
+				query,
+				expectedTool,
+				expectedArguments,
+				messages,
+				expectedCalls,
+				shouldCall,
+			}),
 		onSuccess: () => {
 			queryClient.invalidateQueries({ queryKey: ["test-cases"] });
 		},
@@ -186,10 +319,27 @@ export interface CandidateData {
 	generation: number;
 	iteration: number | null;
 	parentId: string | null;
+	mergeParentId?: string | null; // Merge offspring: the second parent
 	toolDescriptions: Record<string, string>;
 	accuracy: number;
+	argumentAccuracy?: number;
+	errorCount?: number;
+	expectedAccuracy?: number;
+	stability?: number;
+	modelAccuracy?: Record<string, number>;
+	robustness?: number;
+	promptVersions?: PromptVersions;
+	diagnosis?: string;
+	rationale?: string;
 	avgDescriptionLength: number;
+	avgToolTokens?: number;
+	toolListTokens?: number;
+	toolTokens?: Record<string, number>;
 	isPareto: boolean;
+	// Final Pareto candidates of split runs
+	trainScore?: number;
+	validationScore?: number;
+	testScore?: number;
 	rejected?: boolean;
 	rejectionReason?: string;
 	evaluations?: Array<{
@@ -197,6 +347,11 @@ export interface CandidateData {
 		selectedTool: string | null;
 		expectedTool: string;
 		correct: boolean;
+		argumentsCorrect?: boolean;
+		error?: EvaluationErrorKind;
+		selectionCounts?: Record<string, number>;
+		sampleAccuracy?: number;
+		model?: string;
 	}>;
 }
 
@@ -217,6 +372,14 @@ export interface Run {
 	status: string;
 	maxEvaluations?: number;
 	subsampleSize?: number;
+	cacheHits: number | null;
+	cacheMisses: number | null;
+	inputTokens: number | null;
+	outputTokens: number | null;
+	costUsd: number | null;
+	stopReason: string | null;
+	stopDetail: string | null;
+	unspentEvaluations: number | null;
 }
 
 export interface ActiveRun extends Run {
@@ -287,22 +450,25 @@ export function useStartOptimization(options: UseStartOptimizationOptions) {
 	const abortControllerRef = useRef<AbortController | null>(null);
 
 	const mutation = useMutation({
-		mutationFn: async ({
-			serverId,
-			config,
-		}: {
-			serverId: string;
-			config: OptimizationConfig;
-		}) => {
+		// A runId resumes that run instead of starting a new one
+		mutationFn: async (
+			variables:
+				| { serverId: string; config: OptimizationConfig }
+				| { runId: string },
+		) => {
 			const controller = new AbortController();
 			abortControllerRef.current = controller;
 
+			// Events can be split across chunks (a resumed run replays many at
+			// once) - keep the unfinished line for the next chunk
+			let buffered = "";
 			await api.postStream(
-				"/api/optimize/start",
-				{ serverId, config },
+				"runId" in variables ? "/api/optimize/resume" : "/api/optimize/start",
+				variables,
 				controller.signal,
 				(chunk) => {
-					const lines = chunk.split("\n");
+					const lines = (buffered + chunk).split("\n");
+					buffered = lines.pop() ?? "";
 					for (const line of lines) {
 						if (line.startsWith("data: ")) {
 							const data = line.slice(6);